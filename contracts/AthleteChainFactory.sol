@@ -33,17 +33,65 @@ contract AthleteChainFactory {
     mapping(address => bool) public isRegistered;
     address public admin;
 
+    // Lifecycle shared by verification and role requests
+    enum RequestStatus { None, Pending, Approved, Rejected }
+
+    // Verification request struct
+    struct VerificationRequest {
+        address user;
+        string documentsIPFSHash;
+        RequestStatus status;
+        string decisionReason;
+        uint256 requestedAt;
+        uint256 decidedAt;
+    }
+
+    // Mapping from request ID to verification request
+    mapping(uint256 => VerificationRequest) public verificationRequests;
+    uint256 public verificationRequestCount;
+
+    // Most recent verification request per user
+    mapping(address => uint256) public latestVerificationRequestOf;
+    mapping(address => bool) public hasVerificationRequest;
+
+    // Role request struct
+    struct RoleRequest {
+        address user;
+        bytes32 role;
+        RequestStatus status;
+        string decisionReason;
+        uint256 requestedAt;
+        uint256 decidedAt;
+    }
+
+    // Mapping from request ID to role request
+    mapping(uint256 => RoleRequest) public roleRequests;
+    uint256 public roleRequestCount;
+
+    // Whether a user has an open request for a given role
+    mapping(address => mapping(bytes32 => bool)) public hasPendingRoleRequest;
+
     // Events
     event ContractCreated(uint256 indexed contractId, address athlete, address sponsor);
     event NFTMinted(uint256 indexed tokenId, uint256 indexed contractId);
     event UserRegistered(address indexed user, string name, string profileIPFSHash, bytes32 role);
     event RoleAdded(address indexed user, bytes32 role);
+    event RoleRevoked(address indexed user, bytes32 role);
     event UserVerified(address indexed user);
+    event UserUnverified(address indexed user);
+    event VerificationRequested(uint256 indexed requestId, address indexed user, string documentsIPFSHash);
+    event VerificationReviewed(uint256 indexed requestId, address indexed user, bool approved, string reason);
+    event RoleRequested(uint256 indexed requestId, address indexed user, bytes32 role);
+    event RoleRequestReviewed(uint256 indexed requestId, address indexed user, bytes32 role, bool approved, string reason);
+    event ProfileUpdated(address indexed user, string name, string profileIPFSHash);
+    event DisputeResolutionSet(address indexed disputeResolution);
+    event PerformanceOracleSet(address indexed performanceOracle);
+    event TerminationManagerSet(address indexed terminationManager);
     
     constructor() {
         // Deploy child contracts
         athleteContract = new AthleteContract();
-        sponsorshipNFT = new SponsorshipNFT();
+        sponsorshipNFT = new SponsorshipNFT(athleteContract);
         admin = msg.sender;
     }
     
@@ -58,7 +106,8 @@ contract AthleteChainFactory {
         uint256 startDate,
         uint256 endDate,
         address paymentToken,
-        address[] memory arbitrators
+        address[] memory arbitrators,
+        uint256 reviewPeriod
     ) external returns (uint256) {
         uint256 contractId = athleteContract.createContract(
             athlete,
@@ -68,7 +117,8 @@ contract AthleteChainFactory {
             startDate,
             endDate,
             paymentToken,
-            arbitrators
+            arbitrators,
+            reviewPeriod
         );
         
         emit ContractCreated(contractId, athlete, sponsor);
@@ -76,12 +126,24 @@ contract AthleteChainFactory {
         return contractId;
     }
     
+    /**
+     * @dev Name a registered agent and their commission in basis points on a draft contract (athlete only)
+     */
+    function assignAgent(uint256 contractId, address agent, uint256 commissionBps) external {
+        (address athlete, , , , , , , ) = athleteContract.getContractDetails(contractId);
+        require(msg.sender == athlete, "Only athlete can assign agent");
+        require(agent == address(0) || _users[agent].roles[AGENT_ROLE], "Agent not registered");
+        
+        athleteContract.setAgent(contractId, agent, commissionBps);
+    }
+    
     /**
      * @dev Mint NFT for a sponsorship contract
      */
     function mintContractNFT(
         uint256 contractId,
-        string memory tokenURI
+        string memory tokenURI,
+        string memory completionURI
     ) external returns (uint256) {
         // Get contract details
         (
@@ -103,6 +165,7 @@ contract AthleteChainFactory {
             sponsor, // Initial owner is the sponsor
             contractId,
             tokenURI,
+            completionURI,
             athlete,
             sponsor
         );
@@ -128,6 +191,30 @@ contract AthleteChainFactory {
         return athleteContract.getContractDetails(contractId);
     }
 
+    /**
+     * @dev Authorize the DisputeResolution contract to raise and resolve disputes (admin only)
+     */
+    function setDisputeResolution(address disputeResolution) external onlyAdmin {
+        athleteContract.setDisputeResolver(disputeResolution);
+        emit DisputeResolutionSet(disputeResolution);
+    }
+
+    /**
+     * @dev Authorize the PerformanceOracle contract to set up and settle bonus milestones (admin only)
+     */
+    function setPerformanceOracle(address performanceOracle) external onlyAdmin {
+        athleteContract.setPerformanceOracle(performanceOracle);
+        emit PerformanceOracleSet(performanceOracle);
+    }
+
+    /**
+     * @dev Authorize the MutualTermination contract to settle contracts both parties agreed to end (admin only)
+     */
+    function setTerminationManager(address terminationManager) external onlyAdmin {
+        athleteContract.setTerminationManager(terminationManager);
+        emit TerminationManagerSet(terminationManager);
+    }
+
     // Register user (self or admin)
     function registerUser(address user, bytes32 role, string memory name, string memory profileIPFSHash) public {
         require(!isRegistered[user], "Already registered");
@@ -135,6 +222,7 @@ contract AthleteChainFactory {
             msg.sender == user || msg.sender == admin,
             "Only self or admin can register"
         );
+        require(role != ADMIN_ROLE || msg.sender == admin, "Only admin can assign admin role");
         User storage u = _users[user];
         u.userAddress = user;
         u.name = name;
@@ -145,6 +233,15 @@ contract AthleteChainFactory {
         emit UserRegistered(user, name, profileIPFSHash, role);
     }
 
+    // Update own name and profile metadata (registered users only)
+    function updateProfile(string memory name, string memory profileIPFSHash) public {
+        require(isRegistered[msg.sender], "User not registered");
+        User storage u = _users[msg.sender];
+        u.name = name;
+        u.profileIPFSHash = profileIPFSHash;
+        emit ProfileUpdated(msg.sender, name, profileIPFSHash);
+    }
+
     // Add role to user (admin only)
     function addRole(address user, bytes32 role) public onlyAdmin {
         require(isRegistered[user], "User not registered");
@@ -152,6 +249,14 @@ contract AthleteChainFactory {
         emit RoleAdded(user, role);
     }
 
+    // Revoke role from user (admin only)
+    function revokeRole(address user, bytes32 role) public onlyAdmin {
+        require(isRegistered[user], "User not registered");
+        require(_users[user].roles[role], "User does not have role");
+        _users[user].roles[role] = false;
+        emit RoleRevoked(user, role);
+    }
+
     // Verify user (admin only)
     function verifyUser(address user) public onlyAdmin {
         require(isRegistered[user], "User not registered");
@@ -159,6 +264,102 @@ contract AthleteChainFactory {
         emit UserVerified(user);
     }
 
+    // Remove verification from user (admin only)
+    function unverifyUser(address user) public onlyAdmin {
+        require(isRegistered[user], "User not registered");
+        require(_users[user].verified, "User not verified");
+        _users[user].verified = false;
+        emit UserUnverified(user);
+    }
+
+    // Submit supporting documents for admin review (registered, unverified users only)
+    function requestVerification(string memory documentsIPFSHash) public returns (uint256) {
+        require(isRegistered[msg.sender], "User not registered");
+        require(!_users[msg.sender].verified, "Already verified");
+        require(bytes(documentsIPFSHash).length > 0, "Documents required");
+        if (hasVerificationRequest[msg.sender]) {
+            require(
+                verificationRequests[latestVerificationRequestOf[msg.sender]].status != RequestStatus.Pending,
+                "Request already pending"
+            );
+        }
+
+        uint256 requestId = verificationRequestCount++;
+        VerificationRequest storage request = verificationRequests[requestId];
+        request.user = msg.sender;
+        request.documentsIPFSHash = documentsIPFSHash;
+        request.status = RequestStatus.Pending;
+        request.requestedAt = block.timestamp;
+
+        latestVerificationRequestOf[msg.sender] = requestId;
+        hasVerificationRequest[msg.sender] = true;
+
+        emit VerificationRequested(requestId, msg.sender, documentsIPFSHash);
+        return requestId;
+    }
+
+    // Approve or reject a pending verification request (admin only)
+    function reviewVerification(uint256 requestId, bool approved, string memory reason) public onlyAdmin {
+        require(requestId < verificationRequestCount, "Request does not exist");
+        VerificationRequest storage request = verificationRequests[requestId];
+        require(request.status == RequestStatus.Pending, "Request not pending");
+        require(approved || bytes(reason).length > 0, "Rejection reason required");
+
+        request.status = approved ? RequestStatus.Approved : RequestStatus.Rejected;
+        request.decisionReason = reason;
+        request.decidedAt = block.timestamp;
+
+        emit VerificationReviewed(requestId, request.user, approved, reason);
+
+        if (approved) {
+            _users[request.user].verified = true;
+            emit UserVerified(request.user);
+        }
+    }
+
+    // Ask the admin for an additional role (registered users only)
+    function requestRole(bytes32 role) public returns (uint256) {
+        require(isRegistered[msg.sender], "User not registered");
+        require(
+            role == ATHLETE_ROLE || role == SPONSOR_ROLE || role == AGENT_ROLE || role == ARBITRATOR_ROLE,
+            "Role cannot be requested"
+        );
+        require(!_users[msg.sender].roles[role], "Role already held");
+        require(!hasPendingRoleRequest[msg.sender][role], "Request already pending");
+
+        uint256 requestId = roleRequestCount++;
+        RoleRequest storage request = roleRequests[requestId];
+        request.user = msg.sender;
+        request.role = role;
+        request.status = RequestStatus.Pending;
+        request.requestedAt = block.timestamp;
+
+        hasPendingRoleRequest[msg.sender][role] = true;
+
+        emit RoleRequested(requestId, msg.sender, role);
+        return requestId;
+    }
+
+    // Approve or reject a pending role request (admin only)
+    function reviewRoleRequest(uint256 requestId, bool approved, string memory reason) public onlyAdmin {
+        require(requestId < roleRequestCount, "Request does not exist");
+        RoleRequest storage request = roleRequests[requestId];
+        require(request.status == RequestStatus.Pending, "Request not pending");
+        require(approved || bytes(reason).length > 0, "Rejection reason required");
+
+        request.status = approved ? RequestStatus.Approved : RequestStatus.Rejected;
+        request.decisionReason = reason;
+        request.decidedAt = block.timestamp;
+        hasPendingRoleRequest[request.user][request.role] = false;
+
+        emit RoleRequestReviewed(requestId, request.user, request.role, approved, reason);
+
+        if (approved) {
+            _users[request.user].roles[request.role] = true;
+            emit RoleAdded(request.user, request.role);
+        }
+    }
+
     // Check if user has a role
     function isUserInRole(address user, bytes32 role) public view returns (bool) {
         return _users[user].roles[role];
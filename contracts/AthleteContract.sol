@@ -3,12 +3,15 @@ pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title AthleteContract
  * @dev Smart contract for managing athlete sponsorship deals
  */
 contract AthleteContract is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     // Contract states
     enum ContractState { 
         Draft,
@@ -23,7 +26,25 @@ contract AthleteContract is ReentrancyGuard {
         Pending,
         Completed,
         Disputed,
-        Rejected
+        Rejected,
+        Forfeited
+    }
+
+    // What happens to a milestone that isn't delivered by its deadline plus the contract's grace period:
+    // GracePeriod refuses later submissions and lets the sponsor forfeit it, Penalty still accepts them
+    // but cuts the payout, Forfeit is GracePeriod without any grace
+    enum LatePolicy {
+        GracePeriod,
+        Penalty,
+        Forfeit
+    }
+
+    // Stipend paid alongside (or instead of) milestones: Recurring accrues a fixed amount every interval
+    // from the start date for a set number of periods, Stream accrues its total linearly from start to end date
+    enum StipendMode {
+        None,
+        Recurring,
+        Stream
     }
 
     // Milestone struct
@@ -55,15 +76,137 @@ contract AthleteContract is ReentrancyGuard {
     mapping(uint256 => SponsorshipContract) public contracts;
     uint256 public contractCount;
 
+    // Sponsor escrow per contract: everything deposited so far, and the part not yet released or refunded
+    mapping(uint256 => uint256) public escrowDeposited;
+    mapping(uint256 => uint256) public escrowBalance;
+
+    // Draft terms revision, bumped whenever the document, payment terms or agent change, and the revision (plus
+    // one) each party last accepted. A contract activates only once both parties accepted the current one.
+    mapping(uint256 => uint256) public termsRevision;
+    mapping(uint256 => mapping(address => uint256)) public acceptedRevision;
+
+    // Evidence submissions per contract and milestone; a rejected milestone can be resubmitted until the cap
+    uint256 public constant MAX_MILESTONE_SUBMISSIONS = 3;
+    mapping(uint256 => mapping(uint256 => uint256)) public milestoneSubmissions;
+
+    // Time the sponsor has to release or reject a submitted milestone before the athlete can claim it
+    uint256 public constant MIN_REVIEW_PERIOD = 1 days;
+    uint256 public constant MAX_REVIEW_PERIOD = 30 days;
+    mapping(uint256 => uint256) public reviewPeriod;
+    mapping(uint256 => mapping(uint256 => uint256)) public milestoneSubmittedAt;
+
+    // Agent named by the athlete, their cut of every milestone payout in basis points and what they've been paid so far
+    uint256 public constant MAX_AGENT_COMMISSION_BPS = 2000;
+    mapping(uint256 => address) public agentOf;
+    mapping(uint256 => uint256) public agentCommissionBps;
+    mapping(uint256 => uint256) public agentCommissionPaid;
+
+    // Late-delivery terms per contract, fixed while the contract is a draft
+    uint256 public constant MAX_GRACE_PERIOD = 30 days;
+    uint256 public constant MAX_LATE_PENALTY_BPS = 5000;
+    mapping(uint256 => LatePolicy) public latePolicy;
+    mapping(uint256 => uint256) public gracePeriod;
+    mapping(uint256 => uint256) public latePenaltyBps;
+
+    // Stipend schedule per contract, fixed while the contract is a draft. stipendAmount is paid per period
+    // for Recurring and is the whole stream for Stream; accrual stops for good at stipendStoppedAt.
+    mapping(uint256 => StipendMode) public stipendMode;
+    mapping(uint256 => uint256) public stipendAmount;
+    mapping(uint256 => uint256) public stipendInterval;
+    mapping(uint256 => uint256) public stipendPeriods;
+    mapping(uint256 => uint256) public stipendWithdrawn;
+    mapping(uint256 => uint256) public stipendStoppedAt;
+
+    // Stands in for the milestone index in payment events emitted for stipend withdrawals
+    uint256 public constant STIPEND_INDEX = type(uint256).max;
+
+    // Milestones paid out on an oracle-attested result instead of a deliverable
+    mapping(uint256 => mapping(uint256 => bool)) public isBonusMilestone;
+
+    // Settlement of a contract terminated early: what the athlete was paid (before commission) for the
+    // accrued stipend, submitted milestones and shares of partly delivered ones, what went back to the
+    // sponsor and the share partly delivered milestones were paid at. A negotiated settlement pays the
+    // athlete the amount both parties agreed instead, and has no pro-rata share.
+    struct Settlement {
+        uint256 athleteAmount;
+        uint256 refund;
+        uint256 proRataBps;
+        uint256 settledAt;
+        bool negotiated;
+    }
+    mapping(uint256 => Settlement) public settlements;
+
+    // Pro-rata share that pays partly delivered milestones by the time elapsed from the start date to their deadline
+    uint256 public constant PRO_RATA_BY_TIME = type(uint256).max;
+
+    // Stands in for the milestone index in the payment event of a negotiated settlement
+    uint256 public constant SETTLEMENT_INDEX = type(uint256).max - 1;
+
+    // Deployer (the factory), the DisputeResolution contract allowed to raise and resolve disputes,
+    // the PerformanceOracle contract allowed to set up and settle bonus milestones and the
+    // MutualTermination contract allowed to close contracts on terms both parties accepted
+    address public owner;
+    address public disputeResolver;
+    address public performanceOracle;
+    address public terminationManager;
+
     // Events
     event ContractCreated(uint256 indexed contractId, address athlete, address sponsor);
-    event MilestoneCompleted(uint256 indexed contractId, uint256 milestoneIndex);
+    event ContractActivated(uint256 indexed contractId);
+    event MilestoneCompleted(uint256 indexed contractId, uint256 milestoneIndex, string evidence);
     event MilestoneRejected(uint256 indexed contractId, uint256 milestoneIndex, string reason);
     event ContractUpdated(uint256 indexed contractId, string newContractIPFSHash);
+    event TermsAccepted(uint256 indexed contractId, address indexed party, bytes32 documentHash);
+    event TermsDeclined(uint256 indexed contractId, address indexed party, string reason);
     event PaymentReleased(uint256 indexed contractId, uint256 milestoneIndex, uint256 amount);
     event DisputeRaised(uint256 indexed contractId, string reason);
     event DisputeResolved(uint256 indexed contractId, bool athleteFavor);
     event ContractTerminated(uint256 indexed contractId);
+    event ContractCompleted(uint256 indexed contractId);
+    event ContractSettled(uint256 indexed contractId, uint256 athleteAmount, uint256 refund, uint256 proRataBps);
+    event EscrowFunded(uint256 indexed contractId, address from, uint256 amount);
+    event EscrowRefunded(uint256 indexed contractId, address to, uint256 amount);
+    event PaymentClaimed(uint256 indexed contractId, uint256 milestoneIndex, address claimedBy);
+    event AgentAssigned(uint256 indexed contractId, address indexed agent, uint256 commissionBps);
+    event StipendSet(uint256 indexed contractId, StipendMode mode, uint256 amount, uint256 interval, uint256 periods);
+    event LatePolicySet(uint256 indexed contractId, LatePolicy policy, uint256 gracePeriod, uint256 penaltyBps);
+    event LatePenaltyApplied(uint256 indexed contractId, uint256 milestoneIndex, uint256 penalty);
+    event MilestoneForfeited(uint256 indexed contractId, uint256 milestoneIndex, uint256 refund);
+    event AgentCommissionPaid(uint256 indexed contractId, address indexed agent, uint256 milestoneIndex, uint256 amount);
+    event DisputeResolverUpdated(address disputeResolver);
+    event PerformanceOracleUpdated(address performanceOracle);
+    event TerminationManagerUpdated(address terminationManager);
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /**
+     * @dev Set the DisputeResolution contract (owner only)
+     */
+    function setDisputeResolver(address _disputeResolver) external {
+        require(msg.sender == owner, "Only owner can set dispute resolver");
+        disputeResolver = _disputeResolver;
+        emit DisputeResolverUpdated(_disputeResolver);
+    }
+
+    /**
+     * @dev Set the PerformanceOracle contract (owner only)
+     */
+    function setPerformanceOracle(address _performanceOracle) external {
+        require(msg.sender == owner, "Only owner can set performance oracle");
+        performanceOracle = _performanceOracle;
+        emit PerformanceOracleUpdated(_performanceOracle);
+    }
+
+    /**
+     * @dev Set the MutualTermination contract (owner only)
+     */
+    function setTerminationManager(address _terminationManager) external {
+        require(msg.sender == owner, "Only owner can set termination manager");
+        terminationManager = _terminationManager;
+        emit TerminationManagerUpdated(_terminationManager);
+    }
 
     /**
      * @dev Create a new sponsorship contract
@@ -76,10 +219,16 @@ contract AthleteContract is ReentrancyGuard {
         uint256 startDate,
         uint256 endDate,
         address paymentToken,
-        address[] memory arbitrators
+        address[] memory arbitrators,
+        uint256 milestoneReviewPeriod
     ) external returns (uint256) {
         require(endDate > startDate, "End date must be after start date");
+        require(
+            milestoneReviewPeriod >= MIN_REVIEW_PERIOD && milestoneReviewPeriod <= MAX_REVIEW_PERIOD,
+            "Review period out of range"
+        );
         require(athlete != address(0) && sponsor != address(0), "Invalid addresses");
+        require(paymentToken == address(0) || paymentToken.code.length > 0, "Payment token is not a contract");
         
         uint256 contractId = contractCount++;
         SponsorshipContract storage newContract = contracts[contractId];
@@ -93,6 +242,7 @@ contract AthleteContract is ReentrancyGuard {
         newContract.state = ContractState.Draft;
         newContract.paymentToken = paymentToken;
         newContract.arbitrators = arbitrators;
+        reviewPeriod[contractId] = milestoneReviewPeriod;
         
         emit ContractCreated(contractId, athlete, sponsor);
         
@@ -118,10 +268,7 @@ contract AthleteContract is ReentrancyGuard {
         require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
         require(descriptions.length == amounts.length && amounts.length == deadlines.length, "Arrays length mismatch");
         
-        uint256 totalMilestoneAmount = 0;
         for (uint256 i = 0; i < amounts.length; i++) {
-            totalMilestoneAmount += amounts[i];
-            
             sponsorshipContract.milestones.push(Milestone({
                 description: descriptions[i],
                 amount: amounts[i],
@@ -132,7 +279,64 @@ contract AthleteContract is ReentrancyGuard {
             }));
         }
         
-        require(totalMilestoneAmount == sponsorshipContract.totalValue, "Total milestone amounts must match contract value");
+        // Milestones can be added in batches, so the check covers every milestone so far
+        require(_milestonesAndStipend(contractId) <= sponsorshipContract.totalValue, "Milestones exceed contract value");
+        termsRevision[contractId]++;
+    }
+
+    /**
+     * @dev Set up a recurring or streamed stipend (athlete or sponsor, draft only, before any milestones
+     * are added). The milestones then make up whatever part of the contract value the stipend doesn't.
+     */
+    function setStipend(uint256 contractId, StipendMode mode, uint256 amount, uint256 interval, uint256 periods) external {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(
+            msg.sender == sponsorshipContract.athlete || 
+            msg.sender == sponsorshipContract.sponsor,
+            "Only athlete or sponsor can modify"
+        );
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+        require(sponsorshipContract.milestones.length == 0, "Set stipend before milestones");
+        if (mode == StipendMode.Recurring) {
+            require(amount > 0 && interval > 0 && periods > 0, "Invalid stipend schedule");
+            require(
+                sponsorshipContract.startDate + interval * periods <= sponsorshipContract.endDate,
+                "Stipend runs past end date"
+            );
+        } else {
+            require(interval == 0 && periods == 0, "Invalid stipend schedule");
+            require(mode == StipendMode.Stream ? amount > 0 : amount == 0, "Invalid stipend schedule");
+        }
+        
+        stipendMode[contractId] = mode;
+        stipendAmount[contractId] = amount;
+        stipendInterval[contractId] = interval;
+        stipendPeriods[contractId] = periods;
+        require(getStipendTotal(contractId) <= sponsorshipContract.totalValue, "Stipend exceeds contract value");
+        termsRevision[contractId]++;
+        emit StipendSet(contractId, mode, amount, interval, periods);
+    }
+
+    /**
+     * @dev Choose how late milestones are handled (athlete or sponsor, draft only)
+     */
+    function setLatePolicy(uint256 contractId, LatePolicy policy, uint256 grace, uint256 penaltyBps) external {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(
+            msg.sender == sponsorshipContract.athlete || 
+            msg.sender == sponsorshipContract.sponsor,
+            "Only athlete or sponsor can modify"
+        );
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+        require(grace <= MAX_GRACE_PERIOD, "Grace period too long");
+        require(policy != LatePolicy.Forfeit || grace == 0, "Forfeit has no grace period");
+        require(policy == LatePolicy.Penalty ? penaltyBps > 0 && penaltyBps <= MAX_LATE_PENALTY_BPS : penaltyBps == 0, "Invalid penalty");
+        
+        latePolicy[contractId] = policy;
+        gracePeriod[contractId] = grace;
+        latePenaltyBps[contractId] = penaltyBps;
+        termsRevision[contractId]++;
+        emit LatePolicySet(contractId, policy, grace, penaltyBps);
     }
 
     /**
@@ -192,9 +396,67 @@ contract AthleteContract is ReentrancyGuard {
     }
 
     /**
-     * @dev Activate contract
+     * @dev Name the agent representing the athlete on a draft contract, or clear it with address(0).
+     * Called through the factory, which checks that the caller is the athlete and the agent is registered.
+     */
+    function setAgent(uint256 contractId, address agent, uint256 commissionBps) external {
+        require(msg.sender == owner, "Only owner can set agent");
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+        require(agent != sponsorshipContract.athlete && agent != sponsorshipContract.sponsor, "Agent cannot be a party");
+        require(commissionBps <= MAX_AGENT_COMMISSION_BPS, "Commission too high");
+        require(agent != address(0) || commissionBps == 0, "Commission without agent");
+        
+        agentOf[contractId] = agent;
+        agentCommissionBps[contractId] = commissionBps;
+        termsRevision[contractId]++;
+        emit AgentAssigned(contractId, agent, commissionBps);
+    }
+
+    /**
+     * @dev Deposit part of the contract value into escrow ahead of activation (sponsor only)
+     */
+    function fundEscrow(uint256 contractId, uint256 amount) external payable nonReentrant {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(msg.sender == sponsorshipContract.sponsor, "Only sponsor can fund escrow");
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+        
+        _depositEscrow(contractId, amount);
+    }
+
+    /**
+     * @dev Amount the sponsor still has to deposit before the contract can be activated
+     */
+    function getEscrowShortfall(uint256 contractId) public view returns (uint256) {
+        return contracts[contractId].totalValue - escrowDeposited[contractId];
+    }
+
+    /**
+     * @dev Accept the draft's current terms (athlete or sponsor). documentHash is the keccak256 of the
+     * contract document URI being signed, so an acceptance can't land on a document changed in the meantime.
      */
-    function activateContract(uint256 contractId) external {
+    function acceptTerms(uint256 contractId, bytes32 documentHash) external {
+        SponsorshipContract storage sponsorshipContract = _draftParty(contractId);
+        require(documentHash == keccak256(bytes(sponsorshipContract.contractIPFSHash)), "Contract document has changed");
+        
+        acceptedRevision[contractId][msg.sender] = termsRevision[contractId] + 1;
+        emit TermsAccepted(contractId, msg.sender, documentHash);
+    }
+
+    /**
+     * @dev Decline the draft's current terms, withdrawing any earlier acceptance (athlete or sponsor)
+     */
+    function declineTerms(uint256 contractId, string memory reason) external {
+        _draftParty(contractId);
+        acceptedRevision[contractId][msg.sender] = 0;
+        emit TermsDeclined(contractId, msg.sender, reason);
+    }
+
+    /**
+     * @dev Activate contract once both parties accepted its current terms. The full contract value must
+     * be in escrow; a sponsor activating deposits whatever is still missing in the same call.
+     */
+    function activateContract(uint256 contractId) external payable nonReentrant {
         SponsorshipContract storage sponsorshipContract = contracts[contractId];
         require(
             msg.sender == sponsorshipContract.athlete || 
@@ -202,58 +464,255 @@ contract AthleteContract is ReentrancyGuard {
             "Only athlete or sponsor can activate"
         );
         require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
-        require(sponsorshipContract.milestones.length > 0, "No milestones defined");
+        uint256 accepted = termsRevision[contractId] + 1;
+        require(
+            acceptedRevision[contractId][sponsorshipContract.athlete] == accepted &&
+            acceptedRevision[contractId][sponsorshipContract.sponsor] == accepted,
+            "Both parties must accept the terms"
+        );
+        require(
+            sponsorshipContract.milestones.length > 0 || stipendMode[contractId] != StipendMode.None,
+            "No milestones defined"
+        );
+        require(_milestonesAndStipend(contractId) == sponsorshipContract.totalValue, "Milestones and stipend must match contract value");
+        
+        uint256 shortfall = getEscrowShortfall(contractId);
+        if (shortfall > 0 && msg.sender == sponsorshipContract.sponsor) {
+            _depositEscrow(contractId, shortfall);
+        } else {
+            require(msg.value == 0, "Nothing to deposit");
+        }
+        require(getEscrowShortfall(contractId) == 0, "Escrow not fully funded");
         
         sponsorshipContract.state = ContractState.Active;
+        emit ContractActivated(contractId);
     }
 
     /**
-     * @dev Complete milestone
+     * @dev Complete milestone, or resubmit a rejected one with new evidence
      */
     function completeMilestone(uint256 contractId, uint256 milestoneIndex, string memory evidence) external {
         SponsorshipContract storage sponsorshipContract = contracts[contractId];
         require(msg.sender == sponsorshipContract.athlete, "Only athlete can complete milestone");
         require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        require(!isBonusMilestone[contractId][milestoneIndex], "Bonus milestones are settled by oracle");
         
         Milestone storage milestone = sponsorshipContract.milestones[milestoneIndex];
-        require(milestone.status == MilestoneStatus.Pending, "Invalid milestone status");
+        require(
+            milestone.status == MilestoneStatus.Pending || milestone.status == MilestoneStatus.Rejected,
+            "Invalid milestone status"
+        );
+        require(milestoneSubmissions[contractId][milestoneIndex] < MAX_MILESTONE_SUBMISSIONS, "Submission limit reached");
+        require(block.timestamp <= getSubmissionCutoff(contractId, milestoneIndex), "Milestone overdue");
         
+        milestoneSubmissions[contractId][milestoneIndex]++;
+        milestoneSubmittedAt[contractId][milestoneIndex] = block.timestamp;
         milestone.status = MilestoneStatus.Completed;
         milestone.evidence = evidence;
         
-        emit MilestoneCompleted(contractId, milestoneIndex);
+        emit MilestoneCompleted(contractId, milestoneIndex, evidence);
     }
 
     /**
-     * @dev Release payment for milestone
+     * @dev Reject submitted milestone evidence so the athlete can resubmit
      */
-    function releaseMilestonePayment(uint256 contractId, uint256 milestoneIndex) external payable nonReentrant {
+    function rejectMilestone(uint256 contractId, uint256 milestoneIndex, string memory reason) external {
         SponsorshipContract storage sponsorshipContract = contracts[contractId];
-        require(msg.sender == sponsorshipContract.sponsor, "Only sponsor can release payment");
+        require(msg.sender == sponsorshipContract.sponsor, "Only sponsor can reject milestone");
         require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        require(bytes(reason).length > 0, "Reason required");
         
         Milestone storage milestone = sponsorshipContract.milestones[milestoneIndex];
         require(milestone.status == MilestoneStatus.Completed, "Milestone not completed");
         require(!milestone.paid, "Payment already released");
+        require(block.timestamp < getReviewDeadline(contractId, milestoneIndex), "Review period has ended");
         
-        uint256 amount = milestone.amount;
+        milestone.status = MilestoneStatus.Rejected;
         
-        if (sponsorshipContract.paymentToken == address(0)) {
-            // ETH payment
-            require(msg.value == amount, "Incorrect payment amount");
-            (bool success, ) = sponsorshipContract.athlete.call{value: amount}("");
-            require(success, "ETH transfer failed");
-        } else {
-            // ERC20 payment
-            IERC20 token = IERC20(sponsorshipContract.paymentToken);
-            require(
-                token.transferFrom(msg.sender, sponsorshipContract.athlete, amount),
-                "Token transfer failed"
-            );
+        emit MilestoneRejected(contractId, milestoneIndex, reason);
+    }
+
+    /**
+     * @dev Forfeit an undelivered milestone once it can no longer be submitted, or a rejected one with no
+     * submissions left, returning its amount from escrow to the sponsor (sponsor only)
+     */
+    function forfeitMilestone(uint256 contractId, uint256 milestoneIndex) external nonReentrant {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(msg.sender == sponsorshipContract.sponsor, "Only sponsor can forfeit milestone");
+        require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        
+        Milestone storage milestone = sponsorshipContract.milestones[milestoneIndex];
+        require(
+            milestone.status == MilestoneStatus.Pending || milestone.status == MilestoneStatus.Rejected,
+            "Milestone already delivered"
+        );
+        require(
+            _submissionsExhausted(contractId, milestoneIndex) || block.timestamp > getSubmissionCutoff(contractId, milestoneIndex),
+            "Milestone not overdue"
+        );
+        
+        milestone.status = MilestoneStatus.Forfeited;
+        uint256 refund = milestone.amount;
+        escrowBalance[contractId] -= refund;
+        _payout(sponsorshipContract.paymentToken, sponsorshipContract.sponsor, refund);
+        
+        emit MilestoneForfeited(contractId, milestoneIndex, refund);
+        emit EscrowRefunded(contractId, sponsorshipContract.sponsor, refund);
+        _tryComplete(contractId);
+    }
+
+    /**
+     * @dev Mark a milestone of a draft contract as a performance bonus (PerformanceOracle only)
+     */
+    function setBonusMilestone(uint256 contractId, uint256 milestoneIndex) external {
+        require(msg.sender == performanceOracle, "Only performance oracle");
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+        require(milestoneIndex < sponsorshipContract.milestones.length, "Invalid milestone index");
+        
+        isBonusMilestone[contractId][milestoneIndex] = true;
+        termsRevision[contractId]++;
+    }
+
+    /**
+     * @dev Complete and pay a bonus milestone whose threshold an oracle attested as met, no later than
+     * its deadline plus the grace period (PerformanceOracle only)
+     */
+    function settleBonusMilestone(uint256 contractId, uint256 milestoneIndex, string memory evidence) external nonReentrant {
+        require(msg.sender == performanceOracle, "Only performance oracle");
+        require(isBonusMilestone[contractId][milestoneIndex], "Not a bonus milestone");
+        
+        Milestone storage milestone = contracts[contractId].milestones[milestoneIndex];
+        require(milestone.status == MilestoneStatus.Pending, "Invalid milestone status");
+        require(block.timestamp <= getLateAfter(contractId, milestoneIndex), "Milestone overdue");
+        
+        milestoneSubmittedAt[contractId][milestoneIndex] = block.timestamp;
+        milestone.status = MilestoneStatus.Completed;
+        milestone.evidence = evidence;
+        emit MilestoneCompleted(contractId, milestoneIndex, evidence);
+        
+        _releaseMilestonePayment(contractId, milestoneIndex);
+    }
+
+    /**
+     * @dev Time after which a submission for the milestone counts as late: its deadline plus the grace period
+     */
+    function getLateAfter(uint256 contractId, uint256 milestoneIndex) public view returns (uint256) {
+        return contracts[contractId].milestones[milestoneIndex].deadline + gracePeriod[contractId];
+    }
+
+    /**
+     * @dev Last time the milestone can be submitted, after which the sponsor can forfeit it: its late-after
+     * time, except that under the Penalty policy late work is taken until the contract's end date
+     */
+    function getSubmissionCutoff(uint256 contractId, uint256 milestoneIndex) public view returns (uint256) {
+        uint256 lateAfter = getLateAfter(contractId, milestoneIndex);
+        uint256 endDate = contracts[contractId].endDate;
+        if (latePolicy[contractId] == LatePolicy.Penalty && !isBonusMilestone[contractId][milestoneIndex] && endDate > lateAfter) {
+            return endDate;
         }
+        return lateAfter;
+    }
+
+    /**
+     * @dev Release payment for milestone from escrow
+     */
+    function releaseMilestonePayment(uint256 contractId, uint256 milestoneIndex) external nonReentrant {
+        require(msg.sender == contracts[contractId].sponsor, "Only sponsor can release payment");
         
-        milestone.paid = true;
-        emit PaymentReleased(contractId, milestoneIndex, amount);
+        _releaseMilestonePayment(contractId, milestoneIndex);
+    }
+
+    /**
+     * @dev Pay a submitted milestone the sponsor let the review period lapse on. Anyone can call
+     * this, so a keeper can claim on the athlete's behalf; the payment always goes to the athlete.
+     */
+    function claimMilestonePayment(uint256 contractId, uint256 milestoneIndex) external nonReentrant {
+        require(contracts[contractId].milestones[milestoneIndex].status == MilestoneStatus.Completed, "Milestone not completed");
+        require(block.timestamp >= getReviewDeadline(contractId, milestoneIndex), "Review period not over");
+        
+        _releaseMilestonePayment(contractId, milestoneIndex);
+        emit PaymentClaimed(contractId, milestoneIndex, msg.sender);
+    }
+
+    /**
+     * @dev End of the sponsor's review window for the latest submission of a milestone (0 if never submitted)
+     */
+    function getReviewDeadline(uint256 contractId, uint256 milestoneIndex) public view returns (uint256) {
+        uint256 submittedAt = milestoneSubmittedAt[contractId][milestoneIndex];
+        return submittedAt == 0 ? 0 : submittedAt + reviewPeriod[contractId];
+    }
+
+    /**
+     * @dev Pay the athlete the stipend accrued so far and not yet withdrawn (athlete only)
+     */
+    function withdrawStipend(uint256 contractId) external nonReentrant {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(msg.sender == sponsorshipContract.athlete, "Only athlete can withdraw stipend");
+        require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        require(_payStipend(contractId) > 0, "Nothing to withdraw");
+        _tryComplete(contractId);
+    }
+
+    /**
+     * @dev Complete an active contract whose end date has passed, paying out whatever stipend is still
+     * to be withdrawn first. Contracts otherwise complete on their own with the payment that settles
+     * them; this covers the rest, and anyone can call it, so a keeper can finish contracts off.
+     */
+    function completeContract(uint256 contractId) external nonReentrant {
+        require(contracts[contractId].state == ContractState.Active, "Contract not active");
+        require(block.timestamp >= contracts[contractId].endDate, "Contract not ended");
+        _payStipend(contractId);
+        require(_tryComplete(contractId), "Contract not settled");
+    }
+
+    /**
+     * @dev Whole stipend over the life of the contract
+     */
+    function getStipendTotal(uint256 contractId) public view returns (uint256) {
+        StipendMode mode = stipendMode[contractId];
+        if (mode == StipendMode.Recurring) return stipendAmount[contractId] * stipendPeriods[contractId];
+        return mode == StipendMode.Stream ? stipendAmount[contractId] : 0;
+    }
+
+    /**
+     * @dev Every milestone amount plus the whole stipend
+     */
+    function _milestonesAndStipend(uint256 contractId) internal view returns (uint256 total) {
+        Milestone[] storage milestones = contracts[contractId].milestones;
+        for (uint256 i = 0; i < milestones.length; i++) {
+            total += milestones[i].amount;
+        }
+        return total + getStipendTotal(contractId);
+    }
+
+    /**
+     * @dev Stipend accrued from the start date until now, or until accrual was stopped, including
+     * whatever has already been withdrawn
+     */
+    function getStipendAccrued(uint256 contractId) public view returns (uint256) {
+        return getStipendAccruedAt(contractId, stipendStoppedAt[contractId] != 0 ? stipendStoppedAt[contractId] : block.timestamp);
+    }
+
+    /**
+     * @dev Stipend accrued from the start date until the given time, including whatever has already been withdrawn
+     */
+    function getStipendAccruedAt(uint256 contractId, uint256 until) public view returns (uint256) {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        StipendMode mode = stipendMode[contractId];
+        if (mode == StipendMode.None || sponsorshipContract.state == ContractState.Draft || until <= sponsorshipContract.startDate) {
+            return 0;
+        }
+        
+        uint256 elapsed = until - sponsorshipContract.startDate;
+        if (mode == StipendMode.Recurring) {
+            uint256 periods = elapsed / stipendInterval[contractId];
+            if (periods > stipendPeriods[contractId]) periods = stipendPeriods[contractId];
+            return periods * stipendAmount[contractId];
+        }
+        uint256 duration = sponsorshipContract.endDate - sponsorshipContract.startDate;
+        if (elapsed >= duration) return stipendAmount[contractId];
+        return stipendAmount[contractId] * elapsed / duration;
     }
 
     /**
@@ -263,7 +722,8 @@ contract AthleteContract is ReentrancyGuard {
         SponsorshipContract storage sponsorshipContract = contracts[contractId];
         require(
             msg.sender == sponsorshipContract.athlete || 
-            msg.sender == sponsorshipContract.sponsor,
+            msg.sender == sponsorshipContract.sponsor ||
+            msg.sender == disputeResolver,
             "Only athlete or sponsor can raise dispute"
         );
         require(sponsorshipContract.state == ContractState.Active, "Contract not active");
@@ -273,11 +733,12 @@ contract AthleteContract is ReentrancyGuard {
     }
 
     /**
-     * @dev Resolve dispute
+     * @dev Resolve dispute. A ruling for the sponsor terminates the contract and settles it, paying
+     * partly delivered milestones at proRataBps (basis points, or PRO_RATA_BY_TIME).
      */
-    function resolveDispute(uint256 contractId, bool athleteFavor) external {
+    function resolveDispute(uint256 contractId, bool athleteFavor, uint256 proRataBps) external nonReentrant {
         SponsorshipContract storage sponsorshipContract = contracts[contractId];
-        bool isArbitrator = false;
+        bool isArbitrator = msg.sender == disputeResolver;
         for (uint256 i = 0; i < sponsorshipContract.arbitrators.length; i++) {
             if (msg.sender == sponsorshipContract.arbitrators[i]) {
                 isArbitrator = true;
@@ -290,6 +751,73 @@ contract AthleteContract is ReentrancyGuard {
         
         sponsorshipContract.state = athleteFavor ? ContractState.Active : ContractState.Terminated;
         emit DisputeResolved(contractId, athleteFavor);
+        
+        if (!athleteFavor) {
+            _settle(contractId, proRataBps);
+        }
+    }
+
+    /**
+     * @dev Terminate an active contract on terms both parties accepted: the stipend stops at the agreed end
+     * date and what has accrued until then is paid, then the athlete is paid athleteAmount out of the escrow
+     * left and the sponsor refunded the rest (MutualTermination only, once the end date has been reached)
+     */
+    function settleByAgreement(uint256 contractId, uint256 endDate, uint256 athleteAmount) external nonReentrant {
+        require(msg.sender == terminationManager, "Only termination manager");
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        
+        sponsorshipContract.state = ContractState.Terminated;
+        stipendStoppedAt[contractId] = endDate;
+        uint256 stipend = _payStipend(contractId);
+        require(athleteAmount <= escrowBalance[contractId], "Settlement exceeds escrow");
+        uint256 refund = escrowBalance[contractId] - athleteAmount;
+        if (athleteAmount > 0) _payAthlete(contractId, SETTLEMENT_INDEX, athleteAmount);
+        _closeSettlement(contractId, stipend + athleteAmount, refund, 0, true);
+    }
+
+    /**
+     * @dev Statement of how the escrow would be split if the contract were settled now: the athlete's share
+     * of each milestone, the accrued stipend still owed and the refund to the sponsor. Submitted milestones
+     * are paid in full (less any late penalty), partly delivered ones at proRataBps or by elapsed time, and
+     * overdue, forfeited, unmet bonus and rejected milestones with no submissions left are refunded.
+     */
+    function previewSettlement(uint256 contractId, uint256 proRataBps) public view returns (
+        uint256[] memory milestoneShares,
+        uint256 stipend,
+        uint256 refund
+    ) {
+        require(proRataBps <= 10000 || proRataBps == PRO_RATA_BY_TIME, "Invalid pro-rata share");
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        Milestone[] storage milestones = sponsorshipContract.milestones;
+        milestoneShares = new uint256[](milestones.length);
+        stipend = getStipendAccrued(contractId) - stipendWithdrawn[contractId];
+        uint256 owed = stipend;
+        
+        for (uint256 i = 0; i < milestones.length; i++) {
+            Milestone storage milestone = milestones[i];
+            uint256 amount = milestone.amount;
+            uint256 share;
+            if (milestone.paid || milestone.status == MilestoneStatus.Forfeited) {
+                continue;
+            } else if (milestone.status == MilestoneStatus.Completed) {
+                share = amount;
+                if (latePolicy[contractId] == LatePolicy.Penalty && milestoneSubmittedAt[contractId][i] > getLateAfter(contractId, i)) {
+                    share -= amount * latePenaltyBps[contractId] / 10000;
+                }
+            } else if (isBonusMilestone[contractId][i] || _submissionsExhausted(contractId, i) || block.timestamp > getLateAfter(contractId, i)) {
+                continue;
+            } else if (proRataBps != PRO_RATA_BY_TIME) {
+                share = amount * proRataBps / 10000;
+            } else if (block.timestamp >= milestone.deadline) {
+                share = amount;
+            } else if (block.timestamp > sponsorshipContract.startDate) {
+                share = amount * (block.timestamp - sponsorshipContract.startDate) / (milestone.deadline - sponsorshipContract.startDate);
+            }
+            milestoneShares[i] = share;
+            owed += share;
+        }
+        refund = escrowBalance[contractId] - owed;
     }
 
     /**
@@ -305,7 +833,178 @@ contract AthleteContract is ReentrancyGuard {
         
         sponsorshipContract.updateHistory.push(sponsorshipContract.contractIPFSHash);
         sponsorshipContract.contractIPFSHash = newContractIPFSHash;
+        if (sponsorshipContract.state == ContractState.Draft) termsRevision[contractId]++;
         
         emit ContractUpdated(contractId, newContractIPFSHash);
     }
-} 
\ No newline at end of file
+
+    /**
+     * @dev Check the caller is a party to a draft contract
+     */
+    function _draftParty(uint256 contractId) internal view returns (SponsorshipContract storage sponsorshipContract) {
+        sponsorshipContract = contracts[contractId];
+        require(
+            msg.sender == sponsorshipContract.athlete || 
+            msg.sender == sponsorshipContract.sponsor,
+            "Only athlete or sponsor can respond"
+        );
+        require(sponsorshipContract.state == ContractState.Draft, "Contract not in draft state");
+    }
+
+    /**
+     * @dev Whether a milestone was rejected with no submissions left, so it can never be delivered
+     */
+    function _submissionsExhausted(uint256 contractId, uint256 milestoneIndex) internal view returns (bool) {
+        return contracts[contractId].milestones[milestoneIndex].status == MilestoneStatus.Rejected &&
+            milestoneSubmissions[contractId][milestoneIndex] >= MAX_MILESTONE_SUBMISSIONS;
+    }
+
+    /**
+     * @dev Pay a completed milestone out of escrow, split between the athlete and their agent's commission.
+     * Under the Penalty policy a late submission forfeits part of the amount back to the sponsor.
+     */
+    function _releaseMilestonePayment(uint256 contractId, uint256 milestoneIndex) internal {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(sponsorshipContract.state == ContractState.Active, "Contract not active");
+        
+        Milestone storage milestone = sponsorshipContract.milestones[milestoneIndex];
+        require(milestone.status == MilestoneStatus.Completed, "Milestone not completed");
+        require(!milestone.paid, "Payment already released");
+        
+        uint256 amount = milestone.amount;
+        require(escrowBalance[contractId] >= amount, "Insufficient escrow");
+        
+        milestone.paid = true;
+        escrowBalance[contractId] -= amount;
+        
+        if (
+            latePolicy[contractId] == LatePolicy.Penalty &&
+            milestoneSubmittedAt[contractId][milestoneIndex] > getLateAfter(contractId, milestoneIndex)
+        ) {
+            uint256 penalty = amount * latePenaltyBps[contractId] / 10000;
+            amount -= penalty;
+            _payout(sponsorshipContract.paymentToken, sponsorshipContract.sponsor, penalty);
+            emit LatePenaltyApplied(contractId, milestoneIndex, penalty);
+            emit EscrowRefunded(contractId, sponsorshipContract.sponsor, penalty);
+        }
+        
+        _payAthlete(contractId, milestoneIndex, amount);
+        _tryComplete(contractId);
+    }
+
+    /**
+     * @dev Mark the contract Completed if every milestone has been paid or forfeited and the whole
+     * stipend withdrawn, which leaves its escrow empty. Returns whether it did.
+     */
+    function _tryComplete(uint256 contractId) internal returns (bool) {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        if (stipendWithdrawn[contractId] < getStipendTotal(contractId)) return false;
+        for (uint256 i = 0; i < sponsorshipContract.milestones.length; i++) {
+            Milestone storage milestone = sponsorshipContract.milestones[i];
+            if (!milestone.paid && milestone.status != MilestoneStatus.Forfeited) return false;
+        }
+        
+        sponsorshipContract.state = ContractState.Completed;
+        emit ContractCompleted(contractId);
+        return true;
+    }
+
+    /**
+     * @dev Settle a contract being terminated as previewSettlement describes: stop the stipend, pay the
+     * athlete their shares, refund the rest of the escrow to the sponsor and record the settlement
+     */
+    function _settle(uint256 contractId, uint256 proRataBps) internal {
+        (uint256[] memory milestoneShares, uint256 athleteAmount, uint256 refund) = previewSettlement(contractId, proRataBps);
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        
+        stipendStoppedAt[contractId] = block.timestamp;
+        _payStipend(contractId);
+        for (uint256 i = 0; i < milestoneShares.length; i++) {
+            if (milestoneShares[i] == 0) continue;
+            sponsorshipContract.milestones[i].paid = true;
+            athleteAmount += milestoneShares[i];
+            _payAthlete(contractId, i, milestoneShares[i]);
+        }
+        
+        _closeSettlement(contractId, athleteAmount, refund, proRataBps, false);
+    }
+
+    /**
+     * @dev Refund what is left of the escrow to the sponsor and record the settlement
+     */
+    function _closeSettlement(uint256 contractId, uint256 athleteAmount, uint256 refund, uint256 proRataBps, bool negotiated) internal {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        escrowBalance[contractId] = 0;
+        if (refund > 0) {
+            _payout(sponsorshipContract.paymentToken, sponsorshipContract.sponsor, refund);
+            emit EscrowRefunded(contractId, sponsorshipContract.sponsor, refund);
+        }
+        settlements[contractId] = Settlement(athleteAmount, refund, proRataBps, block.timestamp, negotiated);
+        emit ContractSettled(contractId, athleteAmount, refund, proRataBps);
+        emit ContractTerminated(contractId);
+    }
+
+    /**
+     * @dev Pay out the accrued, unwithdrawn stipend from escrow, reported as a payment against STIPEND_INDEX.
+     * Returns the amount paid, nothing if accrual was stopped before what has already been withdrawn.
+     */
+    function _payStipend(uint256 contractId) internal returns (uint256 amount) {
+        uint256 accrued = getStipendAccrued(contractId);
+        if (accrued <= stipendWithdrawn[contractId]) return 0;
+        amount = accrued - stipendWithdrawn[contractId];
+        
+        stipendWithdrawn[contractId] += amount;
+        escrowBalance[contractId] -= amount;
+        _payAthlete(contractId, STIPEND_INDEX, amount);
+    }
+
+    /**
+     * @dev Send a payment already taken out of escrow to the athlete, with the agent's commission split off
+     */
+    function _payAthlete(uint256 contractId, uint256 paymentIndex, uint256 amount) internal {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        uint256 commission = amount * agentCommissionBps[contractId] / 10000;
+        if (commission > 0) {
+            address agent = agentOf[contractId];
+            agentCommissionPaid[contractId] += commission;
+            _payout(sponsorshipContract.paymentToken, agent, commission);
+            emit AgentCommissionPaid(contractId, agent, paymentIndex, commission);
+        }
+        _payout(sponsorshipContract.paymentToken, sponsorshipContract.athlete, amount - commission);
+        
+        emit PaymentReleased(contractId, paymentIndex, amount);
+    }
+
+    /**
+     * @dev Take a sponsor deposit in the contract's payment token, capped at the contract value
+     */
+    function _depositEscrow(uint256 contractId, uint256 amount) internal {
+        SponsorshipContract storage sponsorshipContract = contracts[contractId];
+        require(amount > 0, "Deposit must be positive");
+        require(amount <= getEscrowShortfall(contractId), "Deposit exceeds contract value");
+        
+        if (sponsorshipContract.paymentToken == address(0)) {
+            require(msg.value == amount, "Incorrect payment amount");
+        } else {
+            // SafeERC20 also covers tokens like USDT that return nothing from transferFrom
+            require(msg.value == 0, "ETH not accepted for token payments");
+            IERC20(sponsorshipContract.paymentToken).safeTransferFrom(msg.sender, address(this), amount);
+        }
+        
+        escrowDeposited[contractId] += amount;
+        escrowBalance[contractId] += amount;
+        emit EscrowFunded(contractId, msg.sender, amount);
+    }
+
+    /**
+     * @dev Send escrowed ETH or tokens out of the contract
+     */
+    function _payout(address paymentToken, address to, uint256 amount) internal {
+        if (paymentToken == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, "ETH transfer failed");
+        } else {
+            IERC20(paymentToken).safeTransfer(to, amount);
+        }
+    }
+}
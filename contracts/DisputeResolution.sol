@@ -28,6 +28,9 @@ contract DisputeResolution is AccessControl {
         mapping(address => bool) arbitratorVotes; // true for athlete favor, false for sponsor favor
         uint256 athleteVotes;
         uint256 sponsorVotes;
+        uint256[] affectedMilestones;
+        uint256 panelSize; // arbitrators when the dispute was raised, which votes are counted against
+        bool deadlocked; // every arbitrator voted and the votes are tied, leaving the ruling to the admin
     }
     
     // Mapping from dispute ID to dispute
@@ -37,11 +40,15 @@ contract DisputeResolution is AccessControl {
     // Mapping from contract ID to dispute ID
     mapping(uint256 => uint256) public disputeIdOf;
     
+    // Number of accounts holding ARBITRATOR_ROLE, recorded as each new dispute's voting panel size
+    uint256 public arbitratorCount;
+    
     // Events
     event DisputeCreated(uint256 indexed disputeId, uint256 indexed contractId, address initiator, string reason);
     event EvidenceSubmitted(uint256 indexed disputeId, address submitter, string evidenceIPFSHash);
     event ArbitratorVoted(uint256 indexed disputeId, address arbitrator, bool athleteFavor);
     event DisputeResolved(uint256 indexed disputeId, uint256 indexed contractId, bool athleteFavor);
+    event DisputeDeadlocked(uint256 indexed disputeId, uint256 indexed contractId);
     
     constructor(address _athleteContract) {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
@@ -54,7 +61,8 @@ contract DisputeResolution is AccessControl {
     function createDispute(
         uint256 contractId,
         string memory evidenceIPFSHash,
-        string memory reason
+        string memory reason,
+        uint256[] memory affectedMilestones
     ) external returns (uint256) {
         (
             address athlete,
@@ -73,6 +81,12 @@ contract DisputeResolution is AccessControl {
         );
         require(state != AthleteContract.ContractState.Disputed, "Dispute already exists");
         require(state != AthleteContract.ContractState.Terminated, "Contract already terminated");
+        require(bytes(reason).length > 0, "Reason required");
+        
+        uint256 milestonesCount = athleteContract.getMilestonesCount(contractId);
+        for (uint256 i = 0; i < affectedMilestones.length; i++) {
+            require(affectedMilestones[i] < milestonesCount, "Invalid milestone index");
+        }
         
         // Raise dispute in athlete contract
         athleteContract.raiseDispute(contractId, reason);
@@ -86,6 +100,8 @@ contract DisputeResolution is AccessControl {
         dispute.reason = reason;
         dispute.timestamp = block.timestamp;
         dispute.resolved = false;
+        dispute.affectedMilestones = affectedMilestones;
+        dispute.panelSize = arbitratorCount;
         
         disputeIdOf[contractId] = disputeId;
         
@@ -128,6 +144,7 @@ contract DisputeResolution is AccessControl {
         
         Dispute storage dispute = disputes[disputeId];
         require(!dispute.resolved, "Dispute already resolved");
+        require(!dispute.deadlocked, "Dispute deadlocked, awaiting admin ruling");
         
         // Check if arbitrator already voted
         for (uint256 i = 0; i < dispute.votedArbitrators.length; i++) {
@@ -146,10 +163,14 @@ contract DisputeResolution is AccessControl {
         
         emit ArbitratorVoted(disputeId, msg.sender, athleteFavor);
         
-        // Check if we have a majority
-        if (dispute.athleteVotes > dispute.votedArbitrators.length / 2 || 
-            dispute.sponsorVotes > dispute.votedArbitrators.length / 2) {
+        // Check if we have a majority of the arbitrators sitting when the dispute was raised; once they
+        // have all voted without one, the votes are tied and the admin breaks the tie
+        if (dispute.athleteVotes > dispute.panelSize / 2 || 
+            dispute.sponsorVotes > dispute.panelSize / 2) {
             resolveDispute(disputeId);
+        } else if (dispute.votedArbitrators.length >= dispute.panelSize) {
+            dispute.deadlocked = true;
+            emit DisputeDeadlocked(disputeId, dispute.contractId);
         }
     }
     
@@ -164,16 +185,17 @@ contract DisputeResolution is AccessControl {
         dispute.resolved = true;
         dispute.athleteFavor = athleteFavor;
         
-        // Resolve dispute in athlete contract
-        athleteContract.resolveDispute(dispute.contractId, athleteFavor);
+        // Resolve dispute in athlete contract; partly delivered milestones are paid by elapsed time
+        athleteContract.resolveDispute(dispute.contractId, athleteFavor, athleteContract.PRO_RATA_BY_TIME());
         
         emit DisputeResolved(disputeId, dispute.contractId, athleteFavor);
     }
     
     /**
-     * @dev Force resolve a dispute by admin
+     * @dev Force resolve a dispute by admin, which also breaks a deadlocked vote, paying partly delivered milestones at proRataBps (basis
+     * points, or AthleteContract.PRO_RATA_BY_TIME) if the ruling is for the sponsor
      */
-    function forceResolveDispute(uint256 disputeId, bool athleteFavor) external {
+    function forceResolveDispute(uint256 disputeId, bool athleteFavor, uint256 proRataBps) external {
         require(hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "Only admin can force resolve");
         
         Dispute storage dispute = disputes[disputeId];
@@ -183,7 +205,7 @@ contract DisputeResolution is AccessControl {
         dispute.athleteFavor = athleteFavor;
         
         // Resolve dispute in athlete contract
-        athleteContract.resolveDispute(dispute.contractId, athleteFavor);
+        athleteContract.resolveDispute(dispute.contractId, athleteFavor, proRataBps);
         
         emit DisputeResolved(disputeId, dispute.contractId, athleteFavor);
     }
@@ -201,7 +223,9 @@ contract DisputeResolution is AccessControl {
         bool athleteFavor,
         uint256 athleteVotes,
         uint256 sponsorVotes,
-        uint256 totalVotes
+        uint256 totalVotes,
+        uint256 panelSize,
+        bool deadlocked
     ) {
         Dispute storage dispute = disputes[disputeId];
         
@@ -215,10 +239,19 @@ contract DisputeResolution is AccessControl {
             dispute.athleteFavor,
             dispute.athleteVotes,
             dispute.sponsorVotes,
-            dispute.votedArbitrators.length
+            dispute.votedArbitrators.length,
+            dispute.panelSize,
+            dispute.deadlocked
         );
     }
     
+    /**
+     * @dev Get the milestone indexes a dispute was filed against
+     */
+    function getAffectedMilestones(uint256 disputeId) external view returns (uint256[] memory) {
+        return disputes[disputeId].affectedMilestones;
+    }
+    
     /**
      * @dev Get dispute ID for a contract
      */
@@ -241,6 +274,26 @@ contract DisputeResolution is AccessControl {
         return false;
     }
     
+    /**
+     * @dev Track the arbitrator count when ARBITRATOR_ROLE is granted
+     */
+    function _grantRole(bytes32 role, address account) internal override {
+        if (role == ARBITRATOR_ROLE && !hasRole(role, account)) {
+            arbitratorCount++;
+        }
+        super._grantRole(role, account);
+    }
+    
+    /**
+     * @dev Track the arbitrator count when ARBITRATOR_ROLE is revoked
+     */
+    function _revokeRole(bytes32 role, address account) internal override {
+        if (role == ARBITRATOR_ROLE && hasRole(role, account)) {
+            arbitratorCount--;
+        }
+        super._revokeRole(role, account);
+    }
+    
     /**
      * @dev Get arbitrator vote
      */
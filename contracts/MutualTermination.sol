@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./AthleteContract.sol";
+
+/**
+ * @title MutualTermination
+ * @dev Lets the athlete and sponsor negotiate an early end to an active contract and settle it
+ * without going through arbitration
+ */
+contract MutualTermination {
+    // Open proposals wait for the other party; a counter closes the proposal it answers and opens a new one
+    enum ProposalStatus {
+        Open,
+        Accepted,
+        Declined,
+        Countered,
+        Withdrawn
+    }
+
+    // The athlete contract
+    AthleteContract public athleteContract;
+
+    // Proposed end of the deal: the date it ends on (never earlier than when it was proposed), how the escrow left
+    // once the stipend up to that date is paid is split (athleteAmount to the athlete before their agent's commission,
+    // refundAmount back to the sponsor) and the proposal it counters, if any
+    struct Proposal {
+        uint256 contractId;
+        address proposer;
+        uint256 endDate;
+        uint256 athleteAmount;
+        uint256 refundAmount;
+        string note;
+        ProposalStatus status;
+        uint256 createdAt;
+        uint256 counterOf; // Proposal ID plus one, 0 for an opening proposal
+    }
+
+    // All proposals, and the IDs of each contract's proposals in the order they were made
+    Proposal[] public proposals;
+    mapping(uint256 => uint256[]) private proposalIdsOf;
+
+    // Open proposal per contract, as its ID plus one (0 when there is none)
+    mapping(uint256 => uint256) public openProposalOf;
+
+    // Events
+    event TerminationProposed(
+        uint256 indexed contractId,
+        uint256 indexed proposalId,
+        address proposer,
+        uint256 endDate,
+        uint256 athleteAmount,
+        uint256 refundAmount,
+        string note
+    );
+    event TerminationAccepted(uint256 indexed contractId, uint256 indexed proposalId, address acceptedBy);
+    event TerminationDeclined(uint256 indexed contractId, uint256 indexed proposalId, address declinedBy, string reason);
+    event TerminationWithdrawn(uint256 indexed contractId, uint256 indexed proposalId);
+
+    constructor(address _athleteContract) {
+        athleteContract = AthleteContract(_athleteContract);
+    }
+
+    /**
+     * @dev Propose ending an active contract on the given date, or now if that has passed, with the escrow
+     * split as given (athlete or sponsor only, one open proposal per contract)
+     */
+    function proposeTermination(
+        uint256 contractId,
+        uint256 endDate,
+        uint256 athleteAmount,
+        uint256 refundAmount,
+        string memory note
+    ) external returns (uint256) {
+        require(openProposalOf[contractId] == 0, "Proposal already open");
+        return _propose(contractId, endDate, athleteAmount, refundAmount, note, 0);
+    }
+
+    /**
+     * @dev Answer the other party's open proposal with different terms
+     */
+    function counterTermination(
+        uint256 proposalId,
+        uint256 endDate,
+        uint256 athleteAmount,
+        uint256 refundAmount,
+        string memory note
+    ) external returns (uint256) {
+        Proposal storage proposal = _respond(proposalId, true);
+        proposal.status = ProposalStatus.Countered;
+        return _propose(proposal.contractId, endDate, athleteAmount, refundAmount, note, proposalId + 1);
+    }
+
+    /**
+     * @dev Accept the other party's open proposal once its end date has been reached, which pays the stipend
+     * up to that date, settles the escrow and terminates the contract. Milestones paid or forfeited since the
+     * proposal was made change the escrow left, so the athlete gets the agreed share of what is left, less
+     * any stipend they withdrew for time after the end date.
+     */
+    function acceptTermination(uint256 proposalId) external {
+        Proposal storage proposal = _respond(proposalId, true);
+        require(block.timestamp >= proposal.endDate, "End date not reached");
+        proposal.status = ProposalStatus.Accepted;
+        openProposalOf[proposal.contractId] = 0;
+
+        (uint256 remaining, uint256 overdrawn) = getSplittableEscrow(proposal.contractId, proposal.endDate);
+        // Stipend the athlete already drew for time past the end date counts towards their share
+        uint256 agreed = proposal.athleteAmount + proposal.refundAmount;
+        uint256 athleteAmount = agreed == 0 ? 0 : (remaining + overdrawn) * proposal.athleteAmount / agreed;
+        athleteAmount = athleteAmount > overdrawn ? athleteAmount - overdrawn : 0;
+        athleteContract.settleByAgreement(proposal.contractId, proposal.endDate, athleteAmount);
+
+        emit TerminationAccepted(proposal.contractId, proposalId, msg.sender);
+    }
+
+    /**
+     * @dev Decline the other party's open proposal; the contract carries on as before. A proposal left open
+     * when the contract stopped being active (through a dispute, say) can still be declined to close it.
+     */
+    function declineTermination(uint256 proposalId, string memory reason) external {
+        Proposal storage proposal = _respond(proposalId, false);
+        proposal.status = ProposalStatus.Declined;
+        openProposalOf[proposal.contractId] = 0;
+
+        emit TerminationDeclined(proposal.contractId, proposalId, msg.sender, reason);
+    }
+
+    /**
+     * @dev Withdraw your own open proposal, whatever state the contract is in
+     */
+    function withdrawTermination(uint256 proposalId) external {
+        Proposal storage proposal = proposals[proposalId];
+        require(msg.sender == proposal.proposer, "Only proposer can withdraw");
+        require(proposal.status == ProposalStatus.Open, "Proposal not open");
+        proposal.status = ProposalStatus.Withdrawn;
+        openProposalOf[proposal.contractId] = 0;
+
+        emit TerminationWithdrawn(proposal.contractId, proposalId);
+    }
+
+    /**
+     * @dev Escrow left to split if the contract ended on endDate, once the stipend accrued up to then is paid,
+     * and how much stipend the athlete has already withdrawn for time after it
+     */
+    function getSplittableEscrow(uint256 contractId, uint256 endDate) public view returns (uint256 remaining, uint256 overdrawn) {
+        uint256 accrued = athleteContract.getStipendAccruedAt(contractId, endDate);
+        uint256 withdrawn = athleteContract.stipendWithdrawn(contractId);
+        remaining = athleteContract.escrowBalance(contractId);
+        if (accrued > withdrawn) {
+            remaining -= accrued - withdrawn;
+        } else {
+            overdrawn = withdrawn - accrued;
+        }
+    }
+
+    /**
+     * @dev Get the IDs of a contract's proposals, oldest first
+     */
+    function getProposalIds(uint256 contractId) external view returns (uint256[] memory) {
+        return proposalIdsOf[contractId];
+    }
+
+    /**
+     * @dev Get the number of proposals made across all contracts
+     */
+    function getProposalsCount() external view returns (uint256) {
+        return proposals.length;
+    }
+
+    /**
+     * @dev Record a proposal from a party to an active contract and make it the open one
+     */
+    function _propose(
+        uint256 contractId,
+        uint256 endDate,
+        uint256 athleteAmount,
+        uint256 refundAmount,
+        string memory note,
+        uint256 counterOf
+    ) internal returns (uint256 proposalId) {
+        (
+            address athlete,
+            address sponsor,
+            ,
+            ,
+            uint256 startDate,
+            uint256 currentEndDate,
+            AthleteContract.ContractState state,
+
+        ) = athleteContract.getContractDetails(contractId);
+
+        require(msg.sender == athlete || msg.sender == sponsor, "Only athlete or sponsor can propose");
+        require(state == AthleteContract.ContractState.Active, "Contract not active");
+        if (endDate < block.timestamp) endDate = block.timestamp;
+        require(endDate >= startDate && endDate <= currentEndDate, "End date outside contract term");
+        (uint256 remaining, ) = getSplittableEscrow(contractId, endDate);
+        require(athleteAmount + refundAmount == remaining, "Settlement must split the escrow");
+
+        proposalId = proposals.length;
+        proposals.push(Proposal({
+            contractId: contractId,
+            proposer: msg.sender,
+            endDate: endDate,
+            athleteAmount: athleteAmount,
+            refundAmount: refundAmount,
+            note: note,
+            status: ProposalStatus.Open,
+            createdAt: block.timestamp,
+            counterOf: counterOf
+        }));
+        proposalIdsOf[contractId].push(proposalId);
+        openProposalOf[contractId] = proposalId + 1;
+
+        emit TerminationProposed(contractId, proposalId, msg.sender, endDate, athleteAmount, refundAmount, note);
+    }
+
+    /**
+     * @dev Check the caller is the other party to an open proposal and, when the response would act on the
+     * contract, that it is still active
+     */
+    function _respond(uint256 proposalId, bool requireActive) internal view returns (Proposal storage proposal) {
+        proposal = proposals[proposalId];
+        require(proposal.status == ProposalStatus.Open, "Proposal not open");
+
+        (
+            address athlete,
+            address sponsor,
+            ,
+            ,
+            ,
+            ,
+            AthleteContract.ContractState state,
+
+        ) = athleteContract.getContractDetails(proposal.contractId);
+        require(msg.sender == athlete || msg.sender == sponsor, "Only athlete or sponsor can respond");
+        require(msg.sender != proposal.proposer, "Cannot respond to your own proposal");
+        require(!requireActive || state == AthleteContract.ContractState.Active, "Contract not active");
+    }
+}
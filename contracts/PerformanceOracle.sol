@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./AthleteContract.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title PerformanceOracle
+ * @dev Settles performance bonus milestones from results signed by registered oracles
+ */
+contract PerformanceOracle is AccessControl {
+    // Role definitions
+    bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
+
+    // The athlete contract
+    AthleteContract public athleteContract;
+
+    // What a bonus milestone pays out on: the oracle vouching for the result, the metric it reports
+    // (e.g. "points:2026-11-02:LAL-BOS") and the value that has to be reached
+    struct BonusCondition {
+        address oracle;
+        string metric;
+        uint256 threshold;
+        bool settled;
+    }
+
+    // Mapping from contract ID and milestone index to the milestone's bonus condition
+    mapping(uint256 => mapping(uint256 => BonusCondition)) public bonusConditions;
+
+    // Events
+    event BonusConditionSet(uint256 indexed contractId, uint256 milestoneIndex, address indexed oracle, string metric, uint256 threshold);
+    event AttestationSubmitted(uint256 indexed contractId, uint256 milestoneIndex, address indexed oracle, uint256 value, bool thresholdMet);
+
+    constructor(address _athleteContract) {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        athleteContract = AthleteContract(_athleteContract);
+    }
+
+    /**
+     * @dev Turn a milestone of a draft contract into a performance bonus settled by a registered oracle
+     * (athlete or sponsor only)
+     */
+    function setBonusCondition(
+        uint256 contractId,
+        uint256 milestoneIndex,
+        address oracle,
+        string memory metric,
+        uint256 threshold
+    ) external {
+        (
+            address athlete,
+            address sponsor,
+            ,
+            ,
+            ,
+            ,
+            AthleteContract.ContractState state,
+
+        ) = athleteContract.getContractDetails(contractId);
+
+        require(msg.sender == athlete || msg.sender == sponsor, "Only athlete or sponsor can modify");
+        require(state == AthleteContract.ContractState.Draft, "Contract not in draft state");
+        require(hasRole(ORACLE_ROLE, oracle), "Oracle not registered");
+        require(bytes(metric).length > 0, "Metric required");
+
+        athleteContract.setBonusMilestone(contractId, milestoneIndex);
+        bonusConditions[contractId][milestoneIndex] = BonusCondition({
+            oracle: oracle,
+            metric: metric,
+            threshold: threshold,
+            settled: false
+        });
+
+        emit BonusConditionSet(contractId, milestoneIndex, oracle, metric, threshold);
+    }
+
+    /**
+     * @dev Hash an oracle signs (as an eth_sign message) to attest a result for a bonus milestone
+     */
+    function getAttestationHash(uint256 contractId, uint256 milestoneIndex, uint256 value) public view returns (bytes32) {
+        return keccak256(abi.encode(
+            address(this),
+            block.chainid,
+            contractId,
+            milestoneIndex,
+            bonusConditions[contractId][milestoneIndex].metric,
+            value
+        ));
+    }
+
+    /**
+     * @dev Submit a result signed by the milestone's oracle. Anyone can relay it; once the threshold
+     * is met the milestone is completed and paid in the same transaction. Results below the threshold
+     * are recorded and a newer result can be submitted until the milestone's deadline.
+     */
+    function submitAttestation(
+        uint256 contractId,
+        uint256 milestoneIndex,
+        uint256 value,
+        bytes memory signature
+    ) external {
+        BonusCondition storage condition = bonusConditions[contractId][milestoneIndex];
+        require(condition.oracle != address(0), "Not a bonus milestone");
+        require(!condition.settled, "Bonus already settled");
+
+        bytes32 digest = ECDSA.toEthSignedMessageHash(getAttestationHash(contractId, milestoneIndex, value));
+        address signer = ECDSA.recover(digest, signature);
+        require(signer == condition.oracle, "Invalid oracle signature");
+        require(hasRole(ORACLE_ROLE, signer), "Oracle not registered");
+
+        bool thresholdMet = value >= condition.threshold;
+        emit AttestationSubmitted(contractId, milestoneIndex, signer, value, thresholdMet);
+
+        if (thresholdMet) {
+            condition.settled = true;
+            athleteContract.settleBonusMilestone(
+                contractId,
+                milestoneIndex,
+                string(abi.encodePacked("oracle:", condition.metric, "=", Strings.toString(value)))
+            );
+        }
+    }
+}
@@ -3,38 +3,72 @@ pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
+import "./AthleteContract.sol";
 
 /**
  * @title SponsorshipNFT
- * @dev NFT contract for representing athlete sponsorship deals as NFTs
+ * @dev NFT contract for representing athlete sponsorship deals as NFTs, with an ERC-2981
+ * royalty to the athlete on every resale
  */
-contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
+contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable, ERC2981, ReentrancyGuard {
     using Counters for Counters.Counter;
+    using SafeERC20 for IERC20;
     Counters.Counter private _tokenIds;
     
+    // Athlete's share of any sale or payment distributed for their deal token, in basis points
+    uint96 public constant ATHLETE_ROYALTY_BPS = 500;
+    
+    // Deployer (the factory), the only account that can mint
+    address public minter;
+    
+    // Where the deals behind the tokens live, so a token's metadata can follow its contract's state
+    AthleteContract public athleteContract;
+    
     // Mapping from token ID to contract ID
     mapping(uint256 => uint256) public contractIdOf;
     
     // Mapping from contract ID to token ID
     mapping(uint256 => uint256) public tokenIdOf;
     
+    // Metadata a token switches to once its contract is completed
+    mapping(uint256 => string) public completionURIOf;
+    
     // Events
     event SponsorshipNFTMinted(uint256 indexed tokenId, uint256 indexed contractId, address athlete, address sponsor);
     event RoyaltyPaid(uint256 indexed tokenId, address recipient, uint256 amount);
+    event RoyaltyDistributed(
+        uint256 indexed tokenId,
+        address indexed payer,
+        address paymentToken,
+        uint256 amount,
+        address athlete,
+        uint256 athleteShare,
+        address holder
+    );
     
-    constructor() ERC721("Athlete Sponsorship", "ASPON") {}
+    constructor(AthleteContract _athleteContract) ERC721("Athlete Sponsorship", "ASPON") {
+        minter = msg.sender;
+        athleteContract = _athleteContract;
+    }
     
     /**
-     * @dev Mint a new NFT for a sponsorship contract
+     * @dev Mint a new NFT for a sponsorship contract, with the metadata it shows until the contract is
+     * completed and the metadata it shows from then on
      */
     function mintSponsorshipNFT(
         address to,
         uint256 contractId,
         string memory newTokenURI,
+        string memory completionURI,
         address athlete,
         address sponsor
     ) external returns (uint256) {
+        require(msg.sender == minter, "Only minter can mint");
         require(tokenIdOf[contractId] == 0, "NFT already minted for this contract");
         
         _tokenIds.increment();
@@ -42,6 +76,8 @@ contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
         
         _mint(to, newTokenId);
         _setTokenURI(newTokenId, newTokenURI);
+        completionURIOf[newTokenId] = completionURI;
+        _setTokenRoyalty(newTokenId, athlete, ATHLETE_ROYALTY_BPS);
         
         contractIdOf[newTokenId] = contractId;
         tokenIdOf[contractId] = newTokenId;
@@ -52,14 +88,25 @@ contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
     }
     
     /**
-     * @dev Pay royalties for a tokenized sponsorship
-     * @notice This function is meant to emit an event for tracking off-chain payments
+     * @dev Pay out a resale price or other revenue for a tokenized sponsorship in ETH (address(0))
+     * or an ERC-20: the athlete receives their royalty and the current holder the rest
      */
-    function recordRoyaltyPayment(uint256 tokenId, address recipient, uint256 amount) external {
+    function distributeRoyalty(uint256 tokenId, address paymentToken, uint256 amount) external payable nonReentrant {
         require(_exists(tokenId), "Token does not exist");
-        require(msg.sender == ownerOf(tokenId), "Only token owner can record royalties");
+        require(amount > 0, "Amount must be positive");
+        
+        (address athlete, uint256 athleteShare) = royaltyInfo(tokenId, amount);
+        address holder = ownerOf(tokenId);
+        
+        if (paymentToken == address(0)) {
+            require(msg.value == amount, "Incorrect payment amount");
+        } else {
+            require(msg.value == 0, "ETH not accepted for token payments");
+        }
+        _pay(tokenId, paymentToken, athlete, athleteShare);
+        _pay(tokenId, paymentToken, holder, amount - athleteShare);
         
-        emit RoyaltyPaid(tokenId, recipient, amount);
+        emit RoyaltyDistributed(tokenId, msg.sender, paymentToken, amount, athlete, athleteShare, holder);
     }
     
     /**
@@ -84,7 +131,21 @@ contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
         return tokenIds;
     }
     
-    // Required overrides for ERC721URIStorage + ERC721Enumerable
+    /**
+     * @dev Send part of a distribution straight from the payer to a recipient
+     */
+    function _pay(uint256 tokenId, address paymentToken, address to, uint256 amount) internal {
+        if (amount == 0) return;
+        if (paymentToken == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, "ETH transfer failed");
+        } else {
+            IERC20(paymentToken).safeTransferFrom(msg.sender, to, amount);
+        }
+        emit RoyaltyPaid(tokenId, to, amount);
+    }
+    
+    // Required overrides for ERC721URIStorage + ERC721Enumerable + ERC2981
     function _beforeTokenTransfer(
         address from,
         address to,
@@ -97,7 +158,7 @@ contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
     function supportsInterface(bytes4 interfaceId)
         public
         view
-        override(ERC721, ERC721Enumerable)
+        override(ERC721, ERC721Enumerable, ERC2981)
         returns (bool)
     {
         return super.supportsInterface(interfaceId);
@@ -105,14 +166,23 @@ contract SponsorshipNFT is ERC721URIStorage, ERC721Enumerable {
     
     function _burn(uint256 tokenId) internal override(ERC721, ERC721URIStorage) {
         super._burn(tokenId);
+        _resetTokenRoyalty(tokenId);
     }
     
+    /**
+     * @dev The completion metadata once the token's contract is completed, so the token records the
+     * completion without anyone having to update it
+     */
     function tokenURI(uint256 tokenId)
         public
         view
         override(ERC721, ERC721URIStorage)
         returns (string memory)
     {
+        if (bytes(completionURIOf[tokenId]).length > 0) {
+            (, , , , , , AthleteContract.ContractState state, ) = athleteContract.getContractDetails(contractIdOf[tokenId]);
+            if (state == AthleteContract.ContractState.Completed) return completionURIOf[tokenId];
+        }
         return super.tokenURI(tokenId);
     }
 } 
\ No newline at end of file
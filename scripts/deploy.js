@@ -8,6 +8,9 @@ async function main() {
   const AthleteContract = await hre.ethers.getContractFactory("AthleteContract");
   const SponsorshipNFT = await hre.ethers.getContractFactory("SponsorshipNFT");
   const AthleteChainFactory = await hre.ethers.getContractFactory("AthleteChainFactory");
+  const DisputeResolution = await hre.ethers.getContractFactory("DisputeResolution");
+  const PerformanceOracle = await hre.ethers.getContractFactory("PerformanceOracle");
+  const MutualTermination = await hre.ethers.getContractFactory("MutualTermination");
   
   // Deploy the factory contract (which will deploy the other contracts)
   const factory = await AthleteChainFactory.deploy();
@@ -21,12 +24,67 @@ async function main() {
   console.log("AthleteContract deployed to:", athleteContractAddress);
   console.log("SponsorshipNFT deployed to:", sponsorshipNFTAddress);
   
+  // Deploy dispute resolution and authorize it on the athlete contract
+  const disputeResolution = await DisputeResolution.deploy(athleteContractAddress);
+  await disputeResolution.deployed();
+  await (await factory.setDisputeResolution(disputeResolution.address)).wait();
+  console.log("DisputeResolution deployed to:", disputeResolution.address);
+  
+  // Grant ARBITRATOR_ROLE to the deployer and any comma-separated ARBITRATORS addresses
+  const [deployer] = await hre.ethers.getSigners();
+  const arbitratorRole = await disputeResolution.ARBITRATOR_ROLE();
+  const arbitrators = [deployer.address, ...(process.env.ARBITRATORS ? process.env.ARBITRATORS.split(",") : [])];
+  for (const arbitrator of arbitrators) {
+    await (await disputeResolution.grantRole(arbitratorRole, arbitrator.trim())).wait();
+    console.log("Granted ARBITRATOR_ROLE to:", arbitrator.trim());
+  }
+  
+  // Deploy the performance oracle and authorize it on the athlete contract
+  const performanceOracle = await PerformanceOracle.deploy(athleteContractAddress);
+  await performanceOracle.deployed();
+  await (await factory.setPerformanceOracle(performanceOracle.address)).wait();
+  console.log("PerformanceOracle deployed to:", performanceOracle.address);
+  
+  // Grant ORACLE_ROLE to the deployer (the account scripts/mock-oracle.js signs with) and any comma-separated ORACLES addresses
+  const oracleRole = await performanceOracle.ORACLE_ROLE();
+  const oracles = [deployer.address, ...(process.env.ORACLES ? process.env.ORACLES.split(",") : [])];
+  for (const oracle of oracles) {
+    await (await performanceOracle.grantRole(oracleRole, oracle.trim())).wait();
+    console.log("Granted ORACLE_ROLE to:", oracle.trim());
+  }
+  
+  // Deploy mutual termination and authorize it on the athlete contract
+  const mutualTermination = await MutualTermination.deploy(athleteContractAddress);
+  await mutualTermination.deployed();
+  await (await factory.setTerminationManager(mutualTermination.address)).wait();
+  console.log("MutualTermination deployed to:", mutualTermination.address);
+  
+  // On local networks, deploy mock stablecoins and fund the first test accounts with them
+  const tokens = {};
+  if (["hardhat", "localhost"].includes(hre.network.name)) {
+    const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+    const signers = (await hre.ethers.getSigners()).slice(0, 10);
+    for (const [name, symbol, decimals] of [["USD Coin", "USDC", 6], ["Tether USD", "USDT", 6], ["Dai Stablecoin", "DAI", 18]]) {
+      const token = await MockERC20.deploy(name, symbol, decimals);
+      await token.deployed();
+      for (const signer of signers) {
+        await (await token.mint(signer.address, hre.ethers.utils.parseUnits("1000000", decimals))).wait();
+      }
+      tokens[symbol] = token.address;
+      console.log(`Mock ${symbol} deployed to:`, token.address);
+    }
+  }
+  
   // Save the addresses to be used by the frontend
   const fs = require("fs");
   const contractAddresses = {
     factoryAddress: factory.address,
     athleteContractAddress: athleteContractAddress,
-    sponsorshipNFTAddress: sponsorshipNFTAddress
+    sponsorshipNFTAddress: sponsorshipNFTAddress,
+    disputeResolutionAddress: disputeResolution.address,
+    performanceOracleAddress: performanceOracle.address,
+    mutualTerminationAddress: mutualTermination.address,
+    tokens
   };
   
   fs.writeFileSync(
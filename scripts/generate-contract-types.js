@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+// Generates TypeScript interfaces for the deployed contracts from the Hardhat artifacts.
+// Run after `npm run compile`; the output is src/utils/contract-types.ts.
+const fs = require("fs");
+const path = require("path");
+
+// Artifact source paths, relative to the artifacts directory
+const CONTRACTS = {
+  AthleteChainFactory: "contracts/AthleteChainFactory.sol",
+  AthleteContract: "contracts/AthleteContract.sol",
+  SponsorshipNFT: "contracts/SponsorshipNFT.sol",
+  DisputeResolution: "contracts/DisputeResolution.sol",
+  PerformanceOracle: "contracts/PerformanceOracle.sol",
+  MutualTermination: "contracts/MutualTermination.sol",
+  // Payment tokens are only ever used through the standard interface and its optional metadata
+  IERC20Metadata: "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol",
+};
+
+const ARTIFACTS_DIR = path.join(__dirname, "../src/artifacts");
+const OUTPUT_FILE = path.join(__dirname, "../src/utils/contract-types.ts");
+
+// ethers v5 returns integers up to 48 bits as plain numbers
+const isSmallInt = (type) => {
+  const match = type.match(/^u?int(\d*)$/);
+  return match && Number(match[1] || 256) <= 48;
+};
+
+const tupleType = (components, direction) => {
+  const fields = components.map((c) => `${c.name}: ${solidityType(c, direction)}`).join("; ");
+  if (direction === "input") return `{ ${fields} }`;
+  const positional = components.map((c) => solidityType(c, direction)).join(", ");
+  return `[${positional}] & { ${fields} }`;
+};
+
+function solidityType(param, direction) {
+  const { type } = param;
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) {
+    const inner = solidityType({ ...param, type: arrayMatch[1] }, direction);
+    return `${inner.includes(" ") ? `(${inner})` : inner}[]`;
+  }
+  if (type === "tuple") return tupleType(param.components, direction);
+  if (type === "address" || type === "string") return "string";
+  if (type === "bool") return "boolean";
+  if (type.startsWith("bytes")) return direction === "input" ? "BytesLike" : "string";
+  if (/^u?int/.test(type)) {
+    if (direction === "input") return "BigNumberish";
+    return isSmallInt(type) ? "number" : "BigNumber";
+  }
+  return "unknown";
+}
+
+const paramName = (param, index) => param.name || `arg${index}`;
+
+const signatureOf = (fragment) =>
+  `${fragment.name}(${fragment.inputs.map((input) => formatType(input)).join(",")})`;
+
+function formatType(param) {
+  if (!param.type.startsWith("tuple")) return param.type;
+  return `(${param.components.map(formatType).join(",")})${param.type.slice("tuple".length)}`;
+}
+
+function returnType(fragment) {
+  const isView = fragment.stateMutability === "view" || fragment.stateMutability === "pure";
+  if (!isView) return "Promise<ContractTransaction>";
+  const { outputs } = fragment;
+  if (outputs.length === 0) return "Promise<void>";
+  if (outputs.length === 1) return `Promise<${solidityType(outputs[0], "output")}>`;
+  const positional = outputs.map((o) => solidityType(o, "output")).join(", ");
+  const named = outputs.filter((o) => o.name);
+  if (named.length === 0) return `Promise<[${positional}]>`;
+  return `Promise<[${positional}] & { ${named.map((o) => `${o.name}: ${solidityType(o, "output")}`).join("; ")} }>`;
+}
+
+function overridesType(fragment) {
+  switch (fragment.stateMutability) {
+    case "view":
+    case "pure":
+      return "CallOverrides";
+    case "payable":
+      return "PayableOverrides";
+    default:
+      return "Overrides";
+  }
+}
+
+function generateContract(name, abi) {
+  const functions = abi.filter((f) => f.type === "function");
+  const events = abi.filter((f) => f.type === "event");
+
+  // Overloaded functions are only reachable by full signature in ethers v5
+  const counts = {};
+  functions.forEach((f) => { counts[f.name] = (counts[f.name] || 0) + 1; });
+
+  const methods = functions.map((fragment) => {
+    const params = fragment.inputs.map((input, i) => `${paramName(input, i)}: ${solidityType(input, "input")}`);
+    params.push(`overrides?: ${overridesType(fragment)}`);
+    const key = counts[fragment.name] > 1 ? `'${signatureOf(fragment)}'` : fragment.name;
+    return `  ${key}(${params.join(", ")}): ${returnType(fragment)};`;
+  });
+
+  const filters = events.map((event) => {
+    const lastIndexed = event.inputs.map((input) => input.indexed).lastIndexOf(true);
+    const params = event.inputs.slice(0, lastIndexed + 1).map((input, i) =>
+      input.indexed
+        ? `${paramName(input, i)}?: ${solidityType(input, "input")} | null`
+        : `${paramName(input, i)}?: null`
+    );
+    return `    ${event.name}(${params.join(", ")}): EventFilter;`;
+  });
+
+  return [
+    `export interface ${name}Contract extends ContractBase {`,
+    `  connect(signerOrProvider: Signer | providers.Provider | string): ${name}Contract;`,
+    `  filters: {`,
+    ...filters,
+    `  };`,
+    ...methods,
+    `}`,
+  ].join("\n");
+}
+
+function main() {
+  const sections = Object.entries(CONTRACTS).map(([name, source]) => {
+    const artifact = JSON.parse(
+      fs.readFileSync(path.join(ARTIFACTS_DIR, source, `${name}.json`), "utf8")
+    );
+    return generateContract(name, artifact.abi);
+  });
+
+  const output = [
+    "// Generated by scripts/generate-contract-types.js from the Hardhat artifacts. Do not edit by hand.",
+    "import type { BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, Signer, providers } from 'ethers';",
+    "",
+    "// The untyped parts of ethers.Contract we keep; dropping its index signature makes unknown methods a compile error",
+    "type ContractBase = Pick<Contract, 'address' | 'interface' | 'provider' | 'signer' | 'deployed' | 'queryFilter' | 'on' | 'once' | 'off' | 'removeAllListeners' | 'listenerCount'>;",
+    "",
+    sections.join("\n\n"),
+    "",
+  ].join("\n");
+
+  fs.writeFileSync(OUTPUT_FILE, output);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main();
@@ -0,0 +1,359 @@
+// SPDX-License-Identifier: MIT
+// Follows AthleteChain contract events into a local SQLite database that backs the /api routes.
+// Usage: npm run indexer (RPC_URL, INDEXER_DB, INDEXER_START_BLOCK, INDEXER_CONFIRMATIONS and
+// INDEXER_POLL_MS can be set in the environment).
+const path = require("path");
+const fs = require("fs");
+const { ethers } = require("ethers");
+const Database = require("better-sqlite3");
+
+const contractAddresses = require("../src/contract-addresses.json");
+const factoryAbi = require("../src/artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json").abi;
+const athleteContractAbi = require("../src/artifacts/contracts/AthleteContract.sol/AthleteContract.json").abi;
+const sponsorshipNFTAbi = require("../src/artifacts/contracts/SponsorshipNFT.sol/SponsorshipNFT.json").abi;
+const disputeResolutionAbi = require("../src/artifacts/contracts/DisputeResolution.sol/DisputeResolution.json").abi;
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const DB_PATH = process.env.INDEXER_DB || path.join(__dirname, "../data/indexer.db");
+const START_BLOCK = Number(process.env.INDEXER_START_BLOCK || 0);
+const CONFIRMATIONS = Number(process.env.INDEXER_CONFIRMATIONS || 0);
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_MS || 4000);
+const BATCH_SIZE = 2000;
+// How many recent block hashes are kept to detect and unwind reorgs
+const REORG_DEPTH = 64;
+// Bump when the tables change so existing databases are rebuilt
+const SCHEMA_VERSION = 3;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    name TEXT NOT NULL,
+    contract_id INTEGER,
+    args TEXT NOT NULL,
+    UNIQUE (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_contract_id ON events (contract_id);
+  CREATE INDEX IF NOT EXISTS events_block_number ON events (block_number);
+  CREATE TABLE IF NOT EXISTS contracts (
+    id INTEGER PRIMARY KEY,
+    athlete TEXT NOT NULL,
+    sponsor TEXT NOT NULL,
+    contract_hash TEXT NOT NULL,
+    total_value TEXT NOT NULL,
+    start_date INTEGER NOT NULL,
+    end_date INTEGER NOT NULL,
+    state INTEGER NOT NULL,
+    payment_token TEXT NOT NULL,
+    escrow_deposited TEXT NOT NULL,
+    escrow_balance TEXT NOT NULL,
+    agent TEXT NOT NULL,
+    agent_commission_bps INTEGER NOT NULL,
+    agent_commission_paid TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS contracts_athlete ON contracts (athlete);
+  CREATE INDEX IF NOT EXISTS contracts_sponsor ON contracts (sponsor);
+  CREATE INDEX IF NOT EXISTS contracts_agent ON contracts (agent);
+  CREATE TABLE IF NOT EXISTS disputes (
+    id INTEGER PRIMARY KEY,
+    contract_id INTEGER NOT NULL,
+    initiator TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    resolved INTEGER NOT NULL,
+    athlete_favor INTEGER NOT NULL,
+    athlete_votes INTEGER NOT NULL,
+    sponsor_votes INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS nfts (
+    token_id INTEGER PRIMARY KEY,
+    contract_id INTEGER NOT NULL,
+    owner TEXT NOT NULL,
+    token_uri TEXT NOT NULL
+  );
+`;
+
+const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
+
+const sources = {
+  factory: new ethers.Contract(contractAddresses.factoryAddress, factoryAbi, provider),
+  athleteContract: new ethers.Contract(contractAddresses.athleteContractAddress, athleteContractAbi, provider),
+  sponsorshipNFT: new ethers.Contract(contractAddresses.sponsorshipNFTAddress, sponsorshipNFTAbi, provider),
+  disputeResolution: new ethers.Contract(contractAddresses.disputeResolutionAddress, disputeResolutionAbi, provider),
+};
+
+function openDatabase() {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  // A redeploy starts a fresh chain history and a schema change needs a full re-index,
+  // so drop anything indexed for other addresses or an older schema
+  const deployment = JSON.stringify({ schema: SCHEMA_VERSION, ...contractAddresses });
+  const stored = db.prepare("SELECT value FROM meta WHERE key = 'deployment'").get();
+  if (stored && stored.value !== deployment) {
+    console.log("Contract addresses or schema changed, resetting index");
+    db.exec("DROP TABLE events; DROP TABLE blocks; DROP TABLE contracts; DROP TABLE disputes; DROP TABLE nfts; DELETE FROM meta;");
+    db.exec(SCHEMA);
+  }
+  db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('deployment', ?)").run(deployment);
+  return db;
+}
+
+// Convert decoded event args into plain JSON (BigNumbers become decimal strings)
+function serializeArgs(fragment, args) {
+  const result = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = args[i];
+    result[input.name || `arg${i}`] = ethers.BigNumber.isBigNumber(value) ? value.toString() : value;
+  });
+  return result;
+}
+
+// Collect the entities an event touches so their projections can be refreshed
+function collectAffected(source, args, affected) {
+  if (args.contractId !== undefined) affected.contracts.add(Number(args.contractId));
+  if (source === "disputeResolution" && args.disputeId !== undefined) affected.disputes.add(Number(args.disputeId));
+  if (source === "sponsorshipNFT" && args.tokenId !== undefined) affected.nfts.add(Number(args.tokenId));
+}
+
+async function refreshContract(db, contractId, blockTag) {
+  const [details, escrowDeposited, escrowBalance, agent, agentCommissionBps, agentCommissionPaid] = await Promise.all([
+    sources.athleteContract.getContractDetails(contractId, { blockTag }),
+    sources.athleteContract.escrowDeposited(contractId, { blockTag }),
+    sources.athleteContract.escrowBalance(contractId, { blockTag }),
+    sources.athleteContract.agentOf(contractId, { blockTag }),
+    sources.athleteContract.agentCommissionBps(contractId, { blockTag }),
+    sources.athleteContract.agentCommissionPaid(contractId, { blockTag }),
+  ]);
+  const created = db
+    .prepare("SELECT MIN(timestamp) AS timestamp FROM events WHERE contract_id = ? AND name = 'ContractCreated'")
+    .get(contractId);
+  db.prepare(`
+    INSERT OR REPLACE INTO contracts
+      (id, athlete, sponsor, contract_hash, total_value, start_date, end_date, state, payment_token,
+       escrow_deposited, escrow_balance, agent, agent_commission_bps, agent_commission_paid, created_at, updated_block)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    contractId,
+    details.athlete.toLowerCase(),
+    details.sponsor.toLowerCase(),
+    details.contractIPFSHash,
+    details.totalValue.toString(),
+    details.startDate.toNumber(),
+    details.endDate.toNumber(),
+    details.state,
+    details.paymentToken.toLowerCase(),
+    escrowDeposited.toString(),
+    escrowBalance.toString(),
+    agent.toLowerCase(),
+    agentCommissionBps.toNumber(),
+    agentCommissionPaid.toString(),
+    created.timestamp || 0,
+    blockTag
+  );
+}
+
+async function refreshDispute(db, disputeId, blockTag) {
+  const details = await sources.disputeResolution.getDisputeDetails(disputeId, { blockTag });
+  db.prepare(`
+    INSERT OR REPLACE INTO disputes
+      (id, contract_id, initiator, reason, resolved, athlete_favor, athlete_votes, sponsor_votes, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    disputeId,
+    details.contractId.toNumber(),
+    details.initiator.toLowerCase(),
+    details.reason,
+    details.resolved ? 1 : 0,
+    details.athleteFavor ? 1 : 0,
+    details.athleteVotes.toNumber(),
+    details.sponsorVotes.toNumber(),
+    details.timestamp.toNumber()
+  );
+}
+
+async function refreshNFT(db, tokenId, blockTag) {
+  const [owner, contractId, tokenURI] = await Promise.all([
+    sources.sponsorshipNFT.ownerOf(tokenId, { blockTag }),
+    sources.sponsorshipNFT.getContractId(tokenId, { blockTag }),
+    sources.sponsorshipNFT.tokenURI(tokenId, { blockTag }),
+  ]);
+  db.prepare("INSERT OR REPLACE INTO nfts (token_id, contract_id, owner, token_uri) VALUES (?, ?, ?, ?)")
+    .run(tokenId, contractId.toNumber(), owner.toLowerCase(), tokenURI);
+}
+
+// Re-read every touched entity from chain state at blockTag. Entities that no longer exist
+// (for example after a reorg removed their creation) are dropped.
+async function refreshProjections(db, affected, blockTag) {
+  for (const contractId of affected.contracts) {
+    const exists = db.prepare("SELECT 1 FROM events WHERE contract_id = ? AND name = 'ContractCreated'").get(contractId);
+    if (exists) await refreshContract(db, contractId, blockTag);
+    else db.prepare("DELETE FROM contracts WHERE id = ?").run(contractId);
+  }
+  for (const disputeId of affected.disputes) {
+    const exists = db.prepare("SELECT 1 FROM events WHERE source = 'disputeResolution' AND name = 'DisputeCreated' AND json_extract(args, '$.disputeId') = ?").get(String(disputeId));
+    if (exists) await refreshDispute(db, disputeId, blockTag);
+    else db.prepare("DELETE FROM disputes WHERE id = ?").run(disputeId);
+  }
+  for (const tokenId of affected.nfts) {
+    const exists = db.prepare("SELECT 1 FROM events WHERE source = 'sponsorshipNFT' AND name = 'SponsorshipNFTMinted' AND json_extract(args, '$.tokenId') = ?").get(String(tokenId));
+    if (exists) await refreshNFT(db, tokenId, blockTag);
+    else db.prepare("DELETE FROM nfts WHERE token_id = ?").run(tokenId);
+  }
+}
+
+const emptyAffected = () => ({ contracts: new Set(), disputes: new Set(), nfts: new Set() });
+
+function getCursor(db) {
+  const row = db.prepare("SELECT value FROM meta WHERE key = 'lastBlock'").get();
+  return row ? Number(row.value) : START_BLOCK - 1;
+}
+
+function setCursor(db, blockNumber) {
+  db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('lastBlock', ?)").run(String(blockNumber));
+}
+
+// Walk back through stored block hashes until one still matches the chain, then discard everything after it
+async function handleReorg(db) {
+  const recent = db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?").all(REORG_DEPTH);
+  if (recent.length === 0) return;
+
+  let forkPoint = null;
+  for (const stored of recent) {
+    const block = await provider.getBlock(stored.number);
+    if (block && block.hash === stored.hash) {
+      forkPoint = stored.number;
+      break;
+    }
+  }
+  if (forkPoint === recent[0].number) return;
+  if (forkPoint === null) {
+    throw new Error(`Reorg deeper than ${REORG_DEPTH} tracked blocks; delete ${DB_PATH} to rebuild the index`);
+  }
+
+  console.log(`Reorg detected, rewinding to block ${forkPoint}`);
+  const affected = emptyAffected();
+  const orphaned = db.prepare("SELECT source, args FROM events WHERE block_number > ?").all(forkPoint);
+  orphaned.forEach((event) => collectAffected(event.source, JSON.parse(event.args), affected));
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(forkPoint);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(forkPoint);
+    setCursor(db, forkPoint);
+  })();
+  await refreshProjections(db, affected, forkPoint);
+}
+
+async function indexRange(db, fromBlock, toBlock) {
+  const logsBySource = await Promise.all(
+    Object.entries(sources).map(async ([source, contract]) => {
+      const logs = await provider.getLogs({ address: contract.address, fromBlock, toBlock });
+      return logs.map((log) => ({ source, contract, log }));
+    })
+  );
+  const logs = logsBySource.flat().sort((a, b) =>
+    a.log.blockNumber - b.log.blockNumber || a.log.logIndex - b.log.logIndex
+  );
+
+  // Fetch each block once for its hash and timestamp; the range end is always tracked for reorg checks
+  const blockNumbers = new Set(logs.map(({ log }) => log.blockNumber));
+  blockNumbers.add(toBlock);
+  const blocks = new Map();
+  for (const number of blockNumbers) {
+    blocks.set(number, await provider.getBlock(number));
+  }
+
+  const affected = emptyAffected();
+  const insertEvent = db.prepare(`
+    INSERT OR IGNORE INTO events (block_number, block_hash, tx_hash, log_index, timestamp, source, name, contract_id, args)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+
+  db.transaction(() => {
+    for (const { source, contract, log } of logs) {
+      let parsed;
+      try {
+        parsed = contract.interface.parseLog(log);
+      } catch {
+        continue;
+      }
+      const args = serializeArgs(parsed.eventFragment, parsed.args);
+      insertEvent.run(
+        log.blockNumber,
+        log.blockHash,
+        log.transactionHash,
+        log.logIndex,
+        blocks.get(log.blockNumber).timestamp,
+        source,
+        parsed.name,
+        args.contractId !== undefined ? Number(args.contractId) : null,
+        JSON.stringify(args)
+      );
+      collectAffected(source, args, affected);
+    }
+    for (const [number, block] of blocks) {
+      insertBlock.run(number, block.hash, block.timestamp);
+    }
+    db.prepare("DELETE FROM blocks WHERE number <= ?").run(toBlock - REORG_DEPTH);
+    setCursor(db, toBlock);
+  })();
+
+  await refreshProjections(db, affected, toBlock);
+  return logs.length;
+}
+
+async function poll(db) {
+  await handleReorg(db);
+  const tip = (await provider.getBlockNumber()) - CONFIRMATIONS;
+  let cursor = getCursor(db);
+  while (cursor < tip) {
+    const fromBlock = cursor + 1;
+    const toBlock = Math.min(tip, fromBlock + BATCH_SIZE - 1);
+    const count = await indexRange(db, fromBlock, toBlock);
+    if (count > 0) console.log(`Indexed ${count} events from blocks ${fromBlock}-${toBlock}`);
+    cursor = toBlock;
+  }
+}
+
+async function main() {
+  const db = openDatabase();
+  console.log(`Indexing ${RPC_URL} into ${DB_PATH} from block ${getCursor(db) + 1}`);
+
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopped) {
+    try {
+      await poll(db);
+    } catch (error) {
+      console.error("Indexer error:", error.message || error);
+    }
+    if (process.env.INDEXER_ONCE) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  db.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+// Claims milestone payments whose sponsor review window has lapsed, so athletes are paid without
+// having to claim themselves, and completes contracts that are past their end date with everything
+// settled. Any account can act as keeper; payments always go to the athlete.
+// Usage: npm run keeper (KEEPER_POLL_MS and KEEPER_ONCE can be set in the environment).
+const hre = require("hardhat");
+
+const POLL_INTERVAL_MS = Number(process.env.KEEPER_POLL_MS || 60000);
+// Mirrors the MilestoneStatus and ContractState enums in AthleteContract.sol
+const MILESTONE_COMPLETED = 1;
+const CONTRACT_ACTIVE = 1;
+
+async function claimExpiredReviews(athleteContract) {
+  const latest = await hre.ethers.provider.getBlock("latest");
+  const contractCount = (await athleteContract.contractCount()).toNumber();
+  let claimed = 0;
+
+  for (let contractId = 0; contractId < contractCount; contractId++) {
+    const details = await athleteContract.getContractDetails(contractId);
+    if (details.state !== CONTRACT_ACTIVE) continue;
+
+    const milestoneCount = (await athleteContract.getMilestonesCount(contractId)).toNumber();
+    for (let index = 0; index < milestoneCount; index++) {
+      const milestone = await athleteContract.getMilestoneDetails(contractId, index);
+      if (milestone.status !== MILESTONE_COMPLETED || milestone.paid) continue;
+
+      const deadline = (await athleteContract.getReviewDeadline(contractId, index)).toNumber();
+      if (deadline === 0 || latest.timestamp < deadline) continue;
+
+      try {
+        console.log(`Claiming milestone ${index + 1} of contract #${contractId}...`);
+        const tx = await athleteContract.claimMilestonePayment(contractId, index);
+        await tx.wait();
+        claimed++;
+      } catch (error) {
+        console.error(`Failed to claim milestone ${index + 1} of contract #${contractId}:`, error.reason || error.message);
+      }
+    }
+  }
+
+  return claimed;
+}
+
+// Contracts complete with the payment that settles them; this finishes off the ones that ended
+// with only stipend left to pay out
+async function completeEndedContracts(athleteContract) {
+  const latest = await hre.ethers.provider.getBlock("latest");
+  const contractCount = (await athleteContract.contractCount()).toNumber();
+  let completed = 0;
+
+  for (let contractId = 0; contractId < contractCount; contractId++) {
+    const details = await athleteContract.getContractDetails(contractId);
+    if (details.state !== CONTRACT_ACTIVE || latest.timestamp < details.endDate.toNumber()) continue;
+
+    // Milestones still open keep the contract active, and the call reverts
+    try {
+      await athleteContract.callStatic.completeContract(contractId);
+    } catch {
+      continue;
+    }
+
+    try {
+      console.log(`Completing contract #${contractId}...`);
+      const tx = await athleteContract.completeContract(contractId);
+      await tx.wait();
+      completed++;
+    } catch (error) {
+      console.error(`Failed to complete contract #${contractId}:`, error.reason || error.message);
+    }
+  }
+
+  return completed;
+}
+
+async function main() {
+  const contractAddresses = require("../src/contract-addresses.json");
+  const athleteContractAbi = require("../src/artifacts/contracts/AthleteContract.sol/AthleteContract.json").abi;
+
+  const [keeper] = await hre.ethers.getSigners();
+  console.log("Using account:", keeper.address);
+
+  const athleteContract = new hre.ethers.Contract(
+    contractAddresses.athleteContractAddress,
+    athleteContractAbi,
+    keeper
+  );
+
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopped) {
+    try {
+      const claimed = await claimExpiredReviews(athleteContract);
+      if (claimed > 0) console.log(`Claimed ${claimed} milestone payment(s)`);
+      const completed = await completeEndedContracts(athleteContract);
+      if (completed > 0) console.log(`Completed ${completed} contract(s)`);
+    } catch (error) {
+      console.error("Keeper error:", error.message || error);
+    }
+    if (process.env.KEEPER_ONCE) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
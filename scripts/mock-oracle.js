@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: MIT
+// Local stand-in for a sports data oracle. Results are posted to it over HTTP; it signs them with the
+// first Hardhat account (granted ORACLE_ROLE by scripts/deploy.js) and submits attestations for every
+// open bonus milestone that names that account and the posted metric.
+// Usage: npm run oracle (MOCK_ORACLE_PORT and MOCK_ORACLE_POLL_MS can be set in the environment), then
+//   curl -X POST localhost:8787/results -d '{"metric":"points:2026-11-02:LAL-BOS","value":24}'
+const http = require("http");
+const hre = require("hardhat");
+
+const PORT = Number(process.env.MOCK_ORACLE_PORT || 8787);
+const POLL_INTERVAL_MS = Number(process.env.MOCK_ORACLE_POLL_MS || 15000);
+// Mirrors the MilestoneStatus and ContractState enums in AthleteContract.sol
+const MILESTONE_PENDING = 0;
+const CONTRACT_ACTIVE = 1;
+
+// Latest posted value per metric, and the attestations already submitted so unmet results aren't resent
+const results = new Map();
+const submitted = new Set();
+
+async function signAttestation(oracle, performanceOracle, contractId, milestoneIndex, value) {
+  const hash = await performanceOracle.getAttestationHash(contractId, milestoneIndex, value);
+  return oracle.signMessage(hre.ethers.utils.arrayify(hash));
+}
+
+async function attestOpenBonuses(oracle, performanceOracle, athleteContract) {
+  const latest = await hre.ethers.provider.getBlock("latest");
+  const events = await performanceOracle.queryFilter(performanceOracle.filters.BonusConditionSet(null, null, oracle.address));
+  let attested = 0;
+
+  for (const event of events) {
+    const { contractId, milestoneIndex } = event.args;
+    const condition = await performanceOracle.bonusConditions(contractId, milestoneIndex);
+    if (condition.settled || condition.oracle !== oracle.address || !results.has(condition.metric)) continue;
+
+    const value = results.get(condition.metric);
+    const key = `${contractId}-${milestoneIndex}-${value}`;
+    if (submitted.has(key)) continue;
+
+    const details = await athleteContract.getContractDetails(contractId);
+    const milestone = await athleteContract.getMilestoneDetails(contractId, milestoneIndex);
+    if (details.state !== CONTRACT_ACTIVE || milestone.status !== MILESTONE_PENDING) continue;
+    if (latest.timestamp > (await athleteContract.getLateAfter(contractId, milestoneIndex)).toNumber()) continue;
+
+    try {
+      console.log(`Attesting ${condition.metric}=${value} for milestone ${Number(milestoneIndex) + 1} of contract #${contractId}...`);
+      const signature = await signAttestation(oracle, performanceOracle, contractId, milestoneIndex, value);
+      const tx = await performanceOracle.submitAttestation(contractId, milestoneIndex, value, signature);
+      await tx.wait();
+      submitted.add(key);
+      attested++;
+    } catch (error) {
+      console.error(`Failed to attest milestone ${Number(milestoneIndex) + 1} of contract #${contractId}:`, error.reason || error.message);
+    }
+  }
+
+  return attested;
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = "";
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => resolve(body));
+  req.on("error", reject);
+});
+
+const respond = (res, status, payload) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+};
+
+async function main() {
+  const contractAddresses = require("../src/contract-addresses.json");
+  const athleteContractAbi = require("../src/artifacts/contracts/AthleteContract.sol/AthleteContract.json").abi;
+  const performanceOracleAbi = require("../src/artifacts/contracts/PerformanceOracle.sol/PerformanceOracle.json").abi;
+
+  const [oracle] = await hre.ethers.getSigners();
+  console.log("Signing as oracle:", oracle.address);
+
+  const athleteContract = new hre.ethers.Contract(contractAddresses.athleteContractAddress, athleteContractAbi, oracle);
+  const performanceOracle = new hre.ethers.Contract(contractAddresses.performanceOracleAddress, performanceOracleAbi, oracle);
+  if (!(await performanceOracle.hasRole(await performanceOracle.ORACLE_ROLE(), oracle.address))) {
+    console.warn("Warning: this account does not hold ORACLE_ROLE, so its attestations will be rejected");
+  }
+
+  // One pass at a time, whether triggered by the poll loop or a posted result
+  let pass = Promise.resolve();
+  const runPass = () => {
+    pass = pass
+      .then(() => attestOpenBonuses(oracle, performanceOracle, athleteContract))
+      .then((attested) => {
+        if (attested > 0) console.log(`Submitted ${attested} attestation(s)`);
+        return attested;
+      })
+      .catch((error) => {
+        console.error("Oracle error:", error.message || error);
+        return 0;
+      });
+    return pass;
+  };
+
+  // POST /results {"metric": "...", "value": 24} records a result and attests it straight away,
+  // GET /results lists what has been posted and
+  // GET /attestations?contractId=0&milestoneIndex=1&value=24 returns a signature for relaying by hand
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    try {
+      if (req.method === "POST" && url.pathname === "/results") {
+        const { metric, value } = JSON.parse(await readBody(req));
+        if (typeof metric !== "string" || !metric || !Number.isInteger(value) || value < 0) {
+          return respond(res, 400, { error: "Expected a metric name and a non-negative integer value" });
+        }
+        results.set(metric, value);
+        console.log(`Result posted: ${metric}=${value}`);
+        return respond(res, 200, { metric, value, attested: await runPass() });
+      }
+      if (req.method === "GET" && url.pathname === "/results") {
+        return respond(res, 200, Object.fromEntries(results));
+      }
+      if (req.method === "GET" && url.pathname === "/attestations") {
+        const contractId = url.searchParams.get("contractId");
+        const milestoneIndex = url.searchParams.get("milestoneIndex");
+        const value = url.searchParams.get("value");
+        if (![contractId, milestoneIndex, value].every((param) => param && /^\d+$/.test(param))) {
+          return respond(res, 400, { error: "contractId, milestoneIndex and value are required" });
+        }
+        const signature = await signAttestation(oracle, performanceOracle, contractId, milestoneIndex, value);
+        return respond(res, 200, { oracle: oracle.address, contractId, milestoneIndex, value, signature });
+      }
+      respond(res, 404, { error: "Not found" });
+    } catch (error) {
+      respond(res, 500, { error: error.message || String(error) });
+    }
+  });
+  server.listen(PORT, () => console.log(`Mock oracle listening on http://localhost:${PORT}`));
+
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+    server.close();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopped) {
+    await runPass();
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
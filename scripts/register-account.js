@@ -33,25 +33,24 @@ async function main() {
     const ATHLETE_ROLE = hre.ethers.utils.keccak256(hre.ethers.utils.toUtf8Bytes("ATHLETE_ROLE"));
     const SPONSOR_ROLE = hre.ethers.utils.keccak256(hre.ethers.utils.toUtf8Bytes("SPONSOR_ROLE"));
     
-    // Register the user as both athlete and sponsor for testing
+    // Register the user as an athlete, then grant sponsor as a second role for testing.
+    // registerUser can only be called once per address; extra roles go through addRole.
     console.log("Registering as ATHLETE_ROLE...");
-    await factory.registerUser(
+    const registerTx = await factory.registerUser(
       addressToRegister,
       ATHLETE_ROLE,
       "Test User",
       "ipfs://QmTestProfile"
     );
+    await registerTx.wait();
     
-    console.log("Registering as SPONSOR_ROLE...");
-    await factory.registerUser(
-      addressToRegister,
-      SPONSOR_ROLE,
-      "Test User",
-      "ipfs://QmTestProfile"
-    );
+    console.log("Adding SPONSOR_ROLE...");
+    const addRoleTx = await factory.addRole(addressToRegister, SPONSOR_ROLE);
+    await addRoleTx.wait();
     
     console.log("Verifying user...");
-    await factory.verifyUser(addressToRegister);
+    const verifyTx = await factory.verifyUser(addressToRegister);
+    await verifyTx.wait();
     
     console.log("User registration complete!");
   } catch (error) {
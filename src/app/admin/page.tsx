@@ -0,0 +1,559 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeb3 } from '../../context/Web3Context';
+import { ethers } from 'ethers';
+import { getFactoryContract, requestStatusToString, ROLE_NAMES, RoleName, AthleteChainFactoryContract, getErrorMessage } from '../../utils/contracts';
+import { ipfsToGatewayUrl, resolveJSON } from '../../utils/ipfs';
+
+interface RegisteredUser {
+  address: string;
+  name: string;
+  verified: boolean;
+  roles: string[];
+}
+
+interface VerificationDocuments {
+  note?: string;
+  documents?: { name: string; uri: string }[];
+}
+
+interface VerificationRequestItem {
+  id: number;
+  user: string;
+  name: string;
+  status: string;
+  reason: string;
+  requestedAt: string;
+  decidedAt: string;
+  submission: VerificationDocuments | null;
+  documentsURI: string;
+}
+
+interface RoleRequestItem {
+  id: number;
+  user: string;
+  name: string;
+  role: string;
+  status: string;
+  reason: string;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+// Convert blockchain timestamp to readable date
+const timestampToDate = (timestamp: ethers.BigNumber): string => {
+  if (!timestamp || timestamp.isZero()) return '';
+  const date = new Date(timestamp.toNumber() * 1000);
+  return date.toISOString().split('T')[0];
+};
+
+const roleHash = (roleName: string) => ethers.utils.keccak256(ethers.utils.toUtf8Bytes(roleName));
+
+export default function AdminPage() {
+  const { isConnected, account, provider } = useWeb3();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [users, setUsers] = useState<RegisteredUser[]>([]);
+  const [requests, setRequests] = useState<VerificationRequestItem[]>([]);
+  const [rejectReasons, setRejectReasons] = useState<Record<number, string>>({});
+  const [roleRequests, setRoleRequests] = useState<RoleRequestItem[]>([]);
+  const [roleRejectReasons, setRoleRejectReasons] = useState<Record<number, string>>({});
+  const [filter, setFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [roleSelections, setRoleSelections] = useState<Record<string, string>>({});
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const factory = getFactoryContract(provider);
+        const adminAddress: string = await factory.admin();
+        const admin = adminAddress.toLowerCase() === account.toLowerCase();
+        setIsAdmin(admin);
+        if (!admin) return;
+
+        const events = await factory.queryFilter(factory.filters.UserRegistered());
+        const addresses = Array.from(new Set(events.map(event => event.args?.user as string)));
+        const registeredUsers = await Promise.all(
+          addresses.map(async (address) => {
+            const user = await factory.getUser(address);
+            const heldRoles = await Promise.all(
+              ROLE_NAMES.map(async (roleName) => {
+                const hasRole: boolean = await factory.isUserInRole(address, roleHash(roleName));
+                return hasRole ? roleName : null;
+              })
+            );
+            return {
+              address,
+              name: user.name,
+              verified: user.verified,
+              roles: heldRoles.filter((role): role is RoleName => role !== null),
+            };
+          })
+        );
+        setUsers(registeredUsers.reverse());
+
+        const requestCount = (await factory.verificationRequestCount()).toNumber();
+        const allRequests = await Promise.all(
+          Array.from({ length: requestCount }, async (_, requestId) => {
+            const request = await factory.verificationRequests(requestId);
+            const registeredUser = registeredUsers.find(user => user.address === request.user);
+            return {
+              id: requestId,
+              user: request.user,
+              name: registeredUser?.name || '',
+              status: requestStatusToString(request.status),
+              reason: request.decisionReason,
+              requestedAt: timestampToDate(request.requestedAt),
+              decidedAt: timestampToDate(request.decidedAt),
+              submission: await resolveJSON<VerificationDocuments>(request.documentsIPFSHash),
+              documentsURI: request.documentsIPFSHash,
+            };
+          })
+        );
+        setRequests(allRequests.reverse());
+
+        const roleRequestCount = (await factory.roleRequestCount()).toNumber();
+        const allRoleRequests = await Promise.all(
+          Array.from({ length: roleRequestCount }, async (_, requestId) => {
+            const request = await factory.roleRequests(requestId);
+            const registeredUser = registeredUsers.find(user => user.address === request.user);
+            return {
+              id: requestId,
+              user: request.user,
+              name: registeredUser?.name || '',
+              role: ROLE_NAMES.find(roleName => roleHash(roleName) === request.role) || request.role,
+              status: requestStatusToString(request.status),
+              reason: request.decisionReason,
+              requestedAt: timestampToDate(request.requestedAt),
+              decidedAt: timestampToDate(request.decidedAt),
+            };
+          })
+        );
+        setRoleRequests(allRoleRequests.reverse());
+      } catch (err) {
+        console.error('Error fetching users:', err);
+        setError('Error fetching users: ' + (err instanceof Error ? err.message : String(err)));
+        setUsers([]);
+        setRequests([]);
+        setRoleRequests([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, [isConnected, account, provider, refreshTrigger]);
+
+  // Format address for display
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  const formatRole = (role: string) => {
+    const label = role.replace('_ROLE', '').toLowerCase();
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
+  // Send an admin transaction and refresh the user list once it is mined
+  const runAdminAction = async (
+    actionKey: string,
+    successMessage: string,
+    send: (factory: AthleteChainFactoryContract) => Promise<ethers.ContractTransaction>
+  ) => {
+    if (!provider) return;
+    setPendingAction(actionKey);
+    setError(null);
+    setSuccess(null);
+    try {
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      const tx = await send(factory);
+      await tx.wait();
+      setSuccess(successMessage);
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      console.error('Admin action failed:', err);
+      const errorMsg = getErrorMessage(err);
+      setError(errorMsg);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleToggleVerification = (user: RegisteredUser) => {
+    runAdminAction(
+      `verify-${user.address}`,
+      `${user.name || formatAddress(user.address)} ${user.verified ? 'is no longer verified' : 'is now verified'}`,
+      (factory) => user.verified ? factory.unverifyUser(user.address) : factory.verifyUser(user.address)
+    );
+  };
+
+  const handleAddRole = (user: RegisteredUser) => {
+    const roleName = roleSelections[user.address];
+    if (!roleName) return;
+    setRoleSelections({ ...roleSelections, [user.address]: '' });
+    runAdminAction(
+      `role-${user.address}`,
+      `Granted ${formatRole(roleName)} to ${user.name || formatAddress(user.address)}`,
+      (factory) => factory.addRole(user.address, roleHash(roleName))
+    );
+  };
+
+  const handleRevokeRole = (user: RegisteredUser, roleName: string) => {
+    runAdminAction(
+      `role-${user.address}`,
+      `Revoked ${formatRole(roleName)} from ${user.name || formatAddress(user.address)}`,
+      (factory) => factory.revokeRole(user.address, roleHash(roleName))
+    );
+  };
+
+  const handleReviewRequest = (request: VerificationRequestItem, approved: boolean) => {
+    const reason = (rejectReasons[request.id] || '').trim();
+    if (!approved && !reason) {
+      setError('Please give a reason for rejecting the request');
+      return;
+    }
+    runAdminAction(
+      `review-${request.id}`,
+      `Verification request #${request.id} ${approved ? 'approved' : 'rejected'}`,
+      (factory) => factory.reviewVerification(request.id, approved, approved ? '' : reason)
+    );
+  };
+
+  const handleReviewRoleRequest = (request: RoleRequestItem, approved: boolean) => {
+    const reason = (roleRejectReasons[request.id] || '').trim();
+    if (!approved && !reason) {
+      setError('Please give a reason for rejecting the request');
+      return;
+    }
+    runAdminAction(
+      `role-review-${request.id}`,
+      `${formatRole(request.role)} request from ${request.name || formatAddress(request.user)} ${approved ? 'approved' : 'rejected'}`,
+      (factory) => factory.reviewRoleRequest(request.id, approved, approved ? '' : reason)
+    );
+  };
+
+  const pendingRoleRequests = roleRequests.filter(request => request.status === 'Pending');
+
+  const pendingRequests = requests.filter(request => request.status === 'Pending');
+  const reviewedRequests = requests.filter(request => request.status !== 'Pending');
+
+  const filteredUsers = users.filter(user => filter === 'all' || !user.verified);
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <svg className="h-16 w-16 text-blue-600 mx-auto mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Wallet Not Connected</h2>
+          <p className="text-gray-600 mb-8">Please connect your wallet to access the admin console.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Access Restricted</h2>
+          <p className="text-gray-600">The admin console is only available to the platform admin.</p>
+          {error && <p className="text-red-600 mt-4">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-blue-900">Admin Console</h1>
+        <p className="text-gray-600 mt-2">Review registered users, manage roles and verification</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-red-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-green-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <p>{success}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Verification queue */}
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h2 className="text-xl font-semibold text-blue-900 mb-4">Verification Queue ({pendingRequests.length})</h2>
+        {pendingRequests.length > 0 ? (
+          <div className="space-y-4">
+            {pendingRequests.map((request) => (
+              <div key={request.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <p className="font-medium text-gray-900">#{request.id} &middot; {request.name || 'Unnamed user'}</p>
+                    <p className="text-sm text-gray-500" title={request.user}>{formatAddress(request.user)} &middot; submitted {request.requestedAt}</p>
+                  </div>
+                </div>
+                {request.submission?.note && (
+                  <p className="text-sm text-gray-700 mb-2">{request.submission.note}</p>
+                )}
+                <div className="flex flex-wrap gap-3 mb-4">
+                  {request.submission?.documents && request.submission.documents.length > 0 ? (
+                    request.submission.documents.map((document, index) => (
+                      <a
+                        key={`${document.uri}-${index}`}
+                        href={ipfsToGatewayUrl(document.uri)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:text-blue-900 underline"
+                      >
+                        {document.name}
+                      </a>
+                    ))
+                  ) : (
+                    <a
+                      href={ipfsToGatewayUrl(request.documentsURI)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:text-blue-900 underline"
+                    >
+                      View documents
+                    </a>
+                  )}
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <input
+                    type="text"
+                    value={rejectReasons[request.id] || ''}
+                    onChange={(e) => setRejectReasons({ ...rejectReasons, [request.id]: e.target.value })}
+                    placeholder="Reason (required to reject)"
+                    className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={() => handleReviewRequest(request, true)}
+                    disabled={pendingAction !== null}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-medium py-1 px-4 rounded-lg text-sm"
+                  >
+                    {pendingAction === `review-${request.id}` ? 'Saving...' : 'Approve'}
+                  </button>
+                  <button
+                    onClick={() => handleReviewRequest(request, false)}
+                    disabled={pendingAction !== null}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-medium py-1 px-4 rounded-lg text-sm"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">No pending verification requests.</p>
+        )}
+
+        {reviewedRequests.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Review History</h3>
+            <ul className="divide-y divide-gray-200 text-sm">
+              {reviewedRequests.map((request) => (
+                <li key={request.id} className="py-2 flex flex-wrap justify-between gap-2">
+                  <span>
+                    #{request.id} &middot; {request.name || formatAddress(request.user)}
+                    {request.reason && <span className="text-gray-500"> &middot; {request.reason}</span>}
+                  </span>
+                  <span className={request.status === 'Approved' ? 'text-green-700' : 'text-red-700'}>
+                    {request.status} {request.decidedAt}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Role request queue */}
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h2 className="text-xl font-semibold text-blue-900 mb-4">Role Requests ({pendingRoleRequests.length})</h2>
+        {pendingRoleRequests.length > 0 ? (
+          <div className="space-y-4">
+            {pendingRoleRequests.map((request) => (
+              <div key={request.id} className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">
+                    {request.name || 'Unnamed user'} requests <span className="text-blue-800">{formatRole(request.role)}</span>
+                  </p>
+                  <p className="text-sm text-gray-500" title={request.user}>{formatAddress(request.user)} &middot; submitted {request.requestedAt}</p>
+                </div>
+                <input
+                  type="text"
+                  value={roleRejectReasons[request.id] || ''}
+                  onChange={(e) => setRoleRejectReasons({ ...roleRejectReasons, [request.id]: e.target.value })}
+                  placeholder="Reason (required to reject)"
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={() => handleReviewRoleRequest(request, true)}
+                  disabled={pendingAction !== null}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-medium py-1 px-4 rounded-lg text-sm"
+                >
+                  {pendingAction === `role-review-${request.id}` ? 'Saving...' : 'Approve'}
+                </button>
+                <button
+                  onClick={() => handleReviewRoleRequest(request, false)}
+                  disabled={pendingAction !== null}
+                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-medium py-1 px-4 rounded-lg text-sm"
+                >
+                  Reject
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">No pending role requests.</p>
+        )}
+      </div>
+
+      {/* Filter tabs */}
+      <div className="flex flex-wrap gap-2 pb-4 border-b border-gray-200">
+        {['all', 'unverified'].map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setFilter(tab)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize ${
+              filter === tab
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {tab} ({tab === 'all' ? users.length : users.filter(user => !user.verified).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Roles</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredUsers.length > 0 ? (
+                filteredUsers.map((user) => {
+                  const availableRoles = ROLE_NAMES.filter(role => !user.roles.includes(role));
+                  const isBusy = pendingAction !== null;
+                  return (
+                    <tr key={user.address} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{user.name || 'Unnamed user'}</div>
+                        <div className="text-sm text-gray-500" title={user.address}>{formatAddress(user.address)}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-2">
+                          {user.roles.length > 0 ? user.roles.map((role) => (
+                            <span key={role} className="inline-flex items-center px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                              {formatRole(role)}
+                              <button
+                                onClick={() => handleRevokeRole(user, role)}
+                                disabled={isBusy}
+                                title={`Revoke ${formatRole(role)}`}
+                                className="ml-1 text-blue-500 hover:text-red-600 disabled:opacity-50"
+                              >
+                                &times;
+                              </button>
+                            </span>
+                          )) : (
+                            <span className="text-sm text-gray-400">No roles</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.verified ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                          {user.verified ? 'Verified' : 'Unverified'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => handleToggleVerification(user)}
+                            disabled={isBusy}
+                            className={`font-medium py-1 px-3 rounded-lg disabled:opacity-50 ${user.verified ? 'bg-yellow-100 hover:bg-yellow-200 text-yellow-800' : 'bg-green-600 hover:bg-green-700 text-white'}`}
+                          >
+                            {pendingAction === `verify-${user.address}` ? 'Saving...' : user.verified ? 'Unverify' : 'Verify'}
+                          </button>
+                          {availableRoles.length > 0 && (
+                            <>
+                              <select
+                                value={roleSelections[user.address] || ''}
+                                onChange={(e) => setRoleSelections({ ...roleSelections, [user.address]: e.target.value })}
+                                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                              >
+                                <option value="">Add role...</option>
+                                {availableRoles.map((role) => (
+                                  <option key={role} value={role}>{formatRole(role)}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => handleAddRole(user)}
+                                disabled={isBusy || !roleSelections[user.address]}
+                                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium py-1 px-3 rounded-lg"
+                              >
+                                {pendingAction === `role-${user.address}` ? 'Saving...' : 'Grant'}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                    No users found.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ContractRow,
+  EventRow,
+  badRequest,
+  getIndexerDb,
+  indexerUnavailable,
+  parseId,
+  serializeContract,
+  serializeEvent
+} from '../../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/contracts/:id returns the indexed contract with its event history
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const db = getIndexerDb();
+  if (!db) return indexerUnavailable();
+
+  const id = parseId((await params).id);
+  if (id === null) return badRequest('Invalid contract id');
+
+  const row = db.prepare('SELECT * FROM contracts WHERE id = ?').get(id) as ContractRow | undefined;
+  if (!row) return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+
+  const events = db
+    .prepare('SELECT * FROM events WHERE contract_id = ? ORDER BY block_number, log_index')
+    .all(row.id) as EventRow[];
+
+  return NextResponse.json({ ...serializeContract(row), events: events.map(serializeEvent) });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContractState } from '../../../utils/contracts';
+import {
+  ContractRow,
+  badRequest,
+  getIndexerDb,
+  indexerUnavailable,
+  parseAddress,
+  parsePagination,
+  serializeContract
+} from '../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// Accepts YYYY-MM-DD or a unix timestamp in seconds
+const parseDate = (value: string | null): number | null => {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value);
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+};
+
+// GET /api/contracts?party=0x…&athlete=0x…&sponsor=0x…&agent=0x…&status=Active&from=2025-01-01&to=2025-12-31&page=1&pageSize=20
+export async function GET(request: NextRequest) {
+  const db = getIndexerDb();
+  if (!db) return indexerUnavailable();
+
+  const params = request.nextUrl.searchParams;
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  for (const key of ['party', 'athlete', 'sponsor', 'agent'] as const) {
+    if (!params.has(key)) continue;
+    const address = parseAddress(params.get(key));
+    if (!address) return badRequest(`Invalid ${key} address`);
+    if (key === 'party') {
+      conditions.push('(athlete = ? OR sponsor = ?)');
+      values.push(address, address);
+    } else {
+      conditions.push(`${key} = ?`);
+      values.push(address);
+    }
+  }
+
+  const status = params.get('status');
+  if (status) {
+    const state = Object.entries(ContractState).find(
+      ([name, value]) => typeof value === 'number' && name.toLowerCase() === status.toLowerCase()
+    );
+    if (!state) return badRequest(`Unknown status ${status}`);
+    conditions.push('state = ?');
+    values.push(state[1] as number);
+  }
+
+  // Date filters select contracts whose term overlaps the requested range
+  const from = parseDate(params.get('from'));
+  const to = parseDate(params.get('to'));
+  if (params.has('from') && from === null) return badRequest('Invalid from date');
+  if (params.has('to') && to === null) return badRequest('Invalid to date');
+  if (from !== null) {
+    conditions.push('end_date >= ?');
+    values.push(from);
+  }
+  if (to !== null) {
+    conditions.push('start_date <= ?');
+    values.push(to);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { page, pageSize, offset } = parsePagination(params);
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM contracts ${where}`).get(...values) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM contracts ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...values, pageSize, offset) as ContractRow[];
+
+  return NextResponse.json({ items: rows.map(serializeContract), page, pageSize, total });
+}
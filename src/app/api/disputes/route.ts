@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DisputeRow,
+  badRequest,
+  getIndexerDb,
+  indexerUnavailable,
+  parseAddress,
+  parseId,
+  parsePagination,
+  serializeDispute
+} from '../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/disputes?party=0x…&contractId=1&resolved=false&page=1&pageSize=20
+export async function GET(request: NextRequest) {
+  const db = getIndexerDb();
+  if (!db) return indexerUnavailable();
+
+  const params = request.nextUrl.searchParams;
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (params.has('party')) {
+    const party = parseAddress(params.get('party'));
+    if (!party) return badRequest('Invalid party address');
+    conditions.push('contract_id IN (SELECT id FROM contracts WHERE athlete = ? OR sponsor = ?)');
+    values.push(party, party);
+  }
+
+  if (params.has('contractId')) {
+    const contractId = parseId(params.get('contractId'));
+    if (contractId === null) return badRequest('Invalid contract id');
+    conditions.push('contract_id = ?');
+    values.push(contractId);
+  }
+
+  const resolved = params.get('resolved');
+  if (resolved === 'true' || resolved === 'false') {
+    conditions.push('resolved = ?');
+    values.push(resolved === 'true' ? 1 : 0);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { page, pageSize, offset } = parsePagination(params);
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM disputes ${where}`).get(...values) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM disputes ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...values, pageSize, offset) as DisputeRow[];
+
+  return NextResponse.json({ items: rows.map(serializeDispute), page, pageSize, total });
+}
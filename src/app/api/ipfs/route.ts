@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { badRequest } from '../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// Any node or pinning service speaking the Kubo RPC API, e.g. http://127.0.0.1:5001 for a local IPFS daemon
+const IPFS_API_URL = process.env.IPFS_API_URL;
+// Sent as the Authorization header when the service needs one, e.g. "Basic <base64 key:secret>"
+const IPFS_API_AUTH = process.env.IPFS_API_AUTH;
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// POST /api/ipfs with a multipart `file` field pins the file and returns its ipfs:// URI
+export async function POST(request: NextRequest) {
+  if (!IPFS_API_URL) {
+    return NextResponse.json({ error: 'IPFS pinning is not configured. Set IPFS_API_URL first.' }, { status: 503 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof Blob)) return badRequest('Missing file');
+  if (file.size > MAX_FILE_SIZE) return badRequest('File is larger than 20 MB');
+
+  const body = new FormData();
+  body.append('file', file, file instanceof File ? file.name : 'document');
+
+  try {
+    const response = await fetch(`${IPFS_API_URL.replace(/\/$/, '')}/api/v0/add?pin=true&cid-version=1`, {
+      method: 'POST',
+      headers: IPFS_API_AUTH ? { Authorization: IPFS_API_AUTH } : undefined,
+      body
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${await response.text()}`);
+    }
+    const { Hash } = (await response.json()) as { Hash: string };
+    return NextResponse.json({ uri: `ipfs://${Hash}` });
+  } catch (error) {
+    console.error('IPFS pinning failed:', error);
+    return NextResponse.json({ error: 'IPFS pinning failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  NFTRow,
+  badRequest,
+  getIndexerDb,
+  indexerUnavailable,
+  parseAddress,
+  parseId,
+  parsePagination,
+  serializeNFT
+} from '../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/nfts?owner=0x…&contractId=1&page=1&pageSize=20
+export async function GET(request: NextRequest) {
+  const db = getIndexerDb();
+  if (!db) return indexerUnavailable();
+
+  const params = request.nextUrl.searchParams;
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (params.has('owner')) {
+    const owner = parseAddress(params.get('owner'));
+    if (!owner) return badRequest('Invalid owner address');
+    conditions.push('owner = ?');
+    values.push(owner);
+  }
+
+  if (params.has('contractId')) {
+    const contractId = parseId(params.get('contractId'));
+    if (contractId === null) return badRequest('Invalid contract id');
+    conditions.push('contract_id = ?');
+    values.push(contractId);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { page, pageSize, offset } = parsePagination(params);
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM nfts ${where}`).get(...values) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM nfts ${where} ORDER BY token_id DESC LIMIT ? OFFSET ?`)
+    .all(...values, pageSize, offset) as NFTRow[];
+
+  return NextResponse.json({ items: rows.map(serializeNFT), page, pageSize, total });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getIndexerDb, indexerUnavailable } from '../../../utils/indexer-db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/status reports how far the indexer has progressed
+export async function GET() {
+  const db = getIndexerDb();
+  if (!db) return indexerUnavailable();
+
+  const cursor = db.prepare("SELECT value FROM meta WHERE key = 'lastBlock'").get() as { value: string } | undefined;
+  const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS total FROM ${table}`).get() as { total: number }).total;
+
+  return NextResponse.json({
+    lastBlock: cursor ? Number(cursor.value) : null,
+    events: count('events'),
+    contracts: count('contracts'),
+    disputes: count('disputes'),
+    nfts: count('nfts')
+  });
+}
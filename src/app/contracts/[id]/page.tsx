@@ -1,17 +1,71 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
+import { Fragment, useEffect, useState, useRef } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { ethers } from "ethers";
 import { useWeb3 } from "../../../context/Web3Context";
-import contractAddresses from "../../../contract-addresses.json";
-import athleteContractAbi from "../../../artifacts/contracts/AthleteContract.sol/AthleteContract.json";
+import {
+  getFactoryContract,
+  getAthleteContract,
+  getSponsorshipNFTContract,
+  getDisputeResolutionContract,
+  getPerformanceOracleContract,
+  getTokenContract,
+  getContractDetails,
+  getMilestones,
+  getMilestoneHistory,
+  getEscrowDetails,
+  getAgentDetails,
+  getLatePolicy,
+  getStipendDetails,
+  getBonusConditions,
+  getSettlementPreview,
+  getSettlement,
+  getCompletion,
+  getTermsConsent,
+  getTermsDocument,
+  buildTermsDocument,
+  getDocumentHash,
+  describeProRata,
+  getDeadlineStatus,
+  getSubmissionCutoff,
+  describeLatePolicy,
+  ensureAllowance,
+  contractStateToString,
+  milestoneStatusToString,
+  formatAmount,
+  formatBps,
+  formatDuration,
+  isNativePayment,
+  LatePolicy,
+  StipendMode,
+  ContractState,
+  MilestoneStatus,
+  PRO_RATA_BY_TIME,
+  ContractDetails,
+  EscrowDetails,
+  AgentDetails,
+  LatePolicyDetails,
+  StipendDetails,
+  BonusCondition,
+  SettlementPreview,
+  SettlementRecord,
+  CompletionRecord,
+  TermsConsent,
+  MilestoneHistoryEntry,
+  getErrorMessage
+} from "../../../utils/contracts";
 import Link from "next/link";
+import { uploadToIPFS, ipfsToGatewayUrl, toJSONDataURI } from "../../../utils/ipfs";
+import { buildCompletionCertificate } from "../../../utils/certificate";
+import DisputeDialog from "../../../components/DisputeDialog";
+import SettlementStatement from "../../../components/SettlementStatement";
+import MutualTerminationPanel from "../../../components/MutualTerminationPanel";
 
 export default function ContractDetailsPage() {
   const router = useRouter();
   const params = useParams();
-  const { provider, isConnected, account } = useWeb3();
+  const { provider, isConnected, account, chainId, subscribeToContractEvents } = useWeb3();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [contract, setContract] = useState<{
@@ -25,37 +79,64 @@ export default function ContractDetailsPage() {
     endDate: string;
     contractHash: string;
     paymentToken: string;
-    raw: unknown;
+    raw: ContractDetails;
   } | null>(null);
   const [milestones, setMilestones] = useState<{
     description: string;
     amount: string;
+    amountWei: ethers.BigNumber;
     deadline: string;
-    status: number | string;
+    deadlineAt: number;
+    status: number;
     evidence: string;
     paid: boolean;
+    submissions: number;
+    reviewDeadline: number;
   }[]>([]);
+  const [reviewPeriodDays, setReviewPeriodDays] = useState(0);
+  const [latePolicy, setLatePolicy] = useState<LatePolicyDetails | null>(null);
+  // Current unix time, ticking so review window countdowns stay live
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [milestoneHistory, setMilestoneHistory] = useState<Record<number, MilestoneHistoryEntry[]>>({});
+  const [maxSubmissions, setMaxSubmissions] = useState(0);
+  const [rejectReasons, setRejectReasons] = useState<Record<number, string>>({});
   const [actionLoading, setActionLoading] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
+  const [evidenceFiles, setEvidenceFiles] = useState<Record<number, File | null>>({});
+  const [milestoneActionIndex, setMilestoneActionIndex] = useState<number | null>(null);
+  const [escrow, setEscrow] = useState<EscrowDetails | null>(null);
+  const [agent, setAgent] = useState<AgentDetails | null>(null);
+  const [stipend, setStipend] = useState<StipendDetails | null>(null);
+  const [bonusConditions, setBonusConditions] = useState<Record<number, BonusCondition>>({});
+  const [settlementPreview, setSettlementPreview] = useState<SettlementPreview | null>(null);
+  const [settlement, setSettlement] = useState<SettlementRecord | null>(null);
+  const [completion, setCompletion] = useState<CompletionRecord | null>(null);
+  const [termsConsent, setTermsConsent] = useState<TermsConsent | null>(null);
+  const [declineTermsReason, setDeclineTermsReason] = useState("");
+  const [agentForm, setAgentForm] = useState({ address: "", commission: "" });
+  const [nftTokenId, setNftTokenId] = useState<number>(0);
+  const [disputeId, setDisputeId] = useState<number | null>(null);
+  const [showDisputeDialog, setShowDisputeDialog] = useState(false);
   const fetchInProgress = useRef(false);
   const lastFetchedContractId = useRef<string | null>(null);
 
   // Parse contractId as string for contract calls
   const contractId = params?.id && !isNaN(Number(params.id)) ? params.id.toString() : null;
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   // Helper functions
-  const contractStateToString = (state: number) => {
-    const states = ["Draft", "Active", "Completed", "Disputed", "Terminated"];
-    return states[state] || "Unknown";
-  };
   const timestampToDate = (timestamp: ethers.BigNumber) => {
     if (!timestamp) return "";
     const date = new Date(timestamp.toNumber() * 1000);
     return date.toISOString().split("T")[0];
   };
 
-  // Fetch contract details
-  const fetchContract = async () => {
+  // Fetch contract details (force re-fetches the same contract after an action or event)
+  const fetchContract = async (force = false) => {
     if (fetchInProgress.current) return;
     fetchInProgress.current = true;
     if (!provider || !isConnected || contractId === null) {
@@ -65,29 +146,24 @@ export default function ContractDetailsPage() {
       return;
     }
     // Only fetch if contractId changed
-    if (lastFetchedContractId.current === contractId) {
+    if (!force && lastFetchedContractId.current === contractId) {
       fetchInProgress.current = false;
       return;
     }
     lastFetchedContractId.current = contractId;
-    setLoading(true);
+    if (!force) setLoading(true);
     setError(null);
     try {
       if (!provider) throw new Error("Provider not available");
       const signer = provider.getSigner();
-      const athleteContract = new ethers.Contract(
-        contractAddresses.athleteContractAddress,
-        athleteContractAbi.abi,
-        signer
-      );
+      const athleteContract = getAthleteContract(signer);
       console.log('Fetching contract details', { contractId, provider, isConnected });
-      const details = await athleteContract.getContractDetails(contractId);
-      const valueFormatted = ethers.utils.formatEther(details.totalValue);
+      const details = await getContractDetails(athleteContract, contractId);
       setContract({
         id: contractId,
         athlete: details.athlete,
         sponsor: details.sponsor,
-        value: `${valueFormatted} ${details.paymentToken === ethers.constants.AddressZero ? "ETH" : "Tokens"}`,
+        value: formatAmount(details.totalValue, details.paymentToken),
         status: contractStateToString(details.state),
         stateNum: details.state,
         startDate: timestampToDate(details.startDate),
@@ -97,22 +173,55 @@ export default function ContractDetailsPage() {
         raw: details,
       });
       // Fetch milestones
-      const milestonesCount = await athleteContract.getMilestonesCount(contractId);
-      const ms = [];
-      for (let i = 0; i < milestonesCount; i++) {
-        const m = await athleteContract.getMilestoneDetails(contractId, i);
-        ms.push({
-          description: m[0],
-          amount: ethers.utils.formatEther(m[1]),
-          deadline: timestampToDate(m[2]),
-          status: m[3],
-          evidence: m[4],
-          paid: m[5],
-        });
-      }
+      const ms = (await getMilestones(athleteContract, contractId)).map(m => ({
+        description: m.description,
+        amount: formatAmount(m.amount, details.paymentToken),
+        amountWei: m.amount,
+        deadline: timestampToDate(m.deadline),
+        deadlineAt: m.deadline.toNumber(),
+        status: m.status,
+        evidence: m.evidence,
+        paid: m.paid,
+        submissions: m.submissions,
+        reviewDeadline: m.reviewDeadline,
+      }));
       setMilestones(ms);
+      setMilestoneHistory(await getMilestoneHistory(athleteContract, contractId));
+      setMaxSubmissions((await athleteContract.MAX_MILESTONE_SUBMISSIONS()).toNumber());
+      setReviewPeriodDays((await athleteContract.reviewPeriod(contractId)).toNumber() / 86400);
+      setLatePolicy(await getLatePolicy(athleteContract, contractId));
+      setEscrow(await getEscrowDetails(athleteContract, contractId));
+      setStipend(await getStipendDetails(athleteContract, contractId));
+      setBonusConditions(await getBonusConditions(getPerformanceOracleContract(signer), contractId));
+      // While a dispute is open, show what a ruling for the sponsor would pay out; while active, the same
+      // figure is a reference point for negotiating a mutual termination
+      setSettlementPreview(details.state === ContractState.Disputed || details.state === ContractState.Active
+        ? await getSettlementPreview(athleteContract, contractId)
+        : null);
+      setSettlement(await getSettlement(athleteContract, contractId));
+      setTermsConsent(details.state === ContractState.Draft ? await getTermsConsent(athleteContract, getPerformanceOracleContract(signer), contractId, details) : null);
+      setCompletion(details.state === ContractState.Completed ? await getCompletion(athleteContract, contractId) : null);
+      const agentDetails = await getAgentDetails(athleteContract, contractId);
+      setAgent(agentDetails);
+      if (agentDetails.agent !== ethers.constants.AddressZero) {
+        setAgentForm({ address: agentDetails.agent, commission: String(agentDetails.commissionBps / 100) });
+      }
+      // Token IDs start at 1, so 0 means the deal hasn't been tokenized yet
+      const nft = getSponsorshipNFTContract(signer);
+      const tokenId = await nft.tokenIdOf(contractId);
+      setNftTokenId(tokenId.toNumber());
+      // disputeIdOf defaults to 0, so confirm the dispute actually belongs to this contract
+      const disputeResolution = getDisputeResolutionContract(signer);
+      const disputeCount = await disputeResolution.disputeCount();
+      if (disputeCount.gt(0)) {
+        const latestDisputeId = await disputeResolution.getDisputeId(contractId);
+        const disputeDetails = await disputeResolution.getDisputeDetails(latestDisputeId);
+        setDisputeId(disputeDetails.contractId.eq(contractId) ? latestDisputeId.toNumber() : null);
+      } else {
+        setDisputeId(null);
+      }
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : (typeof err === 'object' && err !== null && 'reason' in err ? String((err as { reason: unknown }).reason) : String(err));
+      const errorMsg = getErrorMessage(err);
       setError(`Contract not found or error fetching details.\nError: ${errorMsg}\nprovider: ${!!provider}, isConnected: ${isConnected}, contractId: ${contractId}`);
       console.error('Error fetching contract details:', err);
     } finally {
@@ -137,49 +246,313 @@ export default function ContractDetailsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [provider, isConnected, contractId]);
 
+  // Keep the page live while it is open, whoever acts on the contract
+  useEffect(() => {
+    if (contractId === null) return;
+    return subscribeToContractEvents(() => {
+      fetchContract(true);
+    }, contractId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscribeToContractEvents, provider, contractId]);
+
   // Action handlers
   const handleActivate = async () => {
     setActionLoading(true);
     setActionError(null);
     try {
-      if (!provider) throw new Error("Provider not available");
+      if (!provider || !contract) throw new Error("Provider not available");
       const signer = provider.getSigner();
-      const athleteContract = new ethers.Contract(
-        contractAddresses.athleteContractAddress,
-        athleteContractAbi.abi,
-        signer
-      );
-      const tx = await athleteContract.activateContract(contractId);
+      const athleteContract = getAthleteContract(signer);
+      // A sponsor activating deposits whatever escrow is still missing in the same transaction
+      const sponsorActivating = account?.toLowerCase() === contract.sponsor.toLowerCase();
+      const shortfall = sponsorActivating && escrow ? escrow.shortfall : ethers.constants.Zero;
+      if (shortfall.gt(0) && !isNativePayment(contract.paymentToken)) {
+        const token = getTokenContract(contract.paymentToken, signer);
+        const sponsorAddress = await signer.getAddress();
+        if ((await token.balanceOf(sponsorAddress)).lt(shortfall)) {
+          throw new Error(`Insufficient balance to deposit ${formatAmount(shortfall, contract.paymentToken)} into escrow`);
+        }
+        await ensureAllowance(token, sponsorAddress, athleteContract.address, shortfall);
+      }
+      const overrides = shortfall.gt(0) && isNativePayment(contract.paymentToken) ? { value: shortfall } : {};
+      const tx = await athleteContract.activateContract(contract.id, overrides);
       await tx.wait();
-      await fetchContract();
+      await fetchContract(true);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : (typeof err === 'object' && err !== null && 'reason' in err ? String((err as { reason: unknown }).reason) : String(err));
+      const errorMsg = getErrorMessage(err);
       setActionError("Failed to activate contract: " + errorMsg);
     } finally {
       setActionLoading(false);
     }
   };
-  const handleDispute = async () => {
+  const handleAcceptTerms = async () => {
     setActionLoading(true);
     setActionError(null);
     try {
-      if (!provider) throw new Error("Provider not available");
+      if (!provider || !contract || !termsConsent) throw new Error("Provider not available");
+      const tx = await getAthleteContract(provider.getSigner()).acceptTerms(contract.id, termsConsent.documentHash);
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to accept terms: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+  // Replace the contract document with one spelling out the terms now set on the draft, which clears both acceptances
+  const handleReissueDocument = async () => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      const terms = await getTermsDocument(athleteContract, getPerformanceOracleContract(signer), contract.id, contract.raw);
+      const tx = await athleteContract.updateContract(contract.id, buildTermsDocument(terms));
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to reissue the contract document: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+  const handleDeclineTerms = async () => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const tx = await getAthleteContract(provider.getSigner()).declineTerms(contract.id, declineTermsReason.trim());
+      await tx.wait();
+      setDeclineTermsReason("");
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to decline terms: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+  const handleAssignAgent = async (clear = false) => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const agentAddress = clear ? ethers.constants.AddressZero : agentForm.address.trim();
+      if (!ethers.utils.isAddress(agentAddress)) throw new Error("Invalid agent address format");
+      const commission = clear ? 0 : Number(agentForm.commission);
+      if (isNaN(commission) || commission < 0) throw new Error("Commission must be a positive percentage");
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      const tx = await factory.assignAgent(contract.id, agentAddress, Math.round(commission * 100));
+      await tx.wait();
+      if (clear) setAgentForm({ address: "", commission: "" });
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to update agent: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+  const handleDisputeFiled = (newDisputeId: number) => {
+    setShowDisputeDialog(false);
+    router.push(`/disputes/${newDisputeId}`);
+  };
+  const handleCompleteMilestone = async (index: number) => {
+    setMilestoneActionIndex(index);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const evidenceFile = evidenceFiles[index];
+      if (!evidenceFile) throw new Error("Attach evidence before marking the milestone complete");
+      const evidenceURI = await uploadToIPFS(evidenceFile);
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      const tx = await athleteContract.completeMilestone(contract.id, index, evidenceURI);
+      await tx.wait();
+      setEvidenceFiles(prev => ({ ...prev, [index]: null }));
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to complete milestone ${index + 1}: ` + errorMsg);
+    } finally {
+      setMilestoneActionIndex(null);
+    }
+  };
+  const handleReleasePayment = async (index: number) => {
+    setMilestoneActionIndex(index);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      // Milestone payments come out of the escrow deposited at activation
+      const tx = await athleteContract.releaseMilestonePayment(contract.id, index);
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to release payment for milestone ${index + 1}: ` + errorMsg);
+    } finally {
+      setMilestoneActionIndex(null);
+    }
+  };
+  const handleClaimPayment = async (index: number) => {
+    setMilestoneActionIndex(index);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      const tx = await athleteContract.claimMilestonePayment(contract.id, index);
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to claim payment for milestone ${index + 1}: ` + errorMsg);
+    } finally {
+      setMilestoneActionIndex(null);
+    }
+  };
+  const handleRejectMilestone = async (index: number) => {
+    setMilestoneActionIndex(index);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const reason = rejectReasons[index]?.trim();
+      if (!reason) throw new Error("A reason is required to reject a milestone");
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      const tx = await athleteContract.rejectMilestone(contract.id, index, reason);
+      await tx.wait();
+      setRejectReasons(prev => ({ ...prev, [index]: "" }));
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to reject milestone ${index + 1}: ` + errorMsg);
+    } finally {
+      setMilestoneActionIndex(null);
+    }
+  };
+  const handleWithdrawStipend = async () => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
       const signer = provider.getSigner();
-      const athleteContract = new ethers.Contract(
-        contractAddresses.athleteContractAddress,
-        athleteContractAbi.abi,
-        signer
-      );
-      const tx = await athleteContract.raiseDispute(contractId, "Dispute raised from UI");
+      const athleteContract = getAthleteContract(signer);
+      const tx = await athleteContract.withdrawStipend(contract.id);
       await tx.wait();
-      await fetchContract();
+      await fetchContract(true);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : (typeof err === 'object' && err !== null && 'reason' in err ? String((err as { reason: unknown }).reason) : String(err));
-      setActionError("Failed to raise dispute: " + errorMsg);
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to withdraw stipend: " + errorMsg);
     } finally {
       setActionLoading(false);
     }
   };
+  const handleForfeitMilestone = async (index: number) => {
+    setMilestoneActionIndex(index);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const athleteContract = getAthleteContract(signer);
+      // The milestone's amount is refunded from escrow to the sponsor
+      const tx = await athleteContract.forfeitMilestone(contract.id, index);
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to forfeit milestone ${index + 1}: ` + errorMsg);
+    } finally {
+      setMilestoneActionIndex(null);
+    }
+  };
+  // Deal token metadata with the given status, stored inline so the token stays readable without an IPFS pin
+  const buildTokenURI = (status: string) => {
+    if (!contract) return "";
+    const metadata = {
+      name: `AthleteChain Sponsorship #${contract.id}`,
+      description: `Tokenized sponsorship deal between athlete ${contract.athlete} and sponsor ${contract.sponsor}.`,
+      external_url: `${window.location.origin}/contracts/${contract.id}`,
+      attributes: [
+        { trait_type: "Contract ID", value: Number(contract.id) },
+        { trait_type: "Athlete", value: contract.athlete },
+        { trait_type: "Sponsor", value: contract.sponsor },
+        { trait_type: "Value", value: contract.value },
+        { trait_type: "Start Date", value: contract.startDate },
+        { trait_type: "End Date", value: contract.endDate },
+        { trait_type: "Contract Document", value: getDocumentHash(contract.contractHash) },
+        { trait_type: "Status", value: status },
+        ...(completion ? [{ trait_type: "Completed On", value: new Date(completion.completedAt * 1000).toISOString().split("T")[0] }] : []),
+      ],
+    };
+    return toJSONDataURI(metadata);
+  };
+
+  const handleTokenize = async () => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      // The token switches to the completed metadata by itself once the contract completes
+      const tx = await factory.mintContractNFT(contract.id, buildTokenURI(contract.status), buildTokenURI(contractStateToString(ContractState.Completed)));
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to tokenize contract: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleCompleteContract = async () => {
+    setActionLoading(true);
+    setActionError(null);
+    try {
+      if (!provider || !contract) throw new Error("Provider not available");
+      const tx = await getAthleteContract(provider.getSigner()).completeContract(contract.id);
+      await tx.wait();
+      await fetchContract(true);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError("Failed to complete contract: " + errorMsg);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDownloadCertificate = () => {
+    if (!contract || !completion || !provider) return;
+    const certificate = buildCompletionCertificate({
+      contractId: contract.id,
+      athlete: contract.athlete,
+      sponsor: contract.sponsor,
+      value: contract.value,
+      startDate: contract.startDate,
+      endDate: contract.endDate,
+      documentHash: getDocumentHash(contract.contractHash),
+      completedAt: completion.completedAt,
+      transactionHash: completion.transactionHash,
+      athletePaid: formatAmount(completion.athletePaid, contract.paymentToken),
+      sponsorRefunded: formatAmount(completion.sponsorRefunded, contract.paymentToken),
+      chainId,
+      athleteContractAddress: getAthleteContract(provider).address,
+    });
+    const url = URL.createObjectURL(new Blob([certificate], { type: "image/svg+xml" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `athletechain-certificate-${contract.id}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
   // Add more handlers for other state changes as needed
 
   // Show wallet not connected message
@@ -221,10 +594,43 @@ export default function ContractDetailsPage() {
   // Determine user role
   const isAthlete = account && contract.athlete && account.toLowerCase() === contract.athlete.toLowerCase();
   const isSponsor = account && contract.sponsor && account.toLowerCase() === contract.sponsor.toLowerCase();
+  const hasAgent = !!agent && agent.agent !== ethers.constants.AddressZero;
+  const isAgent = hasAgent && !!account && account.toLowerCase() === agent.agent.toLowerCase();
+  // The athlete picks their agent while the terms are still a draft
+  const canEditAgent = isAthlete && contract.stateNum === ContractState.Draft;
 
   // Show action buttons based on state and role
-  const showActivate = contract.status === "Draft" && (isAthlete || isSponsor);
-  const showDispute = contract.status === "Active" && (isAthlete || isSponsor);
+  const showActivate = contract.stateNum === ContractState.Draft && (isAthlete || isSponsor);
+  // Either party can activate, but only once both have accepted the current terms
+  const bothAccepted = !!termsConsent && termsConsent.athleteAccepted && termsConsent.sponsorAccepted;
+  const hasAcceptedTerms = !!termsConsent && (isAthlete ? termsConsent.athleteAccepted : termsConsent.sponsorAccepted);
+  // Only the sponsor can cover an escrow shortfall, so the athlete has to wait for it
+  const hasShortfall = !!escrow && escrow.shortfall.gt(0);
+  const showDispute = contract.stateNum === ContractState.Active && (isAthlete || isSponsor);
+  const isActive = contract.stateNum === ContractState.Active;
+  // Under the Penalty policy late work is still accepted at a discount until the contract's end date
+  const acceptsLateWork = latePolicy?.policy === LatePolicy.Penalty;
+  const showTokenize = nftTokenId === 0 && (contract.stateNum === ContractState.Active || contract.stateNum === ContractState.Completed) && (isAthlete || isSponsor);
+  // Contracts complete on their own with the payment that settles them; past the end date, one whose
+  // milestones are all settled may only be waiting on the last of its stipend
+  const showComplete = isActive && (isAthlete || isSponsor) && now >= contract.raw.endDate.toNumber() &&
+    milestones.every(m => m.paid || m.status === MilestoneStatus.Forfeited);
+
+  const getMilestoneStatusColor = (status: number, paid: boolean) => {
+    if (paid) return "bg-green-100 text-green-800";
+    switch (status) {
+      case MilestoneStatus.Completed:
+        return "bg-blue-100 text-blue-800";
+      case MilestoneStatus.Disputed:
+        return "bg-red-100 text-red-800";
+      case MilestoneStatus.Rejected:
+        return "bg-orange-100 text-orange-800";
+      case MilestoneStatus.Forfeited:
+        return "bg-gray-100 text-gray-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
 
   return (
     <div className="max-w-3xl mx-auto py-10 space-y-8">
@@ -239,6 +645,16 @@ export default function ContractDetailsPage() {
         <div className="mb-4 flex flex-wrap gap-4">
           <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 text-sm font-medium border border-blue-200">{contract.status}</span>
           <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm font-medium border border-gray-200">Value: {contract.value}</span>
+          {disputeId !== null && (
+            <Link href={`/disputes/${disputeId}`} className="px-3 py-1 rounded-full bg-red-100 text-red-800 text-sm font-medium border border-red-200 hover:bg-red-200">
+              Dispute #{disputeId}
+            </Link>
+          )}
+          {nftTokenId > 0 && (
+            <Link href="/nfts" className="px-3 py-1 rounded-full bg-purple-100 text-purple-800 text-sm font-medium border border-purple-200 hover:bg-purple-200">
+              NFT #{nftTokenId}
+            </Link>
+          )}
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <div>
@@ -259,9 +675,18 @@ export default function ContractDetailsPage() {
           </div>
           <div className="md:col-span-2">
             <p className="text-sm text-gray-500">Contract Document</p>
-            {contract.contractHash ? (
+            {contract.contractHash.startsWith("data:") ? (
+              // Browsers block opening data: URLs as pages, so the inline terms document is offered as a download
+              <a
+                href={contract.contractHash}
+                download={`athletechain-terms-${contract.id}.json`}
+                className="text-blue-600 hover:underline font-medium break-all"
+              >
+                Download terms ({getDocumentHash(contract.contractHash)})
+              </a>
+            ) : contract.contractHash ? (
               <a
-                href={contract.contractHash.startsWith("ipfs://") ? `https://ipfs.io/ipfs/${contract.contractHash.replace("ipfs://", "")}` : contract.contractHash}
+                href={ipfsToGatewayUrl(contract.contractHash)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-blue-600 hover:underline font-medium break-all"
@@ -273,33 +698,323 @@ export default function ContractDetailsPage() {
             )}
           </div>
         </div>
+        {escrow && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-3">Escrow</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Held</p>
+                <p className="font-medium">{formatAmount(escrow.balance, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Deposited</p>
+                <p className="font-medium">{formatAmount(escrow.deposited, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Shortfall</p>
+                <p className={`font-medium ${hasShortfall ? "text-red-600" : "text-green-600"}`}>
+                  {formatAmount(escrow.shortfall, contract.paymentToken)}
+                </p>
+              </div>
+            </div>
+            {hasShortfall && contract.stateNum === ContractState.Draft && (
+              <div className="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+                {isSponsor
+                  ? `Activating deposits the remaining ${formatAmount(escrow.shortfall, contract.paymentToken)} into escrow.`
+                  : `The sponsor must deposit ${formatAmount(escrow.shortfall, contract.paymentToken)} into escrow before the contract can be activated.`}
+              </div>
+            )}
+          </div>
+        )}
+        {stipend && stipend.mode !== StipendMode.None && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-1">Stipend</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              {stipend.mode === StipendMode.Recurring
+                ? `${formatAmount(stipend.amount, contract.paymentToken)} every ${formatDuration(stipend.interval)} from the start date, ${stipend.periods} ${stipend.periods === 1 ? "payment" : "payments"}`
+                : `${formatAmount(stipend.amount, contract.paymentToken)} streamed continuously from ${contract.startDate} to ${contract.endDate}`}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Accrued</p>
+                <p className="font-medium">{formatAmount(stipend.accrued, contract.paymentToken)} of {formatAmount(stipend.total, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Withdrawn</p>
+                <p className="font-medium">{formatAmount(stipend.withdrawn, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Available</p>
+                <p className="font-medium text-green-600">{formatAmount(stipend.available, contract.paymentToken)}</p>
+              </div>
+            </div>
+            {isAthlete && isActive && (
+              <button
+                onClick={handleWithdrawStipend}
+                disabled={actionLoading || stipend.available.isZero()}
+                className="mt-4 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+              >
+                {actionLoading ? "Withdrawing..." : "Withdraw Stipend"}
+              </button>
+            )}
+            {contract.stateNum === ContractState.Terminated && (
+              <p className="mt-3 text-sm text-gray-500">Accrual stopped when the contract was terminated.</p>
+            )}
+          </div>
+        )}
+        {settlementPreview && contract.stateNum === ContractState.Disputed && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-1">Settlement Preview</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              If the dispute is ruled for the sponsor, the contract is terminated and the escrow is split as below as of now,
+              with {describeProRata(PRO_RATA_BY_TIME)}. Overdue, forfeited and unmet bonus milestones are refunded, as are rejected ones with no resubmissions left.
+            </p>
+            <SettlementStatement preview={settlementPreview} milestones={milestones} paymentToken={contract.paymentToken} />
+          </div>
+        )}
+        {settlement && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-1">Settlement</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Settled on {new Date(settlement.settledAt * 1000).toLocaleString()},{" "}
+              {settlement.negotiated ? "as agreed by both parties in a mutual termination" : `with ${describeProRata(settlement.proRataBps)}`}.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Paid to the athlete</p>
+                <p className="font-medium text-green-600">{formatAmount(settlement.athleteAmount, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Refunded to the sponsor</p>
+                <p className="font-medium">{formatAmount(settlement.refund, contract.paymentToken)}</p>
+              </div>
+            </div>
+          </div>
+        )}
+        {completion && (
+          <div className="mb-6 border border-green-200 bg-green-50 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-green-800 mb-1">Completed</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Every payment on this contract was settled and it was completed on {new Date(completion.completedAt * 1000).toLocaleString()}.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Paid to the athlete</p>
+                <p className="font-medium text-green-600">{formatAmount(completion.athletePaid, contract.paymentToken)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Refunded to the sponsor</p>
+                <p className="font-medium">{formatAmount(completion.sponsorRefunded, contract.paymentToken)}</p>
+              </div>
+            </div>
+            <p className="mt-3 text-xs text-gray-500 font-mono break-all">Transaction {completion.transactionHash}</p>
+            {(isAthlete || isSponsor) && (
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button
+                  onClick={handleDownloadCertificate}
+                  className="bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  Download Certificate
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+        {escrow && contract.stateNum !== ContractState.Draft && (
+          <MutualTerminationPanel
+            contractId={contractId}
+            athlete={contract.athlete}
+            sponsor={contract.sponsor}
+            paymentToken={contract.paymentToken}
+            isActive={contract.stateNum === ContractState.Active}
+            startDate={contract.raw.startDate.toNumber()}
+            endDate={contract.raw.endDate.toNumber()}
+            escrowBalance={escrow.balance}
+            proRataEstimate={settlementPreview?.athleteAmount ?? null}
+            onSettled={() => fetchContract(true)}
+          />
+        )}
+        {(hasAgent || canEditAgent) && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-3">Agent</h2>
+            {hasAgent && agent && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">Agent</p>
+                  <p className="font-mono text-sm break-all">{agent.agent}{isAgent && " (you)"}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Commission</p>
+                  <p className="font-medium">{formatBps(agent.commissionBps)} of each payment</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Commission Paid</p>
+                  <p className="font-medium">{formatAmount(agent.commissionPaid, contract.paymentToken)}</p>
+                </div>
+              </div>
+            )}
+            {canEditAgent && (
+              <div className={`flex flex-col md:flex-row gap-2 ${hasAgent ? "mt-4" : ""}`}>
+                <input
+                  type="text"
+                  value={agentForm.address}
+                  onChange={(e) => setAgentForm(prev => ({ ...prev, address: e.target.value }))}
+                  placeholder="Agent address (0x...)"
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="number"
+                  value={agentForm.commission}
+                  onChange={(e) => setAgentForm(prev => ({ ...prev, commission: e.target.value }))}
+                  placeholder="Commission %"
+                  min="0"
+                  step="0.01"
+                  className="md:w-36 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={() => handleAssignAgent()}
+                  disabled={actionLoading || !agentForm.address.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  {hasAgent ? "Change Agent" : "Assign Agent"}
+                </button>
+                {hasAgent && (
+                  <button
+                    onClick={() => handleAssignAgent(true)}
+                    disabled={actionLoading}
+                    className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 text-sm font-bold py-1 px-3 rounded-lg"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {termsConsent && (
+          <div className="mb-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-blue-900 mb-1">Terms Acceptance</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Both parties have to accept the current terms before the contract can be activated. Any change to the
+              document, payment terms or agent while this is a draft clears both acceptances.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Athlete</p>
+                <p className={`font-medium ${termsConsent.athleteAccepted ? "text-green-600" : "text-yellow-700"}`}>
+                  {termsConsent.athleteAccepted ? "Accepted" : "Awaiting acceptance"}{isAthlete && " (you)"}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Sponsor</p>
+                <p className={`font-medium ${termsConsent.sponsorAccepted ? "text-green-600" : "text-yellow-700"}`}>
+                  {termsConsent.sponsorAccepted ? "Accepted" : "Awaiting acceptance"}{isSponsor && " (you)"}
+                </p>
+              </div>
+            </div>
+            <p className="mt-3 text-xs text-gray-500 font-mono break-all">Document hash {termsConsent.documentHash}</p>
+            {!termsConsent.matchesTerms && (
+              <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                The contract document doesn&apos;t match the terms now set on this draft, so accepting it wouldn&apos;t
+                bind them. Reissue the document from the current terms before accepting.
+                {(isAthlete || isSponsor) && (
+                  <button
+                    onClick={handleReissueDocument}
+                    disabled={actionLoading}
+                    className="ml-2 bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                  >
+                    Reissue Document
+                  </button>
+                )}
+              </div>
+            )}
+            {termsConsent.decline && (
+              <p className="mt-3 text-sm text-red-600">
+                The {termsConsent.decline.party.toLowerCase() === contract.athlete.toLowerCase() ? "athlete" : "sponsor"} declined these terms
+                {termsConsent.decline.reason ? `: ${termsConsent.decline.reason}` : "."}
+              </p>
+            )}
+            {(isAthlete || isSponsor) && !hasAcceptedTerms && (
+              <div className="mt-4 flex flex-col md:flex-row gap-2">
+                <button
+                  onClick={handleAcceptTerms}
+                  disabled={actionLoading || !termsConsent.matchesTerms}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  Accept Terms
+                </button>
+                <input
+                  type="text"
+                  value={declineTermsReason}
+                  onChange={(e) => setDeclineTermsReason(e.target.value)}
+                  placeholder="Reason for declining (optional)"
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleDeclineTerms}
+                  disabled={actionLoading}
+                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  Decline
+                </button>
+              </div>
+            )}
+            {(isAthlete || isSponsor) && hasAcceptedTerms && !bothAccepted && (
+              <p className="mt-4 text-sm text-gray-600">You accepted these terms. Waiting for the other party.</p>
+            )}
+          </div>
+        )}
         {/* Action buttons */}
-        {(showActivate || showDispute) && (
+        {(showActivate || showDispute || showTokenize || showComplete) && (
           <div className="mb-6 flex gap-4">
             {showActivate && (
               <button
                 onClick={handleActivate}
+                disabled={actionLoading || !bothAccepted || (!isSponsor && hasShortfall)}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+              >
+                {actionLoading ? "Activating..." : isSponsor && hasShortfall ? "Fund Escrow & Activate" : "Activate Contract"}
+              </button>
+            )}
+            {showComplete && (
+              <button
+                onClick={handleCompleteContract}
                 disabled={actionLoading}
-                className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-lg"
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
               >
-                {actionLoading ? "Activating..." : "Activate Contract"}
+                {actionLoading ? "Completing..." : "Complete Contract"}
               </button>
             )}
             {showDispute && (
               <button
-                onClick={handleDispute}
+                onClick={() => setShowDisputeDialog(true)}
                 disabled={actionLoading}
                 className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded-lg"
               >
-                {actionLoading ? "Raising Dispute..." : "Raise Dispute"}
+                Raise Dispute
+              </button>
+            )}
+            {showTokenize && (
+              <button
+                onClick={handleTokenize}
+                disabled={actionLoading}
+                className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-6 rounded-lg"
+              >
+                {actionLoading ? "Minting..." : "Tokenize this deal"}
               </button>
             )}
-            {actionError && <span className="text-red-600 ml-4">{actionError}</span>}
           </div>
         )}
+        {actionError && <p className="mb-6 text-red-600">{actionError}</p>}
         {milestones.length > 0 && (
           <div className="mt-8">
-            <h2 className="text-lg font-bold text-blue-900 mb-4">Milestones</h2>
+            <h2 className="text-lg font-bold text-blue-900 mb-1">Milestones</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              The sponsor has {reviewPeriodDays} {reviewPeriodDays === 1 ? "day" : "days"} to review each submission. After that the athlete can claim the payment.
+            </p>
+            {latePolicy && (
+              <p className="text-sm text-gray-600 mb-4">Late delivery: {describeLatePolicy(latePolicy)}.</p>
+            )}
             <div className="overflow-x-auto">
               <table className="min-w-full bg-white border border-gray-200 rounded-lg">
                 <thead>
@@ -309,24 +1024,208 @@ export default function ContractDetailsPage() {
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Deadline</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Paid</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Evidence</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {milestones.map((m, idx) => (
-                    <tr key={idx} className="border-t">
-                      <td className="px-4 py-2">{m.description}</td>
+                  {milestones.map((m, idx) => {
+                    const deadlineStatus = latePolicy && isActive ? getDeadlineStatus({ deadline: m.deadlineAt, status: m.status }, latePolicy.gracePeriod, now) : null;
+                    const lateAfter = m.deadlineAt + (latePolicy?.gracePeriod ?? 0);
+                    const bonus = bonusConditions[idx];
+                    // Rejected with no resubmissions left, so it can only be forfeited or disputed
+                    const exhausted = m.status === MilestoneStatus.Rejected && m.submissions >= maxSubmissions;
+                    const cutoff = latePolicy ? getSubmissionCutoff(m.deadlineAt, latePolicy, contract.raw.endDate.toNumber(), !!bonus) : lateAfter;
+                    // Past the submission cut-off, the milestone can only be forfeited
+                    const closed = deadlineStatus === "overdue" && now > cutoff;
+                    return (
+                    <Fragment key={idx}>
+                    <tr className="border-t">
+                      <td className="px-4 py-2">
+                        {m.description}
+                        {bonus && (
+                          <div className="text-xs mt-1 text-blue-700">
+                            <p className="font-semibold">Bonus: {bonus.metric} ≥ {bonus.threshold.toString()}</p>
+                            <p className="font-mono break-all">Oracle {bonus.oracle}</p>
+                            <p>Last result: {bonus.lastValue ? bonus.lastValue.toString() : "none yet"}</p>
+                          </div>
+                        )}
+                      </td>
                       <td className="px-4 py-2">{m.amount}</td>
-                      <td className="px-4 py-2">{m.deadline}</td>
-                      <td className="px-4 py-2">{typeof m.status === "number" ? contractStateToString(m.status) : m.status}</td>
+                      <td className="px-4 py-2">
+                        {m.deadline}
+                        {deadlineStatus === "upcoming" && (
+                          <p className="text-xs mt-1 text-yellow-700">Due in {formatDuration(m.deadlineAt - now)}</p>
+                        )}
+                        {deadlineStatus === "due" && (
+                          <p className="text-xs mt-1 text-orange-600">Past deadline, grace ends in {formatDuration(lateAfter - now)}</p>
+                        )}
+                        {deadlineStatus === "overdue" && (
+                          <p className="text-xs mt-1 text-red-600 font-semibold">Overdue</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getMilestoneStatusColor(m.status, m.paid)}`}>
+                          {milestoneStatusToString(m.status)}
+                        </span>
+                        {maxSubmissions > 0 && m.submissions > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">Attempt {m.submissions} of {maxSubmissions}</p>
+                        )}
+                        {m.status === MilestoneStatus.Completed && !m.paid && m.reviewDeadline > 0 && (
+                          <p className={`text-xs mt-1 ${now < m.reviewDeadline ? "text-gray-500" : "text-orange-600"}`}>
+                            {now < m.reviewDeadline
+                              ? `Review ends in ${formatDuration(m.reviewDeadline - now)}`
+                              : "Review window over, claimable by athlete"}
+                          </p>
+                        )}
+                      </td>
                       <td className="px-4 py-2">{m.paid ? "Yes" : "No"}</td>
+                      <td className="px-4 py-2">
+                        {bonus && m.evidence ? (
+                          <span className="text-sm text-gray-600">{m.evidence}</span>
+                        ) : m.evidence ? (
+                          <a
+                            href={ipfsToGatewayUrl(m.evidence)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline text-sm"
+                          >
+                            {isSponsor && !m.paid ? "Review evidence" : "View evidence"}
+                          </a>
+                        ) : (
+                          <span className="text-gray-400 text-sm">None</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        {bonus && isActive && m.status === MilestoneStatus.Pending && deadlineStatus !== "overdue" && (
+                          <p className="text-xs text-gray-500">Awaiting oracle attestation</p>
+                        )}
+                        {!bonus && isAthlete && isActive && !closed && (m.status === MilestoneStatus.Pending ||
+                          (m.status === MilestoneStatus.Rejected && m.submissions < maxSubmissions)) && (
+                          <div className="flex flex-col gap-2">
+                            {deadlineStatus === "overdue" && latePolicy && (
+                              <p className="text-xs text-orange-600">
+                                Late: the payment will be {formatBps(latePolicy.penaltyBps)} less. Submissions close in {formatDuration(cutoff - now)}.
+                              </p>
+                            )}
+                            <input
+                              type="file"
+                              accept=".pdf,.png,.jpg,.jpeg,.mp4,.doc,.docx"
+                              onChange={(e) => setEvidenceFiles(prev => ({ ...prev, [idx]: e.target.files?.[0] ?? null }))}
+                              className="text-xs text-gray-600"
+                            />
+                            <button
+                              onClick={() => handleCompleteMilestone(idx)}
+                              disabled={milestoneActionIndex !== null || !evidenceFiles[idx]}
+                              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                            >
+                              {milestoneActionIndex === idx ? "Submitting..." : m.status === MilestoneStatus.Rejected ? "Resubmit" : "Mark Complete"}
+                            </button>
+                          </div>
+                        )}
+                        {isAthlete && isActive && closed && (
+                          <p className="text-xs text-red-600">
+                            {bonus
+                              ? "The threshold wasn't attested in time."
+                              : acceptsLateWork ? "Late submissions closed at the contract's end date." : "Submissions closed at the deadline."} The sponsor can forfeit this milestone.
+                          </p>
+                        )}
+                        {isSponsor && isActive && (exhausted || closed) && (
+                          <button
+                            onClick={() => handleForfeitMilestone(idx)}
+                            disabled={milestoneActionIndex !== null}
+                            className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                          >
+                            {milestoneActionIndex === idx ? "Forfeiting..." : "Forfeit & Refund"}
+                          </button>
+                        )}
+                        {isAthlete && exhausted && (
+                          <p className="text-xs text-red-600">No resubmissions left. The sponsor can forfeit this milestone, or raise a dispute to settle it.</p>
+                        )}
+                        {isAthlete && isActive && m.status === MilestoneStatus.Completed && !m.paid && m.reviewDeadline > 0 && now >= m.reviewDeadline && (
+                          <button
+                            onClick={() => handleClaimPayment(idx)}
+                            disabled={milestoneActionIndex !== null}
+                            className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                          >
+                            {milestoneActionIndex === idx ? "Claiming..." : "Claim Payment"}
+                          </button>
+                        )}
+                        {isSponsor && isActive && m.status === MilestoneStatus.Completed && !m.paid && (
+                          <div className="flex flex-col gap-2">
+                            <button
+                              onClick={() => handleReleasePayment(idx)}
+                              disabled={milestoneActionIndex !== null}
+                              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                            >
+                              {milestoneActionIndex === idx ? "Working..." : "Release Payment"}
+                            </button>
+                            {now < m.reviewDeadline && (
+                              <>
+                                <input
+                                  type="text"
+                                  value={rejectReasons[idx] ?? ""}
+                                  onChange={(e) => setRejectReasons(prev => ({ ...prev, [idx]: e.target.value }))}
+                                  placeholder="Reason for rejection"
+                                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                                />
+                                <button
+                                  onClick={() => handleRejectMilestone(idx)}
+                                  disabled={milestoneActionIndex !== null || !rejectReasons[idx]?.trim()}
+                                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                                >
+                                  Reject
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </td>
                     </tr>
-                  ))}
+                    {milestoneHistory[idx]?.length > 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-4 pb-3">
+                          <ul className="text-xs text-gray-600 space-y-1 border-l-2 border-gray-200 pl-3">
+                            {milestoneHistory[idx].map((entry) => (
+                              <li key={`${entry.transactionHash}-${entry.type}`}>
+                                <span className="text-gray-400">{new Date(entry.timestamp * 1000).toLocaleString()}</span>{" "}
+                                {entry.type === "submitted" ? (
+                                  <>
+                                    Evidence submitted{entry.detail && (
+                                      <>
+                                        {" "}&middot;{" "}
+                                        <a href={ipfsToGatewayUrl(entry.detail)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                          view
+                                        </a>
+                                      </>
+                                    )}
+                                  </>
+                                ) : (
+                                  <span className="text-red-600">Rejected: {entry.detail}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           </div>
         )}
       </div>
+      {showDisputeDialog && (
+        <DisputeDialog
+          contractId={contract.id}
+          milestones={milestones}
+          onClose={() => setShowDisputeDialog(false)}
+          onFiled={handleDisputeFiled}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,37 +1,140 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useWeb3 } from '../../../context/Web3Context';
 import { useRouter } from 'next/navigation';
-import Link from 'next/link';
 import { ethers } from 'ethers';
-import contractAddresses from '../../../contract-addresses.json';
-import factoryAbi from '../../../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
-import athleteContractAbi from '../../../artifacts/contracts/AthleteContract.sol/AthleteContract.json';
+import { getFactoryContract, getAthleteContract, getPerformanceOracleContract, getDocumentHash, buildTermsDocument, parseAmount, RoleName, LatePolicy, StipendMode, describeLatePolicy } from '../../../utils/contracts';
+import { getSupportedTokens, getTokenBySymbol } from '../../../utils/tokens';
+
+// Roles that can be a party to a sponsorship contract
+const PARTY_ROLES: RoleName[] = ['ATHLETE_ROLE', 'SPONSOR_ROLE'];
+
+// Bounds of AthleteContract.MIN_REVIEW_PERIOD and MAX_REVIEW_PERIOD, in days
+const MIN_REVIEW_DAYS = 1;
+const MAX_REVIEW_DAYS = 30;
+
+// AthleteContract.MAX_AGENT_COMMISSION_BPS as a percentage
+const MAX_AGENT_COMMISSION_PERCENT = 20;
+
+// AthleteContract.MAX_GRACE_PERIOD in days and MAX_LATE_PENALTY_BPS as a percentage
+const MAX_GRACE_DAYS = 30;
+const MAX_LATE_PENALTY_PERCENT = 50;
+
+// Milestones only, a recurring or streamed stipend only, or both splitting the contract value
+type ScheduleType = 'milestones' | 'recurring' | 'hybrid';
+
+// A deliverable the athlete submits and the sponsor approves, or a bonus paid when an oracle attests a result
+type MilestoneKind = 'deliverable' | 'bonus';
+
+const emptyMilestone = (oracle = '') => ({
+  kind: 'deliverable' as MilestoneKind,
+  description: '',
+  amount: '',
+  deadline: '',
+  oracle,
+  metric: '',
+  threshold: ''
+});
 
 export default function NewContractPage() {
-  const { isConnected, account, provider } = useWeb3();
+  const { isConnected, account, provider, chainId } = useWeb3();
   const router = useRouter();
   const [formStep, setFormStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [heldRoles, setHeldRoles] = useState<string[]>([]);
+  const [actingAs, setActingAs] = useState('ATHLETE_ROLE');
   
   // Form state
   const [formData, setFormData] = useState({
-    sponsorAddress: '',
+    counterpartyAddress: '',
     contractValue: '',
     paymentToken: 'USDC',
     startDate: '',
     endDate: '',
+    reviewPeriodDays: '7',
+    agentAddress: '',
+    agentCommission: '',
+    latePolicy: String(LatePolicy.GracePeriod),
+    graceDays: '0',
+    latePenalty: '',
+    scheduleType: 'milestones' as ScheduleType,
+    stipendMode: String(StipendMode.Recurring),
+    // Per payment for a recurring stipend, the whole amount for a stream
+    stipendAmount: '',
+    stipendIntervalDays: '30',
+    stipendPeriods: '',
     contractDocument: null as File | null,
-    milestones: [
-      {
-        description: '',
-        amount: '',
-        deadline: ''
-      }
-    ]
+    milestones: [emptyMilestone()]
   });
+  const [registeredOracles, setRegisteredOracles] = useState<string[]>([]);
+
+  // Fall back to the first supported token when the network doesn't offer the selected one
+  useEffect(() => {
+    if (!getTokenBySymbol(chainId, formData.paymentToken)) {
+      setFormData(prev => ({ ...prev, paymentToken: getSupportedTokens(chainId)[0].symbol }));
+    }
+  }, [chainId, formData.paymentToken]);
+
+  // Load the party roles this account holds so multi-role users can choose one
+  useEffect(() => {
+    const fetchRoles = async () => {
+      if (!isConnected || !account || !provider) return;
+      try {
+        const factory = getFactoryContract(provider);
+        const roles = await Promise.all(
+          PARTY_ROLES.map(async (roleName) => {
+            const hasRole: boolean = await factory.isUserInRole(account, await factory[roleName]());
+            return hasRole ? roleName : null;
+          })
+        );
+        const held = roles.filter((role): role is RoleName => role !== null);
+        setHeldRoles(held);
+        if (held.length > 0) {
+          setActingAs(held[0]);
+        }
+      } catch (err) {
+        console.warn("Couldn't fetch account roles:", err);
+      }
+    };
+
+    fetchRoles();
+  }, [isConnected, account, provider]);
+
+  // Oracles currently holding ORACLE_ROLE, offered as attestation sources for bonus milestones
+  useEffect(() => {
+    const fetchOracles = async () => {
+      if (!isConnected || !provider) return;
+      try {
+        const performanceOracle = getPerformanceOracleContract(provider);
+        const oracleRole = await performanceOracle.ORACLE_ROLE();
+        const grants = await performanceOracle.queryFilter(performanceOracle.filters.RoleGranted(oracleRole));
+        const candidates = [...new Set(grants.map(event => event.args?.account as string))];
+        const current = await Promise.all(candidates.map(async oracle =>
+          (await performanceOracle.hasRole(oracleRole, oracle)) ? oracle : null
+        ));
+        const oracles = current.filter((oracle): oracle is string => oracle !== null);
+        setRegisteredOracles(oracles);
+        // Milestones without an oracle yet default to the first registered one
+        if (oracles.length > 0) {
+          setFormData(prev => ({
+            ...prev,
+            milestones: prev.milestones.map(m => m.oracle ? m : { ...m, oracle: oracles[0] })
+          }));
+        }
+      } catch (err) {
+        console.warn("Couldn't fetch registered oracles:", err);
+      }
+    };
+
+    fetchOracles();
+  }, [isConnected, provider]);
+
+  const isSponsor = actingAs === 'SPONSOR_ROLE';
+  const counterpartyLabel = isSponsor ? 'Athlete' : 'Sponsor';
+  const usesMilestones = formData.scheduleType !== 'recurring';
+  const usesStipend = formData.scheduleType !== 'milestones';
 
   // Format address for display
   const formatAddress = (address: string) => {
@@ -43,7 +146,7 @@ export default function NewContractPage() {
     const { name, value } = e.target;
     
     // Special handling for numeric inputs
-    if (name === 'contractValue') {
+    if (name === 'contractValue' || name === 'stipendAmount') {
       // Only update if it's a valid number or empty
       if (value === '') {
         setFormData({
@@ -69,7 +172,7 @@ export default function NewContractPage() {
   };
 
   // Handle milestone changes
-  const handleMilestoneChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleMilestoneChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     const updatedMilestones = [...formData.milestones];
     
@@ -120,11 +223,7 @@ export default function NewContractPage() {
       ...formData,
       milestones: [
         ...formData.milestones,
-        {
-          description: '',
-          amount: '',
-          deadline: ''
-        }
+        emptyMilestone(registeredOracles[0])
       ]
     });
   };
@@ -165,10 +264,12 @@ export default function NewContractPage() {
       
       console.log('Submitting contract data:', formData);
       
-      // Ensure sponsor address is valid
-      if (!ethers.utils.isAddress(formData.sponsorAddress)) {
-        throw new Error("Invalid sponsor address format");
+      // Ensure counterparty address is valid
+      if (!ethers.utils.isAddress(formData.counterpartyAddress)) {
+        throw new Error(`Invalid ${counterpartyLabel.toLowerCase()} address format`);
       }
+      const athleteAddress = isSponsor ? formData.counterpartyAddress : account;
+      const sponsorAddress = isSponsor ? account : formData.counterpartyAddress;
       
       // Validation for contract value - must be a valid positive number
       const contractValue = formData.contractValue.trim();
@@ -177,7 +278,7 @@ export default function NewContractPage() {
       }
       
       // Validate all milestone amounts
-      formData.milestones.forEach((milestone, index) => {
+      (usesMilestones ? formData.milestones : []).forEach((milestone, index) => {
         const amount = milestone.amount.trim();
         if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
           throw new Error(`Milestone ${index + 1} amount must be a valid positive number`);
@@ -187,6 +288,19 @@ export default function NewContractPage() {
         if (!milestone.deadline) {
           throw new Error(`Milestone ${index + 1} deadline is required`);
         }
+        
+        // A bonus is settled by an oracle, so it needs the source and the result to reach
+        if (milestone.kind === 'bonus') {
+          if (!ethers.utils.isAddress(milestone.oracle)) {
+            throw new Error(`Milestone ${index + 1} needs a valid oracle address`);
+          }
+          if (!milestone.metric.trim()) {
+            throw new Error(`Milestone ${index + 1} needs the metric the oracle reports`);
+          }
+          if (!/^\d+$/.test(milestone.threshold.trim())) {
+            throw new Error(`Milestone ${index + 1} threshold must be a non-negative whole number`);
+          }
+        }
       });
       
       // Validate dates
@@ -202,41 +316,164 @@ export default function NewContractPage() {
         throw new Error("End date must be after start date");
       }
       
+      // A recurring stipend has to pay out in full before the end date
+      const stipendMode = usesStipend ? Number(formData.stipendMode) as StipendMode : StipendMode.None;
+      const isRecurring = stipendMode === StipendMode.Recurring;
+      const stipendIntervalDays = isRecurring ? Number(formData.stipendIntervalDays) : 0;
+      const stipendPeriods = isRecurring ? Number(formData.stipendPeriods) : 0;
+      if (usesStipend) {
+        const stipendAmount = formData.stipendAmount.trim();
+        if (!stipendAmount || isNaN(Number(stipendAmount)) || Number(stipendAmount) <= 0) {
+          throw new Error("Stipend amount must be a valid positive number");
+        }
+        if (isRecurring) {
+          if (!Number.isInteger(stipendIntervalDays) || stipendIntervalDays < 1) {
+            throw new Error("Stipend interval must be a whole number of days");
+          }
+          if (!Number.isInteger(stipendPeriods) || stipendPeriods < 1) {
+            throw new Error("Number of stipend payments must be a positive whole number");
+          }
+          const scheduleEnd = new Date(formData.startDate).getTime() + stipendIntervalDays * stipendPeriods * 24 * 60 * 60 * 1000;
+          if (scheduleEnd > new Date(formData.endDate).getTime()) {
+            throw new Error("The stipend schedule runs past the contract end date");
+          }
+        }
+      }
+      
+      const reviewPeriodDays = Number(formData.reviewPeriodDays);
+      if (!Number.isInteger(reviewPeriodDays) || reviewPeriodDays < MIN_REVIEW_DAYS || reviewPeriodDays > MAX_REVIEW_DAYS) {
+        throw new Error(`Review period must be between ${MIN_REVIEW_DAYS} and ${MAX_REVIEW_DAYS} days`);
+      }
+      
+      // Forfeit closes submissions at the deadline itself, and only the Penalty policy carries a penalty
+      const latePolicy = Number(formData.latePolicy) as LatePolicy;
+      const graceDays = latePolicy === LatePolicy.Forfeit ? 0 : Number(formData.graceDays);
+      if (!Number.isInteger(graceDays) || graceDays < 0 || graceDays > MAX_GRACE_DAYS) {
+        throw new Error(`Grace period must be between 0 and ${MAX_GRACE_DAYS} days`);
+      }
+      let latePenaltyBps = 0;
+      if (latePolicy === LatePolicy.Penalty) {
+        const penalty = Number(formData.latePenalty);
+        if (formData.latePenalty.trim() === '' || isNaN(penalty) || penalty <= 0 || penalty > MAX_LATE_PENALTY_PERCENT) {
+          throw new Error(`Late penalty must be more than 0% and at most ${MAX_LATE_PENALTY_PERCENT}%`);
+        }
+        latePenaltyBps = Math.round(penalty * 100);
+      }
+      
       // Convert to blockchain format
       const signer = provider.getSigner();
-      const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
-      const athleteContract = new ethers.Contract(
-        contractAddresses.athleteContractAddress, 
-        athleteContractAbi.abi, 
-        signer
-      );
+      const factory = getFactoryContract(signer);
+      const athleteContract = getAthleteContract(signer);
+      
+      // Only the athlete can name an agent, and the agent must hold AGENT_ROLE
+      const agentAddress = isSponsor ? '' : formData.agentAddress.trim();
+      let agentCommissionBps = 0;
+      if (agentAddress) {
+        if (!ethers.utils.isAddress(agentAddress)) {
+          throw new Error("Invalid agent address format");
+        }
+        if (!(await factory.isUserInRole(agentAddress, await factory.AGENT_ROLE()))) {
+          throw new Error("Agent address is not registered as an agent");
+        }
+        const commission = Number(formData.agentCommission);
+        if (formData.agentCommission.trim() === '' || isNaN(commission) || commission < 0 || commission > MAX_AGENT_COMMISSION_PERCENT) {
+          throw new Error(`Agent commission must be between 0 and ${MAX_AGENT_COMMISSION_PERCENT}%`);
+        }
+        agentCommissionBps = Math.round(commission * 100);
+      }
       
       // Format dates to unix timestamps
       const startTimestamp = Math.floor(new Date(formData.startDate).getTime() / 1000);
       const endTimestamp = Math.floor(new Date(formData.endDate).getTime() / 1000);
       
-      // Safely convert contract value to wei
+      // Resolve the selected token on the connected network
+      const token = getTokenBySymbol(chainId, formData.paymentToken);
+      if (!token) {
+        throw new Error(`${formData.paymentToken} is not available on this network`);
+      }
+      const paymentToken = token.address;
+      
+      // Safely convert contract value to the token's smallest unit
       let contractValueWei;
       try {
-        contractValueWei = ethers.utils.parseEther(contractValue);
+        contractValueWei = parseAmount(contractValue, paymentToken);
       } catch (error) {
         console.error("Error parsing contract value:", error);
         throw new Error(`Invalid contract value format: ${contractValue}`);
       }
       
-      // Convert mock IPFS hash
-      const contractIPFSHash = "ipfs://QmContractDocHash"; // In a real app, upload to IPFS
+      // Parse the payment schedule up front, since the contract document has to spell it out
+      let stipendAmountWei = ethers.constants.Zero;
+      if (usesStipend) {
+        try {
+          stipendAmountWei = parseAmount(formData.stipendAmount.trim(), paymentToken);
+        } catch (error) {
+          console.error("Error parsing stipend amount:", error);
+          throw new Error(`Invalid stipend amount format: ${formData.stipendAmount}`);
+        }
+      }
+      
+      const milestones = usesMilestones ? formData.milestones : [];
+      const descriptions = milestones.map(m => m.description);
+      
+      // Safely parse milestone amounts
+      const amounts: ethers.BigNumber[] = [];
+      for (const milestone of milestones) {
+        const amount = milestone.amount.trim();
+        if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+          throw new Error("All milestone amounts must be valid positive numbers");
+        }
+        
+        try {
+          const parsedAmount = parseAmount(amount, paymentToken);
+          amounts.push(parsedAmount);
+        } catch (error) {
+          console.error("Error parsing milestone amount:", error);
+          throw new Error(`Invalid milestone amount format: ${amount}`);
+        }
+      }
+      
+      const deadlines = milestones.map(m => 
+        Math.floor(new Date(m.deadline).getTime() / 1000)
+      );
       
-      // Payment token - for simplicity, using ETH (zero address)
-      const paymentToken = "0x0000000000000000000000000000000000000000";
+      // The contract document is the terms themselves, so the hash each party accepts commits them to
+      // exactly what gets set up below; the late policy is only recorded for a milestone schedule
+      const contractIPFSHash = buildTermsDocument({
+        athlete: athleteAddress,
+        sponsor: sponsorAddress,
+        paymentToken,
+        totalValue: contractValueWei,
+        startDate: startTimestamp,
+        endDate: endTimestamp,
+        reviewPeriod: reviewPeriodDays * 24 * 60 * 60,
+        milestones: milestones.map((milestone, index) => ({
+          description: descriptions[index],
+          amount: amounts[index],
+          deadline: deadlines[index],
+          bonus: milestone.kind === 'bonus'
+            ? { oracle: milestone.oracle, metric: milestone.metric.trim(), threshold: ethers.BigNumber.from(milestone.threshold.trim()) }
+            : null
+        })),
+        stipend: {
+          mode: stipendMode,
+          amount: stipendAmountWei,
+          interval: stipendIntervalDays * 24 * 60 * 60,
+          periods: stipendPeriods
+        },
+        latePolicy: usesMilestones
+          ? { policy: latePolicy, gracePeriod: graceDays * 24 * 60 * 60, penaltyBps: latePenaltyBps }
+          : { policy: LatePolicy.GracePeriod, gracePeriod: 0, penaltyBps: 0 },
+        agent: { address: agentAddress || ethers.constants.AddressZero, commissionBps: agentCommissionBps }
+      });
       
       // Empty arbitrators array for now
       const arbitrators: string[] = [];
       
       // 1. Create contract
       console.log("Creating contract with values:", {
-        athlete: account,
-        sponsor: formData.sponsorAddress,
+        athlete: athleteAddress,
+        sponsor: sponsorAddress,
         contractIPFSHash,
         totalValue: contractValueWei.toString(),
         startTimestamp,
@@ -247,14 +484,15 @@ export default function NewContractPage() {
       
       // Use factory contract to create the contract instead of athlete contract directly
       const createTx = await factory.createSponsorshipContract(
-        account, // athlete (current user)
-        formData.sponsorAddress, // sponsor
+        athleteAddress,
+        sponsorAddress,
         contractIPFSHash,
         contractValueWei,
         startTimestamp,
         endTimestamp,
         paymentToken,
-        arbitrators
+        arbitrators,
+        reviewPeriodDays * 24 * 60 * 60
       );
       
       // Wait for transaction confirmation
@@ -267,7 +505,7 @@ export default function NewContractPage() {
         (e: { event?: string }) => e.event === "ContractCreated"
       );
       
-      if (!contractCreatedEvent) {
+      if (!contractCreatedEvent?.args) {
         throw new Error("Contract creation event not found");
       }
       
@@ -282,72 +520,91 @@ export default function NewContractPage() {
         console.log("Contract verification successful:", contractDetails);
         
         // Verify the contract is associated with this account
-        console.log("Verifying contract is associated with account...");
-        const userContracts = await factory.getUserContracts(account);
-        console.log("User contracts:", userContracts);
-        
-        // Check if the new contract ID is in the user's contracts
-        let contractFound = false;
-        for (const id of userContracts) {
-          if (id.toNumber() === contractId) {
-            contractFound = true;
-            break;
-          }
-        }
-        
-        if (!contractFound) {
-          console.warn("Contract was created but not found in user's contracts. Trying to add it manually...");
-          // This is a fallback mechanism - not ideal but can help in some cases
+        const isParty = [contractDetails.athlete, contractDetails.sponsor]
+          .some(party => party.toLowerCase() === account.toLowerCase());
+        if (!isParty) {
+          console.warn("Contract was created but this account is not one of its parties");
         }
       } catch (verifyError) {
         console.error("Error verifying contract:", verifyError);
         // Continue anyway since the contract might still have been created
       }
       
-      // 2. Add milestones
-      console.log("Adding milestones...");
-      
-      // Prepare milestone data
-      const descriptions = formData.milestones.map(m => m.description);
+      // 2. Set up the stipend, which has to come before the milestones
+      if (usesStipend) {
+        console.log("Setting stipend:", { stipendMode, amount: stipendAmountWei.toString(), stipendIntervalDays, stipendPeriods });
+        const stipendTx = await athleteContract.setStipend(
+          contractId,
+          stipendMode,
+          stipendAmountWei,
+          stipendIntervalDays * 24 * 60 * 60,
+          stipendPeriods
+        );
+        await stipendTx.wait();
+        console.log("Stipend set successfully");
+      }
       
-      // Safely parse milestone amounts
-      const amounts = [];
-      for (const milestone of formData.milestones) {
-        const amount = milestone.amount.trim();
-        if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
-          throw new Error("All milestone amounts must be valid positive numbers");
-        }
+      // 3. Add milestones
+      if (usesMilestones) {
+        console.log("Adding milestones with values:", {
+          contractId,
+          descriptions,
+          amounts: amounts.map(a => a.toString()),
+          deadlines
+        });
         
-        try {
-          const parsedAmount = ethers.utils.parseEther(amount);
-          amounts.push(parsedAmount);
-        } catch (error) {
-          console.error("Error parsing milestone amount:", error);
-          throw new Error(`Invalid milestone amount format: ${amount}`);
-        }
+        const milestoneTx = await athleteContract.addMilestones(
+          contractId,
+          descriptions,
+          amounts,
+          deadlines
+        );
+        
+        console.log("Waiting for milestone addition confirmation...");
+        await milestoneTx.wait();
+        console.log("Milestones added successfully");
       }
       
-      const deadlines = formData.milestones.map(m => 
-        Math.floor(new Date(m.deadline).getTime() / 1000)
-      );
+      // 4. Record the late-delivery terms; an untouched default (strict deadline) needs no transaction
+      if (usesMilestones && (latePolicy !== LatePolicy.GracePeriod || graceDays > 0)) {
+        console.log("Setting late policy:", { latePolicy, graceDays, latePenaltyBps });
+        const policyTx = await athleteContract.setLatePolicy(contractId, latePolicy, graceDays * 24 * 60 * 60, latePenaltyBps);
+        await policyTx.wait();
+        console.log("Late policy set successfully");
+      }
       
-      console.log("Adding milestones with values:", {
-        contractId,
-        descriptions,
-        amounts: amounts.map(a => a.toString()),
-        deadlines
-      });
+      // 5. Attach the oracle conditions of bonus milestones, which then only pay out on a signed result
+      const bonusMilestones = usesMilestones ? formData.milestones.filter(m => m.kind === 'bonus') : [];
+      if (bonusMilestones.length > 0) {
+        const performanceOracle = getPerformanceOracleContract(signer);
+        for (const [index, milestone] of formData.milestones.entries()) {
+          if (milestone.kind !== 'bonus') continue;
+          console.log("Setting bonus condition:", { index, oracle: milestone.oracle, metric: milestone.metric, threshold: milestone.threshold });
+          const bonusTx = await performanceOracle.setBonusCondition(
+            contractId,
+            index,
+            milestone.oracle,
+            milestone.metric.trim(),
+            milestone.threshold.trim()
+          );
+          await bonusTx.wait();
+        }
+        console.log("Bonus conditions set successfully");
+      }
       
-      const milestoneTx = await athleteContract.addMilestones(
-        contractId,
-        descriptions,
-        amounts,
-        deadlines
-      );
+      // 6. Name the agent, whose commission is split off every milestone payout
+      if (agentAddress) {
+        console.log("Assigning agent:", { agentAddress, agentCommissionBps });
+        const agentTx = await factory.assignAgent(contractId, agentAddress, agentCommissionBps);
+        await agentTx.wait();
+        console.log("Agent assigned successfully");
+      }
       
-      console.log("Waiting for milestone addition confirmation...");
-      await milestoneTx.wait();
-      console.log("Milestones added successfully");
+      // 7. Sign the terms as set up above; the counterparty accepts or declines them from the contract page
+      console.log("Accepting terms:", { contractIPFSHash });
+      const acceptTx = await athleteContract.acceptTerms(contractId, getDocumentHash(contractIPFSHash));
+      await acceptTx.wait();
+      console.log("Terms accepted successfully");
       
       // Redirect to contracts page with a query parameter to indicate a new contract
       // Add timestamp to prevent browser caching
@@ -369,10 +626,16 @@ export default function NewContractPage() {
     return sum + amount;
   }, 0);
 
-  // Check if milestone total equals contract value, accounting for floating point precision
-  const isMilestoneTotalValid = () => {
+  // Whole stipend over the contract: every recurring payment, or the full stream
+  const totalStipendAmount = !usesStipend ? 0 : Number(formData.stipendMode) === StipendMode.Recurring
+    ? (parseFloat(formData.stipendAmount) || 0) * (parseInt(formData.stipendPeriods, 10) || 0)
+    : parseFloat(formData.stipendAmount) || 0;
+  const scheduledAmount = (usesMilestones ? totalMilestoneAmount : 0) + totalStipendAmount;
+
+  // Check if the schedule adds up to the contract value, accounting for floating point precision
+  const isScheduleTotalValid = () => {
     const contractValue = parseFloat(formData.contractValue) || 0;
-    return Math.abs(contractValue - totalMilestoneAmount) < 0.001;
+    return Math.abs(contractValue - scheduledAmount) < 0.001;
   };
 
   if (!isConnected) {
@@ -413,7 +676,7 @@ export default function NewContractPage() {
         </div>
         <div className="flex justify-between mt-2 text-sm text-gray-600">
           <div className={formStep >= 1 ? 'text-blue-600 font-medium' : ''}>Contract Details</div>
-          <div className={formStep >= 2 ? 'text-blue-600 font-medium' : ''}>Milestones</div>
+          <div className={formStep >= 2 ? 'text-blue-600 font-medium' : ''}>Payment Schedule</div>
           <div className={formStep >= 3 ? 'text-blue-600 font-medium' : ''}>Review & Submit</div>
         </div>
       </div>
@@ -433,15 +696,34 @@ export default function NewContractPage() {
           {/* Step 1: Contract Details */}
           {formStep === 1 && (
             <div className="space-y-6">
+              {heldRoles.length > 1 && (
+                <div>
+                  <label htmlFor="actingAs" className="block text-sm font-medium text-gray-700 mb-1">
+                    Acting As
+                  </label>
+                  <select
+                    id="actingAs"
+                    value={actingAs}
+                    onChange={(e) => setActingAs(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {heldRoles.map((role) => (
+                      <option key={role} value={role}>{role === 'SPONSOR_ROLE' ? 'Sponsor' : 'Athlete'}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">Your account holds several roles. Choose which side of the deal you are on.</p>
+                </div>
+              )}
+
               <div>
-                <label htmlFor="sponsorAddress" className="block text-sm font-medium text-gray-700 mb-1">
-                  Sponsor Wallet Address
+                <label htmlFor="counterpartyAddress" className="block text-sm font-medium text-gray-700 mb-1">
+                  {counterpartyLabel} Wallet Address
                 </label>
                 <input
                   type="text"
-                  id="sponsorAddress"
-                  name="sponsorAddress"
-                  value={formData.sponsorAddress}
+                  id="counterpartyAddress"
+                  name="counterpartyAddress"
+                  value={formData.counterpartyAddress}
                   onChange={handleChange}
                   placeholder="0x..."
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
@@ -452,10 +734,7 @@ export default function NewContractPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <span>
-                    The sponsor address must be registered with SPONSOR_ROLE first. 
-                    <Link href="/register" className="text-blue-600 hover:underline ml-1">
-                      Register this address
-                    </Link>
+                    The {counterpartyLabel.toLowerCase()} must have registered on AthleteChain with {isSponsor ? 'ATHLETE_ROLE' : 'SPONSOR_ROLE'} first.
                   </span>
                 </p>
               </div>
@@ -486,10 +765,9 @@ export default function NewContractPage() {
                       onChange={handleChange}
                       className="bg-gray-100 px-3 py-2 border border-l-0 border-gray-300 rounded-r-lg focus:ring-blue-500 focus:border-blue-500"
                     >
-                      <option value="USDC">USDC</option>
-                      <option value="USDT">USDT</option>
-                      <option value="DAI">DAI</option>
-                      <option value="ETH">ETH</option>
+                      {getSupportedTokens(chainId).map(token => (
+                        <option key={token.symbol} value={token.symbol}>{token.symbol}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -527,6 +805,66 @@ export default function NewContractPage() {
                 </div>
               </div>
 
+              <div>
+                <label htmlFor="reviewPeriodDays" className="block text-sm font-medium text-gray-700 mb-1">
+                  Milestone Review Period (days)
+                </label>
+                <input
+                  type="number"
+                  id="reviewPeriodDays"
+                  name="reviewPeriodDays"
+                  value={formData.reviewPeriodDays}
+                  onChange={handleChange}
+                  min={MIN_REVIEW_DAYS}
+                  max={MAX_REVIEW_DAYS}
+                  step="1"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  If the sponsor neither releases nor rejects a submitted milestone within this window, the athlete can claim its payment.
+                </p>
+              </div>
+
+              {!isSponsor && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="md:col-span-2">
+                    <label htmlFor="agentAddress" className="block text-sm font-medium text-gray-700 mb-1">
+                      Agent Address (optional)
+                    </label>
+                    <input
+                      type="text"
+                      id="agentAddress"
+                      name="agentAddress"
+                      value={formData.agentAddress}
+                      onChange={handleChange}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="0x..."
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="agentCommission" className="block text-sm font-medium text-gray-700 mb-1">
+                      Agent Commission (%)
+                    </label>
+                    <input
+                      type="number"
+                      id="agentCommission"
+                      name="agentCommission"
+                      value={formData.agentCommission}
+                      onChange={handleChange}
+                      min="0"
+                      max={MAX_AGENT_COMMISSION_PERCENT}
+                      step="0.01"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      disabled={!formData.agentAddress}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 md:col-span-3 -mt-4">
+                    A registered agent receives this share of every milestone payment, up to {MAX_AGENT_COMMISSION_PERCENT}%.
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label htmlFor="contractDocument" className="block text-sm font-medium text-gray-700 mb-1">
                   Contract Document
@@ -582,28 +920,140 @@ export default function NewContractPage() {
             </div>
           )}
 
-          {/* Step 2: Milestones */}
+          {/* Step 2: Payment Schedule */}
           {formStep === 2 && (
             <div className="space-y-6">
-              <div className="flex items-center justify-between">
-                <h2 className="text-xl font-bold text-gray-800">Define Milestones</h2>
-                <button
-                  type="button"
-                  onClick={addMilestone}
-                  className="flex items-center text-blue-600 hover:text-blue-800"
+              <h2 className="text-xl font-bold text-gray-800">Payment Schedule</h2>
+              
+              <div>
+                <label htmlFor="scheduleType" className="block text-sm font-medium text-gray-700 mb-1">
+                  Schedule Type
+                </label>
+                <select
+                  id="scheduleType"
+                  name="scheduleType"
+                  value={formData.scheduleType}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
                 >
-                  <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  Add Milestone
-                </button>
+                  <option value="milestones">Milestones</option>
+                  <option value="recurring">Recurring stipend</option>
+                  <option value="hybrid">Stipend and milestones</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Together, the stipend and milestones must add up to the contract value.
+                </p>
               </div>
-              
-              <p className="text-gray-600">
-                Define milestones for payment release. The total value of all milestones should equal your contract value.
-              </p>
 
-              {formData.milestones.map((milestone, index) => (
+              {usesStipend && (
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <h3 className="font-medium text-gray-800 mb-4">Stipend</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <label htmlFor="stipendMode" className="block text-sm font-medium text-gray-700 mb-1">
+                        Payment Mode
+                      </label>
+                      <select
+                        id="stipendMode"
+                        name="stipendMode"
+                        value={formData.stipendMode}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value={StipendMode.Recurring}>Fixed payments at an interval</option>
+                        <option value={StipendMode.Stream}>Continuous stream from start to end date</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="stipendAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                        {Number(formData.stipendMode) === StipendMode.Recurring ? 'Amount per Payment' : 'Total Streamed'} ({formData.paymentToken})
+                      </label>
+                      <input
+                        type="text"
+                        id="stipendAmount"
+                        name="stipendAmount"
+                        value={formData.stipendAmount}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                    {Number(formData.stipendMode) === StipendMode.Recurring && (
+                      <>
+                        <div>
+                          <label htmlFor="stipendIntervalDays" className="block text-sm font-medium text-gray-700 mb-1">
+                            Interval (days)
+                          </label>
+                          <input
+                            type="number"
+                            id="stipendIntervalDays"
+                            name="stipendIntervalDays"
+                            value={formData.stipendIntervalDays}
+                            onChange={handleChange}
+                            min="1"
+                            step="1"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="stipendPeriods" className="block text-sm font-medium text-gray-700 mb-1">
+                            Number of Payments
+                          </label>
+                          <input
+                            type="number"
+                            id="stipendPeriods"
+                            name="stipendPeriods"
+                            value={formData.stipendPeriods}
+                            onChange={handleChange}
+                            min="1"
+                            step="1"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                            required
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {Number(formData.stipendMode) === StipendMode.Recurring
+                      ? 'A payment accrues every interval from the start date, and all of them must fall before the end date.'
+                      : 'The stipend accrues every second between the start and end dates.'}
+                    {' '}The athlete withdraws whatever has accrued at any time while the contract is active.
+                  </p>
+                </div>
+              )}
+
+              {usesMilestones && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-gray-800">Milestones</h3>
+                    <button
+                      type="button"
+                      onClick={addMilestone}
+                      className="flex items-center text-blue-600 hover:text-blue-800"
+                    >
+                      <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                      </svg>
+                      Add Milestone
+                    </button>
+                  </div>
+                  
+                  <p className="text-gray-600">
+                    Define milestones for payment release.
+                  </p>
+                </>
+              )}
+
+              <datalist id="registered-oracles">
+                {registeredOracles.map((oracle) => (
+                  <option key={oracle} value={oracle} />
+                ))}
+              </datalist>
+
+              {usesMilestones && formData.milestones.map((milestone, index) => (
                 <div key={index} className="border border-gray-200 rounded-lg p-4 mb-4">
                   <div className="flex justify-between mb-3">
                     <h3 className="font-medium">Milestone {index + 1}</h3>
@@ -618,6 +1068,22 @@ export default function NewContractPage() {
                   </div>
                   
                   <div className="space-y-4">
+                    <div>
+                      <label htmlFor={`kind-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                        Type
+                      </label>
+                      <select
+                        id={`kind-${index}`}
+                        name="kind"
+                        value={milestone.kind}
+                        onChange={(e) => handleMilestoneChange(index, e)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="deliverable">Deliverable (approved by the sponsor)</option>
+                        <option value="bonus">Performance bonus (settled by an oracle)</option>
+                      </select>
+                    </div>
+                    
                     <div>
                       <label htmlFor={`description-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
                         Description
@@ -669,15 +1135,144 @@ export default function NewContractPage() {
                         />
                       </div>
                     </div>
+                    
+                    {milestone.kind === 'bonus' && (
+                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
+                        <div>
+                          <label htmlFor={`oracle-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                            Oracle
+                          </label>
+                          <input
+                            type="text"
+                            id={`oracle-${index}`}
+                            name="oracle"
+                            value={milestone.oracle}
+                            onChange={(e) => handleMilestoneChange(index, e)}
+                            list="registered-oracles"
+                            placeholder="0x..."
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                            required
+                          />
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <label htmlFor={`metric-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                              Metric
+                            </label>
+                            <input
+                              type="text"
+                              id={`metric-${index}`}
+                              name="metric"
+                              value={milestone.metric}
+                              onChange={(e) => handleMilestoneChange(index, e)}
+                              placeholder="points:2026-11-02:LAL-BOS"
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor={`threshold-${index}`} className="block text-sm font-medium text-gray-700 mb-1">
+                              Threshold
+                            </label>
+                            <input
+                              type="number"
+                              id={`threshold-${index}`}
+                              name="threshold"
+                              value={milestone.threshold}
+                              onChange={(e) => handleMilestoneChange(index, e)}
+                              placeholder="20"
+                              min="0"
+                              step="1"
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                              required
+                            />
+                          </div>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          Paid automatically once the oracle attests a result at or above the threshold before the deadline.
+                          The oracle must hold ORACLE_ROLE.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
 
+              {usesMilestones && (
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <h3 className="font-medium text-gray-800 mb-4">Late Delivery</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                      <label htmlFor="latePolicy" className="block text-sm font-medium text-gray-700 mb-1">
+                        Policy
+                      </label>
+                      <select
+                        id="latePolicy"
+                        name="latePolicy"
+                        value={formData.latePolicy}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value={LatePolicy.GracePeriod}>Grace period</option>
+                        <option value={LatePolicy.Penalty}>Penalty</option>
+                        <option value={LatePolicy.Forfeit}>Forfeit</option>
+                      </select>
+                    </div>
+                    {Number(formData.latePolicy) !== LatePolicy.Forfeit && (
+                      <div>
+                        <label htmlFor="graceDays" className="block text-sm font-medium text-gray-700 mb-1">
+                          Grace Period (days)
+                        </label>
+                        <input
+                          type="number"
+                          id="graceDays"
+                          name="graceDays"
+                          value={formData.graceDays}
+                          onChange={handleChange}
+                          min="0"
+                          max={MAX_GRACE_DAYS}
+                          step="1"
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    )}
+                    {Number(formData.latePolicy) === LatePolicy.Penalty && (
+                      <div>
+                        <label htmlFor="latePenalty" className="block text-sm font-medium text-gray-700 mb-1">
+                          Late Penalty (%)
+                        </label>
+                        <input
+                          type="number"
+                          id="latePenalty"
+                          name="latePenalty"
+                          value={formData.latePenalty}
+                          onChange={handleChange}
+                          min="0.01"
+                          max={MAX_LATE_PENALTY_PERCENT}
+                          step="0.01"
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {Number(formData.latePolicy) === LatePolicy.Penalty
+                      ? `Milestones submitted after their deadline and grace period are still paid, less this penalty (up to ${MAX_LATE_PENALTY_PERCENT}%), which is refunded to the sponsor. Submissions close at the contract's end date, after which the sponsor can forfeit the milestone.`
+                      : 'Once a milestone\'s deadline (plus any grace period) passes without a submission, the athlete can no longer submit it and the sponsor can forfeit it for a refund.'}
+                  </p>
+                </div>
+              )}
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <div className="flex justify-between items-center">
                   <div>
-                    <h3 className="font-medium text-blue-800">Total Milestone Value</h3>
-                    <p className="text-blue-600">{totalMilestoneAmount.toFixed(2)} {formData.paymentToken}</p>
+                    <h3 className="font-medium text-blue-800">Total Scheduled Value</h3>
+                    <p className="text-blue-600">{scheduledAmount.toFixed(2)} {formData.paymentToken}</p>
+                    {usesStipend && usesMilestones && (
+                      <p className="text-xs text-blue-600">
+                        Stipend {totalStipendAmount.toFixed(2)} + milestones {totalMilestoneAmount.toFixed(2)}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <h3 className="font-medium text-blue-800">Contract Value</h3>
@@ -685,9 +1280,9 @@ export default function NewContractPage() {
                   </div>
                 </div>
                 
-                {!isMilestoneTotalValid() && (
+                {!isScheduleTotalValid() && (
                   <p className="text-red-600 text-sm mt-2">
-                    ⚠️ The total milestone value must match the contract value
+                    ⚠️ The total scheduled value must match the contract value
                   </p>
                 )}
               </div>
@@ -704,7 +1299,7 @@ export default function NewContractPage() {
                   type="button"
                   onClick={() => setFormStep(3)}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg"
-                  disabled={!isMilestoneTotalValid()}
+                  disabled={!isScheduleTotalValid()}
                 >
                   Review Contract
                 </button>
@@ -720,12 +1315,12 @@ export default function NewContractPage() {
               <div className="bg-gray-50 rounded-lg p-6 space-y-6">
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Athlete</h3>
-                  <p className="mt-1">{formatAddress(account || '')}</p>
+                  <p className="mt-1">{formatAddress((isSponsor ? formData.counterpartyAddress : account) || '')}</p>
                 </div>
                 
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Sponsor</h3>
-                  <p className="mt-1">{formatAddress(formData.sponsorAddress)}</p>
+                  <p className="mt-1">{formatAddress((isSponsor ? account : formData.counterpartyAddress) || '')}</p>
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -745,26 +1340,69 @@ export default function NewContractPage() {
                   </div>
                 </div>
                 
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Milestone Review Period</h3>
+                  <p className="mt-1">{formData.reviewPeriodDays} days</p>
+                </div>
+                
+                {usesStipend && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Stipend</h3>
+                    <p className="mt-1">
+                      {Number(formData.stipendMode) === StipendMode.Recurring
+                        ? `${formData.stipendAmount} ${formData.paymentToken} every ${formData.stipendIntervalDays} days, ${formData.stipendPeriods} payments`
+                        : `${formData.stipendAmount} ${formData.paymentToken} streamed from ${formData.startDate} to ${formData.endDate}`}
+                    </p>
+                  </div>
+                )}
+                
+                {usesMilestones && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Late Delivery</h3>
+                    <p className="mt-1">
+                      {describeLatePolicy({
+                        policy: Number(formData.latePolicy),
+                        gracePeriod: Number(formData.latePolicy) === LatePolicy.Forfeit ? 0 : (Number(formData.graceDays) || 0) * 24 * 60 * 60,
+                        penaltyBps: Math.round((Number(formData.latePenalty) || 0) * 100)
+                      })}
+                    </p>
+                  </div>
+                )}
+                
+                {!isSponsor && formData.agentAddress && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Agent</h3>
+                    <p className="mt-1">{formatAddress(formData.agentAddress)} ({formData.agentCommission || 0}% commission)</p>
+                  </div>
+                )}
+                
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Contract Document</h3>
                   <p className="mt-1">{formData.contractDocument?.name || 'No document uploaded'}</p>
                 </div>
                 
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 mb-2">Milestones</h3>
-                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
-                    {formData.milestones.map((milestone, index) => (
-                      <div key={index} className="p-4">
-                        <div className="flex justify-between mb-2">
-                          <h4 className="font-medium">Milestone {index + 1}</h4>
-                          <span>{milestone.amount} {formData.paymentToken}</span>
+                {usesMilestones && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-2">Milestones</h3>
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                      {formData.milestones.map((milestone, index) => (
+                        <div key={index} className="p-4">
+                          <div className="flex justify-between mb-2">
+                            <h4 className="font-medium">Milestone {index + 1}</h4>
+                            <span>{milestone.amount} {formData.paymentToken}</span>
+                          </div>
+                          <p className="text-gray-600">{milestone.description}</p>
+                          <p className="text-sm text-gray-500 mt-1">Due: {milestone.deadline}</p>
+                          {milestone.kind === 'bonus' && (
+                            <p className="text-sm text-blue-700 mt-1">
+                              Bonus: {milestone.metric} ≥ {milestone.threshold}, attested by {milestone.oracle ? formatAddress(milestone.oracle) : 'no oracle'}
+                            </p>
+                          )}
                         </div>
-                        <p className="text-gray-600">{milestone.description}</p>
-                        <p className="text-sm text-gray-500 mt-1">Due: {milestone.deadline}</p>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
               
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -777,6 +1415,8 @@ export default function NewContractPage() {
                     <p className="text-yellow-700 text-sm mt-1">
                       By submitting this contract, you are creating a legally binding agreement on the blockchain. 
                       Make sure all details are correct before proceeding.
+                      Submitting also signs these terms for you; the {counterpartyLabel.toLowerCase()} then has to accept them
+                      before the contract can be activated.
                     </p>
                   </div>
                 </div>
@@ -6,8 +6,15 @@ import ContractCard from '../../components/ContractCard';
 import Link from 'next/link';
 import { ethers } from 'ethers';
 import contractAddresses from '../../contract-addresses.json';
-import factoryAbi from '../../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
-import athleteContractAbi from '../../artifacts/contracts/AthleteContract.sol/AthleteContract.json';
+import {
+  getFactoryContract,
+  getAthleteContract,
+  getContractDetails,
+  loadTokenDecimals,
+  contractStateToString,
+  formatAmount
+} from '../../utils/contracts';
+import { fetchAllIndexedContracts } from '../../utils/indexer';
 import { useSearchParams } from 'next/navigation';
 
 interface ContractData {
@@ -29,14 +36,8 @@ const timestampToDate = (timestamp: ethers.BigNumber): string => {
   return date.toISOString().split('T')[0]; // Format as YYYY-MM-DD
 };
 
-// Helper function to convert contract state enum to string
-const contractStateToString = (state: number): string => {
-  const states = ['Draft', 'Active', 'Completed', 'Disputed', 'Terminated'];
-  return states[state] || 'Unknown';
-};
-
 export default function ContractsPage() {
-  const { isConnected, account, provider } = useWeb3();
+  const { isConnected, account, provider, subscribeToContractEvents } = useWeb3();
   const [contracts, setContracts] = useState<ContractData[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState('all');
@@ -66,11 +67,11 @@ export default function ContractsPage() {
   const fetchInProgress = useRef(false);
   const lastFetchedAccount = useRef<string | null>(null);
 
-  // Function to fetch contracts data
-  const fetchContractsData = async () => {
+  // Function to fetch contracts data (silent refreshes keep the current list on screen)
+  const fetchContractsData = async (silent = false) => {
     if (fetchInProgress.current) return;
     fetchInProgress.current = true;
-    setLoading(true);
+    if (!silent) setLoading(true);
     setError(null);
     
     console.log("=== FETCH CONTRACTS DEBUG ===");
@@ -102,12 +103,30 @@ export default function ContractsPage() {
           // Connect to contracts
           console.log("Connecting to contracts with addresses:", contractAddresses);
           const signer = provider.getSigner();
-          const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
-          const athleteContract = new ethers.Contract(contractAddresses.athleteContractAddress, athleteContractAbi.abi, signer);
+          const factory = getFactoryContract(signer);
+          const athleteContract = getAthleteContract(signer);
           
           try {
             console.log("Fetching contracts for address:", account);
             
+            // Prefer the local indexer and only scan ContractCreated logs when it isn't running
+            const indexed = await fetchAllIndexedContracts({ party: account });
+            if (indexed) {
+              const tokens = new Set(indexed.map(contract => contract.paymentToken));
+              await Promise.all([...tokens].map(token => loadTokenDecimals(token, provider)));
+              setContracts(indexed.map(contract => ({
+                id: contract.id,
+                athlete: contract.athlete,
+                sponsor: contract.sponsor,
+                value: formatAmount(contract.totalValue, contract.paymentToken),
+                status: contract.status,
+                startDate: timestampToDate(ethers.BigNumber.from(contract.startDate)),
+                endDate: timestampToDate(ethers.BigNumber.from(contract.endDate)),
+                contractHash: contract.contractHash,
+              })));
+              return;
+            }
+            
             // Get all ContractCreated events
             const filter = factory.filters.ContractCreated();
             const events = await factory.queryFilter(filter);
@@ -135,17 +154,14 @@ export default function ContractsPage() {
                   contractIds.map(async (id) => {
                     try {
                       console.log("Fetching details for contract ID:", id.toString());
-                      const details = await athleteContract.getContractDetails(id);
+                      const details = await getContractDetails(athleteContract, id);
                       console.log("Got details for contract:", id.toString(), details);
                       
-                      // Format contract total value to ETH or token
-                      const valueFormatted = ethers.utils.formatEther(details.totalValue);
-                      
                       return {
                         id: id.toNumber(),
                         athlete: details.athlete,
                         sponsor: details.sponsor,
-                        value: `${valueFormatted} ${details.paymentToken === ethers.constants.AddressZero ? 'ETH' : 'Tokens'}`,
+                        value: formatAmount(details.totalValue, details.paymentToken),
                         status: contractStateToString(details.state),
                         startDate: timestampToDate(details.startDate),
                         endDate: timestampToDate(details.endDate),
@@ -229,6 +245,15 @@ export default function ContractsPage() {
     };
   }, [account]); // Only re-run when account changes
 
+  // Update the list in place when one of the account's contracts changes on-chain
+  useEffect(() => {
+    return subscribeToContractEvents(() => {
+      lastFetchedAccount.current = null;
+      fetchContractsData(true);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscribeToContractEvents, account, provider]);
+
   // Filter contracts based on status
   const filteredContracts = filter === 'all' 
     ? contracts 
@@ -257,7 +282,7 @@ export default function ContractsPage() {
         </div>
         <div className="mt-4 md:mt-0 flex space-x-3">
           <button 
-            onClick={fetchContractsData}
+            onClick={() => fetchContractsData()}
             className="bg-blue-100 hover:bg-blue-200 text-blue-800 font-bold py-2 px-4 rounded-lg flex items-center"
             disabled={loading}
           >
@@ -429,7 +454,7 @@ export default function ContractsPage() {
                   </button>
                 )}
                 <button 
-                  onClick={fetchContractsData}
+                  onClick={() => fetchContractsData()}
                   className="bg-blue-100 hover:bg-blue-200 text-blue-800 font-bold py-2 px-6 rounded-lg inline-flex items-center justify-center"
                 >
                   <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,12 +1,29 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useWeb3 } from '../../context/Web3Context';
 import Link from 'next/link';
 import { ethers } from 'ethers';
-import contractAddresses from '../../contract-addresses.json';
-import factoryAbi from '../../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
-import athleteContractAbi from '../../artifacts/contracts/AthleteContract.sol/AthleteContract.json';
+import {
+  getFactoryContract,
+  getAthleteContract,
+  getSponsorshipNFTContract,
+  getContractDetails,
+  loadTokenDecimals,
+  contractStateToString,
+  formatAmount,
+  formatBps,
+  getEscrowDetails,
+  getAgentDetails,
+  getMilestones,
+  getLatePolicy,
+  getDeadlineStatus,
+  formatDuration,
+  ContractState,
+  DeadlineStatus,
+  AthleteContractContract
+} from '../../utils/contracts';
+import { fetchAllIndexedContracts, getAgentContractIds } from '../../utils/indexer';
 import { usePathname } from 'next/navigation';
 
 interface UserStats {
@@ -22,16 +39,96 @@ interface ContractSummary {
   sponsor: string;
   value: string;
   status: string;
+  escrow: string;
+  // Set while the sponsor still has to deposit part of the contract value
+  shortfall: string | null;
 }
 
-// Helper function to convert contract state enum to string
-const contractStateToString = (state: number): string => {
-  const states = ['Draft', 'Active', 'Completed', 'Disputed', 'Terminated'];
-  return states[state] || 'Unknown';
+// A deal the connected account represents as the athlete's agent
+interface AgentDeal {
+  id: number;
+  athlete: string;
+  sponsor: string;
+  value: string;
+  status: string;
+  commission: string;
+  earned: ethers.BigNumber;
+  paymentToken: string;
+}
+
+interface RepresentedAthlete {
+  athlete: string;
+  deals: number;
+  // Commission earned per payment token, already formatted
+  earned: string[];
+}
+
+// An undelivered milestone on one of the account's active contracts that is close to or past its deadline
+interface DeadlineAlert {
+  contractId: number;
+  milestoneIndex: number;
+  description: string;
+  deadline: number;
+  status: Exclude<DeadlineStatus, null>;
+}
+
+const fetchDeadlineAlerts = async (athleteContract: AthleteContractContract, contractIds: number[]): Promise<DeadlineAlert[]> => {
+  const now = Math.floor(Date.now() / 1000);
+  const alerts = await Promise.all(contractIds.map(async id => {
+    const details = await athleteContract.getContractDetails(id);
+    if (details.state !== ContractState.Active) return [];
+    const [milestones, { gracePeriod }] = await Promise.all([
+      getMilestones(athleteContract, id),
+      getLatePolicy(athleteContract, id)
+    ]);
+    return milestones.flatMap((milestone, index) => {
+      const status = getDeadlineStatus(milestone, gracePeriod, now);
+      return status ? [{ contractId: id, milestoneIndex: index, description: milestone.description, deadline: milestone.deadline.toNumber(), status }] : [];
+    });
+  }));
+  // Most urgent first
+  return alerts.flat().sort((a, b) => a.deadline - b.deadline);
+};
+
+const fetchAgentDeals = async (athleteContract: AthleteContractContract, agent: string): Promise<AgentDeal[]> => {
+  const contractIds = await getAgentContractIds(athleteContract, agent);
+  return Promise.all(contractIds.map(async id => {
+    const [details, agentDetails] = await Promise.all([
+      getContractDetails(athleteContract, id),
+      getAgentDetails(athleteContract, id)
+    ]);
+    return {
+      id,
+      athlete: details.athlete,
+      sponsor: details.sponsor,
+      value: formatAmount(details.totalValue, details.paymentToken),
+      status: contractStateToString(details.state),
+      commission: formatBps(agentDetails.commissionBps),
+      earned: agentDetails.commissionPaid,
+      paymentToken: details.paymentToken,
+    };
+  }));
+};
+
+// Group an agent's deals by athlete, summing commission separately for each payment token
+const groupByAthlete = (deals: AgentDeal[]): RepresentedAthlete[] => {
+  const athletes = new Map<string, { athlete: string; deals: number; earned: Map<string, ethers.BigNumber> }>();
+  deals.forEach(deal => {
+    const key = deal.athlete.toLowerCase();
+    const entry = athletes.get(key) ?? { athlete: deal.athlete, deals: 0, earned: new Map() };
+    entry.deals++;
+    entry.earned.set(deal.paymentToken, (entry.earned.get(deal.paymentToken) ?? ethers.constants.Zero).add(deal.earned));
+    athletes.set(key, entry);
+  });
+  return [...athletes.values()].map(entry => ({
+    athlete: entry.athlete,
+    deals: entry.deals,
+    earned: [...entry.earned.entries()].map(([token, amount]) => formatAmount(amount, token)),
+  }));
 };
 
 export default function Dashboard() {
-  const { account, provider, isConnected } = useWeb3();
+  const { account, provider, isConnected, subscribeToContractEvents } = useWeb3();
   const [userStats, setUserStats] = useState<UserStats>({
     contractsCount: 0,
     nftsCount: 0,
@@ -39,6 +136,9 @@ export default function Dashboard() {
     verificationStatus: 'Unverified',
   });
   const [contracts, setContracts] = useState<ContractSummary[]>([]);
+  const [isAgent, setIsAgent] = useState(false);
+  const [agentDeals, setAgentDeals] = useState<AgentDeal[]>([]);
+  const [deadlineAlerts, setDeadlineAlerts] = useState<DeadlineAlert[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const pathname = usePathname();
@@ -48,6 +148,15 @@ export default function Dashboard() {
     setRefreshTrigger(prev => prev + 1);
   }, [pathname]);
 
+  // Refresh in place, without the loading state, when one of the account's contracts changes on-chain
+  const silentRefresh = useRef(false);
+  useEffect(() => {
+    return subscribeToContractEvents(() => {
+      silentRefresh.current = true;
+      setRefreshTrigger(prev => prev + 1);
+    });
+  }, [subscribeToContractEvents]);
+
   // Fetch data from blockchain
   useEffect(() => {
     const fetchData = async () => {
@@ -55,56 +164,103 @@ export default function Dashboard() {
         try {
           // Connect to contracts
           const signer = provider.getSigner();
-          const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
-          const athleteContract = new ethers.Contract(contractAddresses.athleteContractAddress, athleteContractAbi.abi, signer);
+          const factory = getFactoryContract(signer);
+          const athleteContract = getAthleteContract(signer);
+          const nft = getSponsorshipNFTContract(signer);
           
           try {
-            // Instead of calling a non-existent function, fetch all ContractCreated events
-            const filter = factory.filters.ContractCreated();
-            const events = await factory.queryFilter(filter);
-            const relevantEvents = events.filter(event => {
-              const athlete = event.args?.athlete;
-              const sponsor = event.args?.sponsor;
-              return athlete && sponsor && (athlete.toLowerCase() === account.toLowerCase() || sponsor.toLowerCase() === account.toLowerCase());
-            });
-            const contractIds = [...new Set(relevantEvents.map(event => event.args?.contractId.toString()))];
+            // Prefer the local indexer and only scan ContractCreated logs when it isn't running
+            const indexed = await fetchAllIndexedContracts({ party: account });
+            let contractIds: string[];
+            if (indexed) {
+              contractIds = indexed.map(contract => contract.id.toString());
+            } else {
+              const filter = factory.filters.ContractCreated();
+              const events = await factory.queryFilter(filter);
+              const relevantEvents = events.filter(event => {
+                const athlete = event.args?.athlete;
+                const sponsor = event.args?.sponsor;
+                return athlete && sponsor && (athlete.toLowerCase() === account.toLowerCase() || sponsor.toLowerCase() === account.toLowerCase());
+              });
+              contractIds = [...new Set(relevantEvents.map(event => event.args?.contractId.toString()))];
+            }
             
             // Attempt to get user info, but don't fail if this call doesn't work
-            let isVerified = { isVerified: false };
+            let isVerified = false;
             try {
-              isVerified = await factory.userInfo(account);
+              const user = await factory.getUser(account);
+              isVerified = user.verified;
             } catch (userInfoError) {
               console.warn("Couldn't fetch user verification status:", userInfoError);
               // Continue with default values
             }
             
+            // Agents also get an overview of the athletes they represent and the commission earned
+            try {
+              const agentRole = await factory.AGENT_ROLE();
+              const hasAgentRole: boolean = await factory.isUserInRole(account, agentRole);
+              setIsAgent(hasAgentRole);
+              if (hasAgentRole) {
+                setAgentDeals(await fetchAgentDeals(athleteContract, account));
+              } else {
+                setAgentDeals([]);
+              }
+            } catch (agentError) {
+              console.warn("Couldn't fetch agent deals:", agentError);
+            }
+            
+            try {
+              setDeadlineAlerts(await fetchDeadlineAlerts(athleteContract, contractIds.map(Number)));
+            } catch (deadlineError) {
+              console.warn("Couldn't fetch milestone deadlines:", deadlineError);
+            }
+            
+            let nftsCount = 0;
+            try {
+              nftsCount = (await nft.balanceOf(account)).toNumber();
+            } catch (nftError) {
+              console.warn("Couldn't fetch NFT balance:", nftError);
+            }
+            
             // Set user stats
             setUserStats({
               contractsCount: contractIds.length,
-              nftsCount: 0, // Will implement this when we have NFT functionality
+              nftsCount,
               disputesCount: 0, // Will implement this when we handle disputes
-              verificationStatus: isVerified.isVerified ? 'Verified' : 'Unverified',
+              verificationStatus: isVerified ? 'Verified' : 'Unverified',
             });
             
             // Only try to get contract details if we have any contracts
-            if (contractIds.length > 0) {
+            if (indexed) {
+              const tokens = new Set(indexed.map(contract => contract.paymentToken));
+              await Promise.all([...tokens].map(token => loadTokenDecimals(token, provider)));
+              setContracts(indexed.map(contract => ({
+                id: contract.id,
+                athlete: contract.athlete,
+                sponsor: contract.sponsor,
+                value: formatAmount(contract.totalValue, contract.paymentToken),
+                status: contract.status,
+                escrow: formatAmount(contract.escrowBalance, contract.paymentToken),
+                shortfall: contract.escrowShortfall !== '0' ? formatAmount(contract.escrowShortfall, contract.paymentToken) : null,
+              })));
+            } else if (contractIds.length > 0) {
               try {
                 // Get contract details for each contract ID
                 const contractDetails = await Promise.all(
                   contractIds.map(async (idStr: string) => {
                     const id = ethers.BigNumber.from(idStr);
                     try {
-                      const details = await athleteContract.getContractDetails(id);
-                      
-                      // Format contract total value to ETH or token
-                      const valueFormatted = ethers.utils.formatEther(details.totalValue);
+                      const details = await getContractDetails(athleteContract, id);
+                      const escrow = await getEscrowDetails(athleteContract, id);
                       
                       return {
                         id: id.toNumber(),
                         athlete: details.athlete,
                         sponsor: details.sponsor,
-                        value: `${valueFormatted} ${details.paymentToken === ethers.constants.AddressZero ? 'ETH' : 'Tokens'}`,
+                        value: formatAmount(details.totalValue, details.paymentToken),
                         status: contractStateToString(details.state),
+                        escrow: formatAmount(escrow.balance, details.paymentToken),
+                        shortfall: escrow.shortfall.gt(0) ? formatAmount(escrow.shortfall, details.paymentToken) : null,
                       };
                     } catch (error) {
                       console.error(`Error fetching details for contract ${id.toString()}:`, error);
@@ -139,7 +295,8 @@ export default function Dashboard() {
       }
     };
     
-    setLoading(true);
+    if (!silentRefresh.current) setLoading(true);
+    silentRefresh.current = false;
     if (isConnected) {
       fetchData();
     } else {
@@ -171,6 +328,21 @@ export default function Dashboard() {
     }
   };
 
+  // Breakdown shown under the contracts total
+  const activeCount = contracts.filter(contract => contract.status === 'Active').length;
+  const completedCount = contracts.filter(contract => contract.status === 'Completed').length;
+
+  const getDeadlineColor = (status: DeadlineAlert['status']) => {
+    switch (status) {
+      case 'overdue':
+        return 'bg-red-100 text-red-800';
+      case 'due':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
   if (!isConnected) {
     return (
       <div className="flex flex-col items-center justify-center py-20">
@@ -220,6 +392,7 @@ export default function Dashboard() {
                 <div className="ml-4">
                   <h3 className="text-gray-500 text-sm">Contracts</h3>
                   <p className="text-2xl font-bold text-gray-800">{userStats.contractsCount}</p>
+                  <p className="text-xs text-gray-500">{activeCount} active, {completedCount} completed</p>
                 </div>
               </div>
             </div>
@@ -267,6 +440,33 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Milestone Deadlines */}
+          {deadlineAlerts.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Milestone Deadlines</h2>
+              <ul className="divide-y divide-gray-200">
+                {deadlineAlerts.map((alert) => (
+                  <li key={`${alert.contractId}-${alert.milestoneIndex}`} className="py-3 flex justify-between items-center">
+                    <div>
+                      <p className="text-sm font-medium text-gray-800">{alert.description}</p>
+                      <p className="text-xs text-gray-500">
+                        Contract #{alert.contractId}, milestone {alert.milestoneIndex + 1}, due {new Date(alert.deadline * 1000).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getDeadlineColor(alert.status)}`}>
+                        {alert.status === 'upcoming' ? `Due in ${formatDuration(alert.deadline - Math.floor(Date.now() / 1000))}` : alert.status === 'due' ? 'In grace period' : 'Overdue'}
+                      </span>
+                      <Link href={`/contracts/${alert.contractId}`} className="text-blue-600 hover:text-blue-900 text-sm font-medium">
+                        View
+                      </Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Recent Contracts */}
           <div className="bg-white rounded-xl shadow-md overflow-hidden">
             <div className="p-6">
@@ -288,6 +488,9 @@ export default function Dashboard() {
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Value
                     </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Escrow
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
@@ -312,6 +515,12 @@ export default function Dashboard() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {contract.value}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {contract.escrow}
+                          {contract.shortfall && (
+                            <p className="text-xs text-red-600">{contract.shortfall} short</p>
+                          )}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(contract.status)}`}>
                             {contract.status}
@@ -329,7 +538,7 @@ export default function Dashboard() {
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                      <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                         No contracts found. Create your first contract!
                       </td>
                     </tr>
@@ -346,6 +555,99 @@ export default function Dashboard() {
               </Link>
             </div>
           </div>
+
+          {/* Agent view */}
+          {isAgent && (
+            <div className="bg-white rounded-xl shadow-md overflow-hidden">
+              <div className="p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Represented Athletes</h2>
+                {agentDeals.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {groupByAthlete(agentDeals).map((entry) => (
+                      <div key={entry.athlete} className="border border-gray-200 rounded-lg p-4">
+                        <p className="font-medium text-gray-800">{formatAddress(entry.athlete)}</p>
+                        <p className="text-sm text-gray-500">{entry.deals} {entry.deals === 1 ? 'deal' : 'deals'}</p>
+                        <p className="text-sm text-gray-700 mt-2">Earned: {entry.earned.join(', ')}</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">No athlete has named you as their agent yet.</p>
+                )}
+              </div>
+              {agentDeals.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          ID
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Athlete
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Sponsor
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Value
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Commission
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Earned
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {agentDeals.map((deal) => (
+                        <tr key={deal.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            #{deal.id}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatAddress(deal.athlete)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatAddress(deal.sponsor)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {deal.value}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {deal.commission}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatAmount(deal.earned, deal.paymentToken)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(deal.status)}`}>
+                              {deal.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <Link
+                              href={`/contracts/${deal.id}`}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              View
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
         </>
       )}
     </div>
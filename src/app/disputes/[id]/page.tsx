@@ -0,0 +1,567 @@
+"use client";
+
+import { useEffect, useState, useRef } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ethers } from "ethers";
+import { useWeb3 } from "../../../context/Web3Context";
+import {
+  getAthleteContract,
+  getDisputeResolutionContract,
+  getContractDetails,
+  getMilestones,
+  getSettlementPreview,
+  getSettlement,
+  describeProRata,
+  formatAmount,
+  PRO_RATA_BY_TIME,
+  SettlementPreview,
+  SettlementRecord,
+  getErrorMessage
+} from "../../../utils/contracts";
+import Link from "next/link";
+import { uploadToIPFS, ipfsToGatewayUrl } from "../../../utils/ipfs";
+import SettlementStatement from "../../../components/SettlementStatement";
+
+export default function DisputeDetailsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { provider, isConnected, account } = useWeb3();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dispute, setDispute] = useState<{
+    id: string;
+    contractId: string;
+    athlete: string;
+    sponsor: string;
+    initiator: string;
+    reason: string;
+    evidence: string;
+    filedAt: string;
+    resolved: boolean;
+    athleteFavor: boolean;
+    athleteVotes: number;
+    sponsorVotes: number;
+    totalVotes: number;
+    arbitratorCount: number;
+    deadlocked: boolean;
+    paymentToken: string;
+    affectedMilestones: { index: number; description: string }[];
+  } | null>(null);
+  const [milestones, setMilestones] = useState<{ description: string; amountWei: ethers.BigNumber; paid: boolean }[]>([]);
+  const [settlementPreview, setSettlementPreview] = useState<SettlementPreview | null>(null);
+  const [settlement, setSettlement] = useState<SettlementRecord | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  // Basis of an admin ruling for the sponsor: elapsed time, or a percentage of partly delivered milestones
+  const [rulingBasis, setRulingBasis] = useState<"time" | "percentage">("time");
+  const [rulingPercent, setRulingPercent] = useState("");
+  const [evidenceHistory, setEvidenceHistory] = useState<{
+    submitter: string;
+    evidence: string;
+    submittedAt: string;
+    txHash: string;
+  }[]>([]);
+  const [isArbitrator, setIsArbitrator] = useState(false);
+  const [hasVoted, setHasVoted] = useState(false);
+  const [myVote, setMyVote] = useState<boolean | null>(null);
+  const [voteLoading, setVoteLoading] = useState(false);
+  const [voteError, setVoteError] = useState<string | null>(null);
+  const [newEvidenceFile, setNewEvidenceFile] = useState<File | null>(null);
+  const [evidenceLoading, setEvidenceLoading] = useState(false);
+  const [evidenceError, setEvidenceError] = useState<string | null>(null);
+  const fetchInProgress = useRef(false);
+
+  // Parse disputeId as string for contract calls
+  const disputeId = params?.id && !isNaN(Number(params.id)) ? params.id.toString() : null;
+
+  const timestampToDate = (timestamp: ethers.BigNumber | number) => {
+    if (!timestamp) return "";
+    const seconds = typeof timestamp === "number" ? timestamp : timestamp.toNumber();
+    return new Date(seconds * 1000).toLocaleString();
+  };
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  // Fetch dispute details, evidence history and the connected arbitrator's vote
+  const fetchDispute = async (showLoading = true) => {
+    if (fetchInProgress.current) return;
+    if (!provider || !isConnected || disputeId === null) return;
+    fetchInProgress.current = true;
+    if (showLoading) setLoading(true);
+    setError(null);
+    try {
+      const disputeResolution = getDisputeResolutionContract(provider);
+      const athleteContract = getAthleteContract(provider);
+      const disputeCount = await disputeResolution.disputeCount();
+      if (disputeCount.lte(disputeId)) throw new Error(`Dispute #${disputeId} does not exist`);
+
+      const details = await disputeResolution.getDisputeDetails(disputeId);
+      const contractDetails = await getContractDetails(athleteContract, details.contractId);
+      const affectedIndexes: ethers.BigNumber[] = await disputeResolution.getAffectedMilestones(disputeId);
+      const affectedMilestones = await Promise.all(
+        affectedIndexes.map(async (index) => {
+          const milestone = await athleteContract.getMilestoneDetails(details.contractId, index);
+          return { index: index.toNumber(), description: milestone.description };
+        })
+      );
+      setDispute({
+        id: disputeId,
+        contractId: details.contractId.toString(),
+        athlete: contractDetails.athlete,
+        sponsor: contractDetails.sponsor,
+        initiator: details.initiator,
+        reason: details.reason,
+        evidence: details.evidenceIPFSHash,
+        filedAt: timestampToDate(details.timestamp),
+        resolved: details.resolved,
+        athleteFavor: details.athleteFavor,
+        athleteVotes: details.athleteVotes.toNumber(),
+        sponsorVotes: details.sponsorVotes.toNumber(),
+        totalVotes: details.totalVotes.toNumber(),
+        // Votes are counted against the arbitrators sitting when the dispute was raised
+        arbitratorCount: details.panelSize.toNumber(),
+        deadlocked: details.deadlocked,
+        paymentToken: contractDetails.paymentToken,
+        affectedMilestones,
+      });
+      setMilestones((await getMilestones(athleteContract, details.contractId)).map(m => ({
+        description: m.description,
+        amountWei: m.amount,
+        paid: m.paid,
+      })));
+      setSettlement(await getSettlement(athleteContract, details.contractId));
+
+      // Evidence added after filing is only recorded in EvidenceSubmitted events
+      const evidenceEvents = await disputeResolution.queryFilter(
+        disputeResolution.filters.EvidenceSubmitted(disputeId)
+      );
+      const history = await Promise.all(
+        evidenceEvents.map(async (event) => {
+          const block = await event.getBlock();
+          return {
+            submitter: event.args?.submitter,
+            evidence: event.args?.evidenceIPFSHash,
+            submittedAt: timestampToDate(block.timestamp),
+            txHash: event.transactionHash,
+          };
+        })
+      );
+      setEvidenceHistory(history);
+
+      if (account) {
+        setIsAdmin(await disputeResolution.hasRole(await disputeResolution.DEFAULT_ADMIN_ROLE(), account));
+        const arbitratorRole = await disputeResolution.ARBITRATOR_ROLE();
+        const arbitrator: boolean = await disputeResolution.hasRole(arbitratorRole, account);
+        setIsArbitrator(arbitrator);
+        if (arbitrator) {
+          const voted: boolean = await disputeResolution.hasArbitratorVoted(disputeId, account);
+          setHasVoted(voted);
+          setMyVote(voted ? await disputeResolution.getArbitratorVote(disputeId, account) : null);
+        }
+      }
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setError(`Dispute not found or error fetching details.\nError: ${errorMsg}`);
+      console.error("Error fetching dispute details:", err);
+    } finally {
+      setLoading(false);
+      fetchInProgress.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (disputeId === null) {
+      setError("Invalid or missing dispute ID in URL.");
+      setLoading(false);
+      return;
+    }
+    if (!isConnected || !provider) {
+      setLoading(false);
+      return;
+    }
+    fetchDispute();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider, isConnected, account, disputeId]);
+
+  // Settlement a ruling for the sponsor would make now, on the basis the admin has chosen (votes settle by elapsed time)
+  const proRataBps = rulingBasis === "percentage" ? Math.round(Number(rulingPercent) * 100) : null;
+  const validProRata = rulingBasis === "time" || (rulingPercent.trim() !== "" && proRataBps !== null && proRataBps >= 0 && proRataBps <= 10000);
+  useEffect(() => {
+    if (!provider || !dispute || dispute.resolved || !validProRata) {
+      setSettlementPreview(null);
+      return;
+    }
+    getSettlementPreview(getAthleteContract(provider), dispute.contractId, proRataBps ?? PRO_RATA_BY_TIME)
+      .then(setSettlementPreview)
+      .catch(err => {
+        console.warn("Couldn't preview the settlement:", err);
+        setSettlementPreview(null);
+      });
+  }, [provider, dispute, proRataBps, validProRata]);
+
+  // Refresh tallies and evidence as votes, evidence and the ruling land on-chain
+  useEffect(() => {
+    if (!provider || disputeId === null) return;
+    const disputeResolution = getDisputeResolutionContract(provider);
+    const filters = [
+      disputeResolution.filters.ArbitratorVoted(disputeId),
+      disputeResolution.filters.EvidenceSubmitted(disputeId),
+      disputeResolution.filters.DisputeResolved(disputeId),
+    ];
+    const refresh = () => {
+      fetchDispute(false);
+    };
+    filters.forEach(filter => disputeResolution.on(filter, refresh));
+    return () => {
+      filters.forEach(filter => disputeResolution.off(filter, refresh));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider, disputeId]);
+
+  const handleVote = async (athleteFavor: boolean) => {
+    setVoteLoading(true);
+    setVoteError(null);
+    try {
+      if (!provider || !account || disputeId === null) throw new Error("Provider not available");
+      const signer = provider.getSigner();
+      const disputeResolution = getDisputeResolutionContract(signer);
+      // Check again right before sending so a stale page can't double vote
+      if (await disputeResolution.hasArbitratorVoted(disputeId, account)) {
+        throw new Error("You have already voted on this dispute");
+      }
+      const tx = await disputeResolution.voteOnDispute(disputeId, athleteFavor);
+      await tx.wait();
+      await fetchDispute(false);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setVoteError("Failed to submit vote: " + errorMsg);
+    } finally {
+      setVoteLoading(false);
+    }
+  };
+
+  const handleForceResolve = async (athleteFavor: boolean) => {
+    setVoteLoading(true);
+    setVoteError(null);
+    try {
+      if (!provider || disputeId === null) throw new Error("Provider not available");
+      if (!athleteFavor && !validProRata) throw new Error("Enter a share between 0% and 100%");
+      const signer = provider.getSigner();
+      const disputeResolution = getDisputeResolutionContract(signer);
+      const tx = await disputeResolution.forceResolveDispute(disputeId, athleteFavor, proRataBps ?? PRO_RATA_BY_TIME);
+      await tx.wait();
+      await fetchDispute(false);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setVoteError("Failed to resolve dispute: " + errorMsg);
+    } finally {
+      setVoteLoading(false);
+    }
+  };
+
+  const handleSubmitEvidence = async () => {
+    setEvidenceLoading(true);
+    setEvidenceError(null);
+    try {
+      if (!provider || disputeId === null) throw new Error("Provider not available");
+      if (!newEvidenceFile) throw new Error("Choose a document to submit");
+      const evidenceURI = await uploadToIPFS(newEvidenceFile);
+      const signer = provider.getSigner();
+      const disputeResolution = getDisputeResolutionContract(signer);
+      const tx = await disputeResolution.submitEvidence(disputeId, evidenceURI);
+      await tx.wait();
+      setNewEvidenceFile(null);
+      await fetchDispute(false);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setEvidenceError("Failed to submit evidence: " + errorMsg);
+    } finally {
+      setEvidenceLoading(false);
+    }
+  };
+
+  if (!isConnected || !provider) {
+    return (
+      <div className="max-w-xl mx-auto py-20 text-center">
+        <p className="text-blue-900 font-bold mb-4">Please connect your wallet to view dispute details.</p>
+        <Link href="/disputes" className="text-blue-600 hover:underline">Back to Disputes</Link>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+  if (error || !dispute) {
+    return (
+      <div className="max-w-xl mx-auto py-20 text-center">
+        <p className="text-red-600 font-bold mb-4 whitespace-pre-line">{error || "Dispute not found."}</p>
+        <Link href="/disputes" className="text-blue-600 hover:underline">Back to Disputes</Link>
+      </div>
+    );
+  }
+
+  const quorum = Math.floor(dispute.arbitratorCount / 2) + 1;
+  const isParty = !!account && [dispute.athlete, dispute.sponsor]
+    .some(party => party.toLowerCase() === account.toLowerCase());
+
+  return (
+    <div className="max-w-3xl mx-auto py-10 space-y-8">
+      <button
+        onClick={() => router.push("/disputes")}
+        className="mb-4 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded-lg"
+      >
+        &larr; Back to Disputes
+      </button>
+
+      {dispute.resolved && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-lg p-4">
+          <p className="font-bold">Ruling: in favor of the {dispute.athleteFavor ? "athlete" : "sponsor"}</p>
+          <p className="text-sm mt-1">
+            {dispute.athleteFavor
+              ? "The contract has been returned to Active."
+              : "The contract has been terminated."}
+          </p>
+          {settlement && (
+            <p className="text-sm mt-1">
+              Settlement: {formatAmount(settlement.athleteAmount, dispute.paymentToken)} paid to the athlete and{" "}
+              {formatAmount(settlement.refund, dispute.paymentToken)} refunded to the sponsor, with {describeProRata(settlement.proRataBps)}.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-8">
+        <h1 className="text-2xl font-bold text-blue-900 mb-2">Dispute #{dispute.id}</h1>
+        <div className="mb-4 flex flex-wrap gap-4">
+          <span className={`px-3 py-1 rounded-full text-sm font-medium border ${dispute.resolved ? "bg-blue-100 text-blue-800 border-blue-200" : "bg-red-100 text-red-800 border-red-200"}`}>
+            {dispute.resolved ? "Resolved" : "Open"}
+          </span>
+          <Link
+            href={`/contracts/${dispute.contractId}`}
+            className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm font-medium border border-gray-200 hover:bg-gray-200"
+          >
+            Contract #{dispute.contractId}
+          </Link>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <p className="text-sm text-gray-500">Athlete</p>
+            <p className="font-medium break-all">{dispute.athlete}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Sponsor</p>
+            <p className="font-medium break-all">{dispute.sponsor}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Filed By</p>
+            <p className="font-medium break-all">{dispute.initiator}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Filed At</p>
+            <p className="font-medium">{dispute.filedAt}</p>
+          </div>
+          <div className="md:col-span-2">
+            <p className="text-sm text-gray-500">Reason</p>
+            <p className="font-medium whitespace-pre-line">{dispute.reason}</p>
+          </div>
+          <div className="md:col-span-2">
+            <p className="text-sm text-gray-500">Affected Milestones</p>
+            {dispute.affectedMilestones.length > 0 ? (
+              <ul className="list-disc list-inside font-medium">
+                {dispute.affectedMilestones.map((milestone) => (
+                  <li key={milestone.index}>Milestone {milestone.index + 1}: {milestone.description}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="font-medium">Entire contract</p>
+            )}
+          </div>
+        </div>
+
+        {/* Vote tallies */}
+        <div className="mt-8">
+          <h2 className="text-lg font-bold text-blue-900 mb-4">Votes</h2>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
+              <p className="text-sm text-green-700">Athlete</p>
+              <p className="text-2xl font-bold text-green-800">{dispute.athleteVotes}</p>
+            </div>
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 text-center">
+              <p className="text-sm text-purple-700">Sponsor</p>
+              <p className="text-2xl font-bold text-purple-800">{dispute.sponsorVotes}</p>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-center">
+              <p className="text-sm text-gray-600">Cast</p>
+              <p className="text-2xl font-bold text-gray-800">{dispute.totalVotes} / {dispute.arbitratorCount}</p>
+            </div>
+          </div>
+          {!dispute.resolved && (dispute.deadlocked ? (
+            <p className="text-sm text-amber-700 mt-2">
+              Every arbitrator has voted and the votes are tied. The admin will break the tie.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500 mt-2">
+              {quorum} matching vote{quorum === 1 ? "" : "s"} needed for a ruling.
+            </p>
+          ))}
+        </div>
+
+        {/* Arbitrator voting panel */}
+        {isArbitrator && (
+          <div className="mt-8 border border-gray-200 rounded-lg p-6">
+            <h2 className="text-lg font-bold text-blue-900 mb-4">Arbitrator Vote</h2>
+            {dispute.resolved || dispute.deadlocked ? (
+              <p className="text-gray-600">Voting is closed for this dispute.</p>
+            ) : hasVoted ? (
+              <p className="text-gray-600">
+                You voted in favor of the {myVote ? "athlete" : "sponsor"}.
+              </p>
+            ) : (
+              <div className="flex gap-4">
+                <button
+                  onClick={() => handleVote(true)}
+                  disabled={voteLoading}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+                >
+                  {voteLoading ? "Submitting..." : "Rule for Athlete"}
+                </button>
+                <button
+                  onClick={() => handleVote(false)}
+                  disabled={voteLoading}
+                  className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+                >
+                  {voteLoading ? "Submitting..." : "Rule for Sponsor"}
+                </button>
+              </div>
+            )}
+            {voteError && <p className="text-red-600 mt-4">{voteError}</p>}
+          </div>
+        )}
+
+        {/* Settlement a ruling for the sponsor would make */}
+        {!dispute.resolved && settlementPreview && (isArbitrator || isAdmin || isParty) && (
+          <div className="mt-8">
+            <h2 className="text-lg font-bold text-blue-900 mb-2">Settlement if Ruled for the Sponsor</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              The contract would be terminated and its escrow split as below as of now,
+              with {describeProRata(proRataBps ?? PRO_RATA_BY_TIME)}. Overdue, forfeited and unmet bonus milestones are refunded, as are rejected ones with no resubmissions left.
+            </p>
+            <SettlementStatement preview={settlementPreview} milestones={milestones} paymentToken={dispute.paymentToken} />
+          </div>
+        )}
+
+        {/* Admin ruling, which can set the share paid for partly delivered milestones */}
+        {isAdmin && !dispute.resolved && (
+          <div className="mt-8 border border-gray-200 rounded-lg p-6">
+            <h2 className="text-lg font-bold text-blue-900 mb-4">Admin Ruling</h2>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+              <label htmlFor="rulingBasis" className="text-sm font-medium text-gray-700">Partly delivered milestones</label>
+              <select
+                id="rulingBasis"
+                value={rulingBasis}
+                onChange={(e) => setRulingBasis(e.target.value as "time" | "percentage")}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="time">Paid by elapsed time</option>
+                <option value="percentage">Paid at a ruling percentage</option>
+              </select>
+              {rulingBasis === "percentage" && (
+                <input
+                  type="number"
+                  value={rulingPercent}
+                  onChange={(e) => setRulingPercent(e.target.value)}
+                  placeholder="50"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              )}
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={() => handleForceResolve(true)}
+                disabled={voteLoading}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+              >
+                {voteLoading ? "Submitting..." : "Rule for Athlete"}
+              </button>
+              <button
+                onClick={() => handleForceResolve(false)}
+                disabled={voteLoading || !validProRata}
+                className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+              >
+                {voteLoading ? "Submitting..." : "Rule for Sponsor & Settle"}
+              </button>
+            </div>
+            {!isArbitrator && voteError && <p className="text-red-600 mt-4">{voteError}</p>}
+          </div>
+        )}
+
+        {/* Evidence history */}
+        <div className="mt-8">
+          <h2 className="text-lg font-bold text-blue-900 mb-4">Evidence</h2>
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {dispute.evidence && (
+              <li className="p-4">
+                <div className="flex justify-between text-sm text-gray-500 mb-1">
+                  <span>Filed with dispute by {formatAddress(dispute.initiator)}</span>
+                  <span>{dispute.filedAt}</span>
+                </div>
+                <a
+                  href={ipfsToGatewayUrl(dispute.evidence)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline font-medium break-all"
+                >
+                  {dispute.evidence}
+                </a>
+              </li>
+            )}
+            {evidenceHistory.map((item) => (
+              <li key={item.txHash} className="p-4">
+                <div className="flex justify-between text-sm text-gray-500 mb-1">
+                  <span>Submitted by {formatAddress(item.submitter)}</span>
+                  <span>{item.submittedAt}</span>
+                </div>
+                <a
+                  href={ipfsToGatewayUrl(item.evidence)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline font-medium break-all"
+                >
+                  {item.evidence}
+                </a>
+              </li>
+            ))}
+            {!dispute.evidence && evidenceHistory.length === 0 && (
+              <li className="p-4 text-gray-400">No evidence submitted.</li>
+            )}
+          </ul>
+          {isParty && !dispute.resolved && (
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <input
+                type="file"
+                onChange={(e) => setNewEvidenceFile(e.target.files?.[0] ?? null)}
+                className="text-sm text-gray-600"
+              />
+              <button
+                onClick={handleSubmitEvidence}
+                disabled={evidenceLoading || !newEvidenceFile}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-lg"
+              >
+                {evidenceLoading ? "Submitting..." : "Add Evidence"}
+              </button>
+            </div>
+          )}
+          {evidenceError && <p className="text-red-600 mt-2">{evidenceError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeb3 } from '../../context/Web3Context';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getAthleteContract, getDisputeResolutionContract } from '../../utils/contracts';
+
+interface DisputeSummary {
+  id: number;
+  contractId: number;
+  initiator: string;
+  reason: string;
+  filedAt: string;
+  resolved: boolean;
+  athleteFavor: boolean;
+  athleteVotes: number;
+  sponsorVotes: number;
+  deadlocked: boolean;
+}
+
+// Convert blockchain timestamp to readable date
+const timestampToDate = (timestamp: ethers.BigNumber): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp.toNumber() * 1000);
+  return date.toISOString().split('T')[0];
+};
+
+export default function DisputesPage() {
+  const { isConnected, account, provider } = useWeb3();
+  const [disputes, setDisputes] = useState<DisputeSummary[]>([]);
+  const [isArbitrator, setIsArbitrator] = useState(false);
+  const [filter, setFilter] = useState('open');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const disputeResolution = getDisputeResolutionContract(provider);
+        const athleteContract = getAthleteContract(provider);
+
+        const arbitratorRole = await disputeResolution.ARBITRATOR_ROLE();
+        const arbitrator: boolean = await disputeResolution.hasRole(arbitratorRole, account);
+        setIsArbitrator(arbitrator);
+
+        const events = await disputeResolution.queryFilter(disputeResolution.filters.DisputeCreated());
+        const allDisputes = await Promise.all(
+          events.map(async (event) => {
+            const disputeId = event.args?.disputeId;
+            const details = await disputeResolution.getDisputeDetails(disputeId);
+            const contractDetails = await athleteContract.getContractDetails(details.contractId);
+            const isParty = [contractDetails.athlete, contractDetails.sponsor]
+              .some((party: string) => party.toLowerCase() === account.toLowerCase());
+            // Arbitrators see every dispute; parties only see their own
+            if (!arbitrator && !isParty) return null;
+            return {
+              id: disputeId.toNumber(),
+              contractId: details.contractId.toNumber(),
+              initiator: details.initiator,
+              reason: details.reason,
+              filedAt: timestampToDate(details.timestamp),
+              resolved: details.resolved,
+              athleteFavor: details.athleteFavor,
+              athleteVotes: details.athleteVotes.toNumber(),
+              sponsorVotes: details.sponsorVotes.toNumber(),
+              deadlocked: details.deadlocked,
+            };
+          })
+        );
+        setDisputes(allDisputes.filter((d): d is DisputeSummary => d !== null).reverse());
+      } catch (err) {
+        console.error('Error fetching disputes:', err);
+        setError('Error fetching disputes: ' + (err instanceof Error ? err.message : String(err)));
+        setDisputes([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDisputes();
+  }, [isConnected, account, provider]);
+
+  // Format address for display
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  const filteredDisputes = disputes.filter(dispute => {
+    if (filter === 'open') return !dispute.resolved;
+    if (filter === 'resolved') return dispute.resolved;
+    return true;
+  });
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <svg className="h-16 w-16 text-blue-600 mx-auto mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Wallet Not Connected</h2>
+          <p className="text-gray-600 mb-8">Please connect your wallet to view disputes.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-blue-900">Disputes</h1>
+        <p className="text-gray-600 mt-2">
+          {isArbitrator ? 'All disputes awaiting arbitration' : 'Disputes on your contracts'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-red-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Filter tabs */}
+      <div className="flex flex-wrap gap-2 pb-4 border-b border-gray-200">
+        {['open', 'resolved', 'all'].map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setFilter(tab)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize ${
+              filter === tab
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ID</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contract</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Initiator</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Filed</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Votes</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredDisputes.length > 0 ? (
+                  filteredDisputes.map((dispute) => (
+                    <tr key={dispute.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">#{dispute.id}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Link href={`/contracts/${dispute.contractId}`} className="text-blue-600 hover:text-blue-900">
+                          #{dispute.contractId}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatAddress(dispute.initiator)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{dispute.reason}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{dispute.filedAt}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {dispute.athleteVotes} athlete / {dispute.sponsorVotes} sponsor
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${dispute.resolved ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'}`}>
+                          {dispute.resolved ? `Resolved for ${dispute.athleteFavor ? 'athlete' : 'sponsor'}` : dispute.deadlocked ? 'Tied, awaiting admin' : 'Open'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <Link href={`/disputes/${dispute.id}`} className="text-blue-600 hover:text-blue-900">
+                          View
+                        </Link>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                      No disputes found.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
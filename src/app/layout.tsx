@@ -2,6 +2,7 @@ import './globals.css'
 import type { Metadata } from 'next'
 import { Web3Provider } from '../context/Web3Context'
 import Navbar from '../components/Navbar'
+import Notifications from '../components/Notifications'
 import { Suspense } from 'react'
 
 export const metadata: Metadata = {
@@ -41,6 +42,7 @@ export default function RootLayout({
                 </div>
               </div>
             </footer>
+            <Notifications />
           </Web3Provider>
         </Suspense>
       </body>
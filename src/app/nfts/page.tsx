@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeb3 } from '../../context/Web3Context';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import {
+  getAthleteContract,
+  getSponsorshipNFTContract,
+  getTokenContract,
+  getRoyaltyHistory,
+  contractStateToString,
+  ensureAllowance,
+  formatAmount,
+  formatBps,
+  isNativePayment,
+  parseAmount,
+  RoyaltyDistribution,
+  getErrorMessage
+} from '../../utils/contracts';
+import { getSupportedTokens, getTokenBySymbol } from '../../utils/tokens';
+import { ipfsToGatewayUrl, resolveJSON } from '../../utils/ipfs';
+
+interface TokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  attributes?: { trait_type: string; value: string | number }[];
+}
+
+interface SponsorshipToken {
+  tokenId: number;
+  contractId: number;
+  tokenURI: string;
+  metadata: TokenMetadata | null;
+  status: string;
+  athlete: string;
+  royaltyBps: number;
+  royalties: RoyaltyDistribution[];
+}
+
+// Basis points are resolved by asking royaltyInfo for the royalty on a price of 10000
+const BPS_PRICE = 10000;
+
+export default function NFTsPage() {
+  const { isConnected, account, provider, chainId } = useWeb3();
+  const [tokens, setTokens] = useState<SponsorshipToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [distributions, setDistributions] = useState<Record<number, { amount: string; token: string }>>({});
+  const [distributingTokenId, setDistributingTokenId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTokens = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const nft = getSponsorshipNFTContract(provider);
+        const athleteContract = getAthleteContract(provider);
+
+        const tokenIds: ethers.BigNumber[] = await nft.getTokensByOwner(account);
+        const ownedTokens = await Promise.all(
+          tokenIds.map(async (tokenId) => {
+            const [tokenURI, contractId, [athlete, royaltyBps], royalties] = await Promise.all([
+              nft.tokenURI(tokenId),
+              nft.contractIdOf(tokenId),
+              nft.royaltyInfo(tokenId, BPS_PRICE),
+              getRoyaltyHistory(nft, tokenId),
+            ]);
+            let status = 'Unknown';
+            try {
+              const details = await athleteContract.getContractDetails(contractId);
+              status = contractStateToString(details.state);
+            } catch (detailError) {
+              console.error(`Error fetching details for contract ${contractId.toString()}:`, detailError);
+            }
+            return {
+              tokenId: tokenId.toNumber(),
+              contractId: contractId.toNumber(),
+              tokenURI,
+              metadata: await resolveJSON<TokenMetadata>(tokenURI),
+              status,
+              athlete,
+              royaltyBps: royaltyBps.toNumber(),
+              royalties,
+            };
+          })
+        );
+        setTokens(ownedTokens);
+      } catch (err) {
+        console.error('Error fetching sponsorship NFTs:', err);
+        setError('Error fetching your NFTs: ' + (err instanceof Error ? err.message : String(err)));
+        setTokens([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTokens();
+  }, [isConnected, account, provider, refreshTrigger]);
+
+  const getDistribution = (tokenId: number) =>
+    distributions[tokenId] ?? { amount: '', token: getSupportedTokens(chainId)[0].symbol };
+  const updateDistribution = (tokenId: number, field: 'amount' | 'token', value: string) => {
+    setDistributions(prev => ({ ...prev, [tokenId]: { ...getDistribution(tokenId), [field]: value } }));
+  };
+
+  // Pay out an amount for a token: the athlete's royalty share and the rest to the current holder
+  const handleDistribute = async (tokenId: number) => {
+    setDistributingTokenId(tokenId);
+    setActionError(null);
+    try {
+      if (!provider || !account) throw new Error('Provider not available');
+      const form = getDistribution(tokenId);
+      const token = getTokenBySymbol(chainId, form.token);
+      if (!token) throw new Error('Select a payment token');
+      const value = form.amount.trim();
+      if (!value || isNaN(Number(value)) || Number(value) <= 0) throw new Error('Amount must be a valid positive number');
+      const amount = parseAmount(value, token.address);
+
+      const signer = provider.getSigner();
+      const nft = getSponsorshipNFTContract(signer);
+      if (!isNativePayment(token.address)) {
+        await ensureAllowance(getTokenContract(token.address, signer), account, nft.address, amount);
+      }
+      const tx = await nft.distributeRoyalty(tokenId, token.address, amount, {
+        value: isNativePayment(token.address) ? amount : 0,
+      });
+      await tx.wait();
+      updateDistribution(tokenId, 'amount', '');
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setActionError(`Failed to distribute royalty for token #${tokenId}: ` + errorMsg);
+    } finally {
+      setDistributingTokenId(null);
+    }
+  };
+
+  // Format address for display
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <svg className="h-16 w-16 text-blue-600 mx-auto mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Wallet Not Connected</h2>
+          <p className="text-gray-600 mb-8">Please connect your wallet to view your NFTs.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-blue-900">Sponsorship NFTs</h1>
+        <p className="text-gray-600 mt-2">Tokenized sponsorship deals held by your wallet</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-red-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {actionError && <p className="mb-6 text-red-600">{actionError}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+        </div>
+      ) : tokens.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {tokens.map((token) => (
+            <div key={token.tokenId} className="bg-white rounded-xl shadow-md overflow-hidden border border-gray-100 hover:shadow-lg transition-shadow duration-300">
+              {token.metadata?.image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={ipfsToGatewayUrl(token.metadata.image)}
+                  alt={token.metadata.name || `Token #${token.tokenId}`}
+                  className="w-full h-48 object-cover"
+                />
+              ) : (
+                <div className="w-full h-48 bg-gradient-to-r from-blue-800 to-indigo-900 flex items-center justify-center">
+                  <span className="text-white text-2xl font-bold">#{token.tokenId}</span>
+                </div>
+              )}
+              <div className="p-6">
+                <div className="flex justify-between items-start mb-2">
+                  <h3 className="text-xl font-bold text-blue-900">{token.metadata?.name || `Token #${token.tokenId}`}</h3>
+                  <span className="px-3 py-1 text-sm font-medium rounded-full border bg-gray-100 text-gray-800 border-gray-200">
+                    {token.status}
+                  </span>
+                </div>
+                {token.metadata?.description && (
+                  <p className="text-gray-600 text-sm mb-4">{token.metadata.description}</p>
+                )}
+                {token.metadata?.attributes && token.metadata.attributes.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                    {token.metadata.attributes.map((attribute) => (
+                      <div key={attribute.trait_type}>
+                        <p className="text-xs text-gray-500">{attribute.trait_type}</p>
+                        <p className="text-sm font-medium break-all">{attribute.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="border-t border-gray-100 pt-4 mb-4">
+                  <p className="text-sm text-gray-700 mb-2">
+                    Athlete royalty: <span className="font-medium">{formatBps(token.royaltyBps)}</span> to {formatAddress(token.athlete)}
+                  </p>
+                  {token.royalties.length > 0 ? (
+                    <ul className="text-xs text-gray-600 space-y-1 border-l-2 border-gray-200 pl-3 mb-3">
+                      {token.royalties.map((royalty) => (
+                        <li key={royalty.transactionHash}>
+                          <span className="text-gray-400">{new Date(royalty.timestamp * 1000).toLocaleDateString()}</span>{' '}
+                          {formatAmount(royalty.amount, royalty.paymentToken)} paid by {formatAddress(royalty.payer)}:{' '}
+                          {formatAmount(royalty.athleteShare, royalty.paymentToken)} to the athlete,{' '}
+                          {formatAmount(royalty.holderShare, royalty.paymentToken)} to {formatAddress(royalty.holder)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-gray-500 mb-3">No royalties distributed yet.</p>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={getDistribution(token.tokenId).amount}
+                      onChange={(e) => updateDistribution(token.tokenId, 'amount', e.target.value)}
+                      placeholder="Amount"
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <select
+                      value={getDistribution(token.tokenId).token}
+                      onChange={(e) => updateDistribution(token.tokenId, 'token', e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {getSupportedTokens(chainId).map((supported) => (
+                        <option key={supported.symbol} value={supported.symbol}>{supported.symbol}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleDistribute(token.tokenId)}
+                      disabled={distributingTokenId !== null || !getDistribution(token.tokenId).amount}
+                      className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                    >
+                      {distributingTokenId === token.tokenId ? 'Paying...' : 'Distribute'}
+                    </button>
+                  </div>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-500">Token #{token.tokenId}</span>
+                  <Link
+                    href={`/contracts/${token.contractId}`}
+                    className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-2 px-4 rounded-lg"
+                  >
+                    View Contract #{token.contractId}
+                  </Link>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="py-12 text-center">
+          <h3 className="text-xl font-medium text-gray-600 mb-2">No NFTs found</h3>
+          <p className="text-gray-500 mb-6">
+            Tokenize one of your deals from its contract page to mint a sponsorship NFT.
+          </p>
+          <Link
+            href="/contracts"
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg inline-block"
+          >
+            View Contracts
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
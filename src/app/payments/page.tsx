@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeb3 } from '../../context/Web3Context';
+import Link from 'next/link';
+import { getAthleteContract, getFactoryContract } from '../../utils/contracts';
+import { filterLedger, getPaymentLedger, ledgerToCSV, ledgerToJSON, LedgerEntry } from '../../utils/payments';
+
+// Date inputs give YYYY-MM-DD; the range covers both days in full, in local time
+const startOfDay = (date: string) => Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000);
+const endOfDay = (date: string) => Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000);
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function PaymentsPage() {
+  const { isConnected, account, provider, subscribeToContractEvents } = useWeb3();
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [contractFilter, setContractFilter] = useState('');
+  const [tokenFilter, setTokenFilter] = useState('');
+
+  // New payouts on the account's contracts show up without a reload
+  useEffect(() => {
+    return subscribeToContractEvents((event) => {
+      if (event.name === 'PaymentReleased') setRefreshTrigger(prev => prev + 1);
+    });
+  }, [subscribeToContractEvents]);
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoading(false);
+        return;
+      }
+      setError(null);
+      try {
+        const factory = getFactoryContract(provider);
+        const athleteContract = getAthleteContract(provider);
+        setEntries(await getPaymentLedger(factory, athleteContract, account));
+      } catch (err) {
+        console.error('Error fetching payments:', err);
+        setError('Error fetching payments: ' + (err instanceof Error ? err.message : String(err)));
+        setEntries([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLedger();
+  }, [isConnected, account, provider, refreshTrigger]);
+
+  // Format address for display
+  const formatAddress = (address: string) => {
+    return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+  };
+
+  const contractIds = [...new Set(entries.map(entry => entry.contractId))].sort((a, b) => a - b);
+  const tokenSymbols = [...new Set(entries.map(entry => entry.tokenSymbol))].sort();
+  const filteredEntries = filterLedger(entries, {
+    from: fromDate ? startOfDay(fromDate) : undefined,
+    to: toDate ? endOfDay(toDate) : undefined,
+    contractId: contractFilter ? Number(contractFilter) : undefined,
+    tokenSymbol: tokenFilter || undefined,
+  });
+
+  const exportLedger = (format: 'csv' | 'json') => {
+    const filename = `athletechain-payments-${account?.substring(0, 8)}-${new Date().toISOString().split('T')[0]}.${format}`;
+    if (format === 'csv') {
+      downloadFile(ledgerToCSV(filteredEntries), filename, 'text/csv');
+    } else {
+      downloadFile(ledgerToJSON(filteredEntries), filename, 'application/json');
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <svg className="h-16 w-16 text-blue-600 mx-auto mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Wallet Not Connected</h2>
+          <p className="text-gray-600 mb-8">Please connect your wallet to view your payments.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row justify-between items-start mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-blue-900">Payments</h1>
+          <p className="text-gray-600 mt-2">Every milestone, stipend and settlement payment released to or from your wallet</p>
+        </div>
+        <div className="mt-4 md:mt-0 flex gap-2">
+          <button
+            onClick={() => exportLedger('csv')}
+            disabled={filteredEntries.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-lg"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportLedger('json')}
+            disabled={filteredEntries.length === 0}
+            className="bg-white hover:bg-gray-100 disabled:opacity-50 text-blue-600 border border-blue-600 font-bold py-2 px-4 rounded-lg"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-red-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pb-4 border-b border-gray-200">
+        <div>
+          <label htmlFor="fromDate" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            id="fromDate"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="toDate" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            id="toDate"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="contractFilter" className="block text-sm font-medium text-gray-700 mb-1">Contract</label>
+          <select
+            id="contractFilter"
+            value={contractFilter}
+            onChange={(e) => setContractFilter(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All contracts</option>
+            {contractIds.map((id) => (
+              <option key={id} value={id}>#{id}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="tokenFilter" className="block text-sm font-medium text-gray-700 mb-1">Token</label>
+          <select
+            id="tokenFilter"
+            value={tokenFilter}
+            onChange={(e) => setTokenFilter(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All tokens</option>
+            {tokenSymbols.map((symbol) => (
+              <option key={symbol} value={symbol}>{symbol}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contract</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Milestone</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counterparty</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaction</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredEntries.length > 0 ? (
+                  filteredEntries.map((entry) => (
+                    <tr key={`${entry.transactionHash}-${entry.milestoneIndex}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(entry.timestamp * 1000).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Link href={`/contracts/${entry.contractId}`} className="text-blue-600 hover:text-blue-900">
+                          #{entry.contractId}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{entry.milestone}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${entry.direction === 'in' ? 'text-green-600' : 'text-red-600'}`}>
+                        {entry.direction === 'in' ? '+' : '-'}{entry.formattedAmount} {entry.tokenSymbol}
+                        <p className="text-xs font-normal text-gray-500 capitalize">as {entry.role}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatAddress(entry.counterparty)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500" title={entry.transactionHash}>
+                        {formatAddress(entry.transactionHash)}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                      {entries.length > 0 ? 'No payments match these filters.' : 'No payments have been released on your contracts yet.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
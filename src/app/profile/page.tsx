@@ -0,0 +1,536 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWeb3 } from '../../context/Web3Context';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { getFactoryContract, requestStatusToString, ROLE_NAMES, RoleName, getErrorMessage } from '../../utils/contracts';
+import { ipfsToGatewayUrl, resolveJSON, toJSONDataURI } from '../../utils/ipfs';
+
+interface ProfileMetadata {
+  sport?: string;
+  team?: string;
+  bio?: string;
+  avatar?: string;
+  socials?: {
+    twitter?: string;
+    instagram?: string;
+    tiktok?: string;
+  };
+}
+
+interface RoleRequestSummary {
+  id: number;
+  role: string;
+  status: string;
+  reason: string;
+  requestedAt: string;
+}
+
+// Roles a user can ask the admin for
+const REQUESTABLE_ROLES: RoleName[] = ['ATHLETE_ROLE', 'SPONSOR_ROLE', 'AGENT_ROLE', 'ARBITRATOR_ROLE'];
+
+// Convert blockchain timestamp to readable date
+const timestampToDate = (timestamp: ethers.BigNumber): string => {
+  if (!timestamp || timestamp.isZero()) return '';
+  const date = new Date(timestamp.toNumber() * 1000);
+  return date.toISOString().split('T')[0];
+};
+
+const emptyForm = {
+  name: '',
+  sport: '',
+  team: '',
+  bio: '',
+  avatar: '',
+  twitter: '',
+  instagram: '',
+  tiktok: ''
+};
+
+export default function ProfilePage() {
+  const { isConnected, account, provider } = useWeb3();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isRegistered, setIsRegistered] = useState(false);
+  const [name, setName] = useState('');
+  const [verified, setVerified] = useState(false);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [profileURI, setProfileURI] = useState('');
+  const [profile, setProfile] = useState<ProfileMetadata | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [roleRequests, setRoleRequests] = useState<RoleRequestSummary[]>([]);
+  const [requestedRole, setRequestedRole] = useState('');
+  const [isRequestingRole, setIsRequestingRole] = useState(false);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const factory = getFactoryContract(provider);
+        const registered: boolean = await factory.isRegistered(account);
+        setIsRegistered(registered);
+        if (!registered) return;
+
+        const user = await factory.getUser(account);
+        setName(user.name);
+        setVerified(user.verified);
+        setProfileURI(user.profileIPFSHash);
+
+        // Role constants are read from the contract rather than hashed locally
+        const roleHashes: Record<string, string> = {};
+        const heldRoles = await Promise.all(
+          ROLE_NAMES.map(async (roleName) => {
+            const role = await factory[roleName]();
+            roleHashes[role] = roleName;
+            const hasRole: boolean = await factory.isUserInRole(account, role);
+            return hasRole ? roleName : null;
+          })
+        );
+        setRoles(heldRoles.filter((role): role is RoleName => role !== null));
+
+        const requestEvents = await factory.queryFilter(factory.filters.RoleRequested(null, account));
+        const requests = await Promise.all(
+          requestEvents.map(async (event) => {
+            const requestId = event.args?.requestId;
+            const request = await factory.roleRequests(requestId);
+            return {
+              id: requestId.toNumber(),
+              role: roleHashes[request.role] || request.role,
+              status: requestStatusToString(request.status),
+              reason: request.decisionReason,
+              requestedAt: timestampToDate(request.requestedAt),
+            };
+          })
+        );
+        setRoleRequests(requests.reverse());
+
+        setProfile(await resolveJSON<ProfileMetadata>(user.profileIPFSHash));
+      } catch (err) {
+        console.error('Error fetching profile:', err);
+        setError('Error fetching profile: ' + (err instanceof Error ? err.message : String(err)));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [isConnected, account, provider, refreshTrigger]);
+
+  const formatRole = (role: string) => {
+    const label = role.replace('_ROLE', '').toLowerCase();
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
+  const handleRequestRole = async () => {
+    if (!provider || !requestedRole) return;
+    setIsRequestingRole(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      const tx = await factory.requestRole(await factory[requestedRole as RoleName]());
+      await tx.wait();
+      setSuccess(`Requested the ${formatRole(requestedRole)} role. An admin will review it shortly.`);
+      setRequestedRole('');
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      console.error('Error requesting role:', err);
+      const errorMsg = getErrorMessage(err);
+      setError(errorMsg);
+    } finally {
+      setIsRequestingRole(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value
+    });
+  };
+
+  const startEditing = () => {
+    setFormData({
+      name,
+      sport: profile?.sport || '',
+      team: profile?.team || '',
+      bio: profile?.bio || '',
+      avatar: profile?.avatar || '',
+      twitter: profile?.socials?.twitter || '',
+      instagram: profile?.socials?.instagram || '',
+      tiktok: profile?.socials?.tiktok || ''
+    });
+    setSuccess(null);
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      if (!provider) {
+        throw new Error('Wallet not connected');
+      }
+      if (!formData.name.trim()) {
+        throw new Error('Name is required');
+      }
+
+      const metadata: ProfileMetadata = {
+        sport: formData.sport.trim(),
+        team: formData.team.trim(),
+        bio: formData.bio.trim(),
+        avatar: formData.avatar.trim(),
+        socials: {
+          twitter: formData.twitter.trim(),
+          instagram: formData.instagram.trim(),
+          tiktok: formData.tiktok.trim()
+        }
+      };
+
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      const tx = await factory.updateProfile(formData.name.trim(), toJSONDataURI(metadata));
+      await tx.wait();
+
+      setSuccess('Profile updated successfully');
+      setIsEditing(false);
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      console.error('Error updating profile:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <svg className="h-16 w-16 text-blue-600 mx-auto mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Wallet Not Connected</h2>
+          <p className="text-gray-600 mb-8">Please connect your wallet to view your profile.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!isRegistered) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">No Profile Yet</h2>
+          <p className="text-gray-600 mb-8">This wallet isn&apos;t registered on AthleteChain.</p>
+          <Link
+            href="/register"
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg inline-block"
+          >
+            Register Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const pendingRoles = roleRequests.filter(request => request.status === 'Pending').map(request => request.role);
+  const requestableRoles = REQUESTABLE_ROLES.filter(role => !roles.includes(role) && !pendingRoles.includes(role));
+
+  const socials = profile?.socials
+    ? Object.entries(profile.socials).filter(([, handle]) => !!handle)
+    : [];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-blue-900">Your Profile</h1>
+        <p className="text-gray-600 mt-2">How other AthleteChain users see you</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-red-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-800 rounded-lg p-4">
+          <div className="flex">
+            <svg className="h-5 w-5 text-green-600 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <p>{success}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6 md:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6 mb-6">
+          {profile?.avatar ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={ipfsToGatewayUrl(profile.avatar)}
+              alt={name}
+              className="h-24 w-24 rounded-full object-cover border border-gray-200"
+            />
+          ) : (
+            <div className="h-24 w-24 rounded-full bg-gradient-to-r from-blue-800 to-indigo-900 flex items-center justify-center">
+              <span className="text-white text-3xl font-bold">{name.charAt(0).toUpperCase() || '?'}</span>
+            </div>
+          )}
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-blue-900">{name || 'Unnamed user'}</h2>
+            <p className="text-gray-500 text-sm break-all">{account}</p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <span className={`px-3 py-1 rounded-full text-sm font-medium border ${verified ? 'bg-green-100 text-green-800 border-green-200' : 'bg-yellow-100 text-yellow-800 border-yellow-200'}`}>
+                {verified ? 'Verified' : 'Unverified'}
+              </span>
+              {!verified && (
+                <Link href="/register" className="px-3 py-1 text-sm font-medium text-blue-600 hover:text-blue-900">
+                  Request verification
+                </Link>
+              )}
+              {roles.map((role) => (
+                <span key={role} className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 text-sm font-medium border border-blue-200">
+                  {formatRole(role)}
+                </span>
+              ))}
+            </div>
+          </div>
+          {!isEditing && (
+            <button
+              onClick={startEditing}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg self-start"
+            >
+              Edit Profile
+            </button>
+          )}
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="sport" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sport
+                </label>
+                <input
+                  type="text"
+                  id="sport"
+                  name="sport"
+                  value={formData.sport}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="team" className="block text-sm font-medium text-gray-700 mb-1">
+                  Team
+                </label>
+                <input
+                  type="text"
+                  id="team"
+                  name="team"
+                  value={formData.team}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="bio" className="block text-sm font-medium text-gray-700 mb-1">
+                Bio
+              </label>
+              <textarea
+                id="bio"
+                name="bio"
+                value={formData.bio}
+                onChange={handleChange}
+                rows={4}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="avatar" className="block text-sm font-medium text-gray-700 mb-1">
+                Avatar URL
+              </label>
+              <input
+                type="text"
+                id="avatar"
+                name="avatar"
+                value={formData.avatar}
+                onChange={handleChange}
+                placeholder="https://... or ipfs://..."
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {(['twitter', 'instagram', 'tiktok'] as const).map((network) => (
+                <div key={network}>
+                  <label htmlFor={network} className="block text-sm font-medium text-gray-700 mb-1 capitalize">
+                    {network}
+                  </label>
+                  <input
+                    type="text"
+                    id={network}
+                    name={network}
+                    value={formData[network]}
+                    onChange={handleChange}
+                    placeholder="@handle"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                className="border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-medium py-2 px-6 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg"
+              >
+                {isSaving ? 'Saving...' : 'Save Profile'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm text-gray-500">Sport</p>
+              <p className="font-medium">{profile?.sport || 'Not set'}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Team</p>
+              <p className="font-medium">{profile?.team || 'Not set'}</p>
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-sm text-gray-500">Bio</p>
+              <p className="font-medium whitespace-pre-line">{profile?.bio || 'Not set'}</p>
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-sm text-gray-500">Social</p>
+              {socials.length > 0 ? (
+                <div className="flex flex-wrap gap-4">
+                  {socials.map(([network, handle]) => (
+                    <span key={network} className="font-medium">
+                      <span className="capitalize text-gray-500">{network}:</span> {handle}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="font-medium">Not set</p>
+              )}
+            </div>
+            {!profile && profileURI && (
+              <p className="md:col-span-2 text-sm text-yellow-700">
+                Profile metadata at {profileURI} could not be loaded.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 md:p-8">
+        <h2 className="text-xl font-semibold text-blue-900 mb-2">Roles</h2>
+        <p className="text-gray-600 mb-4">Request an additional role if you act in more than one capacity, for example as both an athlete and an agent.</p>
+        {requestableRoles.length > 0 ? (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={requestedRole}
+              onChange={(e) => setRequestedRole(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Select a role...</option>
+              {requestableRoles.map((role) => (
+                <option key={role} value={role}>{formatRole(role)}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleRequestRole}
+              disabled={!requestedRole || isRequestingRole}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+            >
+              {isRequestingRole ? 'Requesting...' : 'Request Role'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">There are no further roles to request.</p>
+        )}
+
+        {roleRequests.length > 0 && (
+          <ul className="mt-6 divide-y divide-gray-200 text-sm">
+            {roleRequests.map((request) => (
+              <li key={request.id} className="py-2 flex flex-wrap justify-between gap-2">
+                <span>
+                  {formatRole(request.role)} &middot; requested {request.requestedAt}
+                  {request.reason && <span className="text-gray-500"> &middot; {request.reason}</span>}
+                </span>
+                <span className={
+                  request.status === 'Pending' ? 'text-yellow-700' :
+                  request.status === 'Approved' ? 'text-green-700' : 'text-red-700'
+                }>
+                  {request.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
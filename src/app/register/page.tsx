@@ -1,10 +1,29 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useWeb3 } from '../../context/Web3Context';
+import Link from 'next/link';
 import { ethers } from 'ethers';
-import contractAddresses from '../../contract-addresses.json';
-import factoryAbi from '../../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
+import { getFactoryContract, requestStatusToString, getErrorMessage } from '../../utils/contracts';
+import { uploadToIPFS, toJSONDataURI } from '../../utils/ipfs';
+
+interface VerificationRequestSummary {
+  id: number;
+  status: string;
+  reason: string;
+  requestedAt: string;
+  decidedAt: string;
+}
+
+// Roles users may pick for themselves; admin rights are only granted by the admin
+const SELF_SERVICE_ROLES = ['ATHLETE_ROLE', 'SPONSOR_ROLE', 'AGENT_ROLE', 'ARBITRATOR_ROLE'];
+
+// Convert blockchain timestamp to readable date
+const timestampToDate = (timestamp: ethers.BigNumber): string => {
+  if (!timestamp || timestamp.isZero()) return '';
+  const date = new Date(timestamp.toNumber() * 1000);
+  return date.toISOString().split('T')[0];
+};
 
 export default function RegisterPage() {
   const { isConnected, account, provider, connectWallet } = useWeb3();
@@ -13,14 +32,60 @@ export default function RegisterPage() {
   const [success, setSuccess] = useState<string | null>(null);
   const [walletType, setWalletType] = useState('metamask');
   const [walletError, setWalletError] = useState<string | null>(null);
+  const [loadingStatus, setLoadingStatus] = useState(true);
+  const [isRegistered, setIsRegistered] = useState(false);
+  const [isVerified, setIsVerified] = useState(false);
+  const [latestRequest, setLatestRequest] = useState<VerificationRequestSummary | null>(null);
+  const [documents, setDocuments] = useState<File[]>([]);
+  const [note, setNote] = useState('');
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const [formData, setFormData] = useState({
-    address: '',
     name: '',
-    role: 'SPONSOR_ROLE',
-    profileIPFSHash: 'ipfs://QmPlaceholderHash'
+    role: 'SPONSOR_ROLE'
   });
 
+  useEffect(() => {
+    const fetchStatus = async () => {
+      if (!isConnected || !account || !provider) {
+        setLoadingStatus(false);
+        return;
+      }
+      setLoadingStatus(true);
+      try {
+        const factory = getFactoryContract(provider);
+        const registered: boolean = await factory.isRegistered(account);
+        setIsRegistered(registered);
+        if (!registered) return;
+
+        const user = await factory.getUser(account);
+        setIsVerified(user.verified);
+
+        const hasRequest: boolean = await factory.hasVerificationRequest(account);
+        if (!hasRequest) {
+          setLatestRequest(null);
+          return;
+        }
+        const requestId = await factory.latestVerificationRequestOf(account);
+        const request = await factory.verificationRequests(requestId);
+        setLatestRequest({
+          id: requestId.toNumber(),
+          status: requestStatusToString(request.status),
+          reason: request.decisionReason,
+          requestedAt: timestampToDate(request.requestedAt),
+          decidedAt: timestampToDate(request.decidedAt),
+        });
+      } catch (err) {
+        console.error('Error fetching registration status:', err);
+        setError('Error fetching registration status: ' + (err instanceof Error ? err.message : String(err)));
+      } finally {
+        setLoadingStatus(false);
+      }
+    };
+
+    fetchStatus();
+  }, [isConnected, account, provider, refreshTrigger]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData({
@@ -40,51 +105,25 @@ export default function RegisterPage() {
         throw new Error("Wallet not connected");
       }
 
-      if (!ethers.utils.isAddress(formData.address)) {
-        throw new Error("Invalid address format");
-      }
-
-      let roleBytes;
-      switch(formData.role) {
-        case 'ATHLETE_ROLE':
-          roleBytes = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("ATHLETE_ROLE"));
-          break;
-        case 'SPONSOR_ROLE':
-          roleBytes = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("SPONSOR_ROLE"));
-          break;
-        case 'AGENT_ROLE':
-          roleBytes = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("AGENT_ROLE"));
-          break;
-        case 'ARBITRATOR_ROLE':
-          roleBytes = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("ARBITRATOR_ROLE"));
-          break;
-        default:
-          throw new Error("Invalid role");
+      if (!SELF_SERVICE_ROLES.includes(formData.role)) {
+        throw new Error("Invalid role");
       }
+      const roleBytes = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(formData.role));
 
       const signer = provider.getSigner();
-      const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
+      const factory = getFactoryContract(signer);
 
       const tx = await factory.registerUser(
-        formData.address,
+        account,
         roleBytes,
         formData.name,
-        formData.profileIPFSHash
+        ''
       );
 
       await tx.wait();
 
-      const verifyTx = await factory.verifyUser(formData.address);
-      await verifyTx.wait();
-
-      setSuccess(`User ${formData.address} successfully registered as ${formData.role}`);
-
-      setFormData({
-        address: '',
-        name: '',
-        role: 'SPONSOR_ROLE',
-        profileIPFSHash: 'ipfs://QmPlaceholderHash'
-      });
+      setSuccess(`Registered as ${formData.role}. Submit your verification documents below to get verified.`);
+      setRefreshTrigger(prev => prev + 1);
     } catch (error) {
       console.error('Error registering user:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -94,6 +133,48 @@ export default function RegisterPage() {
     }
   };
 
+  const handleDocumentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      setDocuments([...documents, ...Array.from(e.target.files)]);
+    }
+  };
+
+  const handleRequestVerification = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      if (!provider) {
+        throw new Error("Wallet not connected");
+      }
+      if (documents.length === 0) {
+        throw new Error("Please attach at least one supporting document");
+      }
+
+      const uploaded = await Promise.all(
+        documents.map(async (file) => ({ name: file.name, uri: await uploadToIPFS(file) }))
+      );
+
+      const signer = provider.getSigner();
+      const factory = getFactoryContract(signer);
+      const tx = await factory.requestVerification(toJSONDataURI({ note: note.trim(), documents: uploaded }));
+      await tx.wait();
+
+      setSuccess('Verification request submitted. An admin will review it shortly.');
+      setDocuments([]);
+      setNote('');
+      setRefreshTrigger(prev => prev + 1);
+    } catch (err) {
+      console.error('Error requesting verification:', err);
+      const errorMsg = getErrorMessage(err);
+      setError(errorMsg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleConnectWallet = async () => {
     setWalletError(null);
     try {
@@ -152,11 +233,17 @@ export default function RegisterPage() {
     );
   }
 
+  const canRequestVerification = !isVerified && (!latestRequest || latestRequest.status === 'Rejected');
+
   return (
     <div className="max-w-3xl mx-auto">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-blue-900">Register User</h1>
-        <p className="text-gray-600 mt-2">Assign roles to users in the platform</p>
+        <h1 className="text-3xl font-bold text-blue-900">{isRegistered ? 'Account Verification' : 'Register Account'}</h1>
+        <p className="text-gray-600 mt-2">
+          {isRegistered
+            ? 'Submit supporting documents so an admin can verify your account'
+            : 'Create your AthleteChain account with this wallet'}
+        </p>
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6 md:p-8">
@@ -182,78 +269,168 @@ export default function RegisterPage() {
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
-              User Wallet Address
-            </label>
-            <input
-              type="text"
-              id="address"
-              name="address"
-              value={formData.address}
-              onChange={handleChange}
-              placeholder="0x..."
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
-              required
-            />
+        {loadingStatus ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
           </div>
+        ) : !isRegistered ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
+                Wallet Address
+              </label>
+              <input
+                type="text"
+                id="address"
+                value={account || ''}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-500"
+                disabled
+              />
+            </div>
 
-          <div>
-            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
-              User Name
-            </label>
-            <input
-              type="text"
-              id="name"
-              name="name"
-              value={formData.name}
-              onChange={handleChange}
-              placeholder="Name or organization"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
-              required
-            />
-          </div>
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                placeholder="Name or organization"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
 
-          <div>
-            <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
-              Role
-            </label>
-            <select
-              id="role"
-              name="role"
-              value={formData.role}
-              onChange={handleChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
-              required
-            >
-              <option value="ATHLETE_ROLE">Athlete</option>
-              <option value="SPONSOR_ROLE">Sponsor</option>
-              <option value="AGENT_ROLE">Agent</option>
-              <option value="ARBITRATOR_ROLE">Arbitrator</option>
-            </select>
-          </div>
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
+                Role
+              </label>
+              <select
+                id="role"
+                name="role"
+                value={formData.role}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                required
+              >
+                <option value="ATHLETE_ROLE">Athlete</option>
+                <option value="SPONSOR_ROLE">Sponsor</option>
+                <option value="AGENT_ROLE">Agent</option>
+                <option value="ARBITRATOR_ROLE">Arbitrator</option>
+              </select>
+            </div>
 
-          <div className="pt-4">
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-lg flex justify-center items-center"
-            >
-              {isSubmitting ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Registering User...
-                </>
-              ) : (
-                'Register User'
-              )}
-            </button>
+            <div className="pt-4">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-lg flex justify-center items-center"
+              >
+                {isSubmitting ? (
+                  <>
+                    <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Registering...
+                  </>
+                ) : (
+                  'Register'
+                )}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            {isVerified ? (
+              <div className="text-center py-6">
+                <h2 className="text-xl font-bold text-green-800 mb-2">Your account is verified</h2>
+                <Link href="/profile" className="text-blue-600 hover:text-blue-900 font-medium">
+                  View your profile
+                </Link>
+              </div>
+            ) : latestRequest && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-2">
+                  <h2 className="text-lg font-semibold text-blue-900">Verification Request #{latestRequest.id}</h2>
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    latestRequest.status === 'Pending' ? 'bg-yellow-100 text-yellow-800' :
+                    latestRequest.status === 'Approved' ? 'bg-green-100 text-green-800' :
+                    'bg-red-100 text-red-800'
+                  }`}>
+                    {latestRequest.status}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500">Submitted {latestRequest.requestedAt}</p>
+                {latestRequest.decidedAt && (
+                  <p className="text-sm text-gray-500">Reviewed {latestRequest.decidedAt}</p>
+                )}
+                {latestRequest.reason && (
+                  <p className="mt-2 text-sm"><span className="font-medium">Admin note:</span> {latestRequest.reason}</p>
+                )}
+              </div>
+            )}
+
+            {canRequestVerification && (
+              <form onSubmit={handleRequestVerification} className="space-y-6">
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-1">Supporting Documents</p>
+                  <p className="text-sm text-gray-500 mb-3">For example an athlete ID, league registration or company registration.</p>
+                  {documents.length > 0 && (
+                    <ul className="mb-3 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                      {documents.map((file, index) => (
+                        <li key={`${file.name}-${index}`} className="flex justify-between items-center p-3 text-sm">
+                          <span className="truncate">{file.name}</span>
+                          <button
+                            type="button"
+                            onClick={() => setDocuments(documents.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800 ml-2"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <label htmlFor="verification-documents" className="inline-block bg-blue-100 hover:bg-blue-200 text-blue-800 py-2 px-4 rounded-lg cursor-pointer text-sm font-medium">
+                    Add Documents
+                  </label>
+                  <input
+                    id="verification-documents"
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={handleDocumentChange}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="note" className="block text-sm font-medium text-gray-700 mb-1">
+                    Note for the reviewer (optional)
+                  </label>
+                  <textarea
+                    id="note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-lg"
+                >
+                  {isSubmitting ? 'Submitting...' : latestRequest ? 'Resubmit for Verification' : 'Request Verification'}
+                </button>
+              </form>
+            )}
           </div>
-        </form>
+        )}
       </div>
 
       <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
@@ -264,10 +441,10 @@ export default function RegisterPage() {
         <ul className="list-disc list-inside space-y-2 text-blue-700">
           <li><span className="font-medium">Athlete:</span> Can create contracts and receive payments</li>
           <li><span className="font-medium">Sponsor:</span> Can fund contracts and approve milestones</li>
-          <li><span className="font-medium">Agent:</span> Can create contracts on behalf of athletes</li>
+          <li><span className="font-medium">Agent:</span> Represents athletes and earns a commission on their milestone payments</li>
           <li><span className="font-medium">Arbitrator:</span> Can resolve disputes between athletes and sponsors</li>
         </ul>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
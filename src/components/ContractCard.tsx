@@ -2,6 +2,8 @@
 
 import Link from 'next/link';
 import { useState } from 'react';
+import { getDocumentHash } from '../utils/contracts';
+import { ipfsToGatewayUrl } from '../utils/ipfs';
 
 interface ContractCardProps {
   id: number;
@@ -49,20 +51,6 @@ export default function ContractCard({
     }
   };
 
-  // Format IPFS hash for display and linking
-  const formatIPFSLink = (hash: string | undefined) => {
-    if (!hash) return '';
-    
-    // Handle different IPFS formats
-    if (hash.startsWith('ipfs://')) {
-      return `https://ipfs.io/ipfs/${hash.replace('ipfs://', '')}`;
-    } else if (hash.startsWith('Qm')) {
-      return `https://ipfs.io/ipfs/${hash}`;
-    }
-    
-    return hash;
-  };
-
   // Format date display
   const formatDate = (date: string | undefined) => {
     if (!date) return 'Not set';
@@ -106,14 +94,24 @@ export default function ContractCard({
           {isExpanded && contractHash && contractHash !== '' && (
             <div className="sm:col-span-2">
               <p className="text-sm text-gray-500">Contract Document</p>
-              <a 
-                href={formatIPFSLink(contractHash)}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:underline font-medium break-all"
-              >
-                {contractHash.length > 40 ? `${contractHash.substring(0, 40)}...` : contractHash}
-              </a>
+              {contractHash.startsWith('data:') ? (
+                <a
+                  href={contractHash}
+                  download={`athletechain-terms-${id}.json`}
+                  className="text-blue-600 hover:underline font-medium break-all"
+                >
+                  Download terms ({getDocumentHash(contractHash)})
+                </a>
+              ) : (
+                <a
+                  href={ipfsToGatewayUrl(contractHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline font-medium break-all"
+                >
+                  {contractHash.length > 40 ? `${contractHash.substring(0, 40)}...` : contractHash}
+                </a>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { useWeb3 } from '../context/Web3Context';
+import { getDisputeResolutionContract, getErrorMessage } from '../utils/contracts';
+import { uploadToIPFS } from '../utils/ipfs';
+
+interface DisputeDialogProps {
+  contractId: string;
+  milestones: { description: string }[];
+  onClose: () => void;
+  onFiled: (disputeId: number) => void;
+}
+
+export default function DisputeDialog({
+  contractId,
+  milestones,
+  onClose,
+  onFiled
+}: DisputeDialogProps) {
+  const { provider } = useWeb3();
+  const [reason, setReason] = useState('');
+  const [affectedMilestones, setAffectedMilestones] = useState<number[]>([]);
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleMilestone = (index: number) => {
+    setAffectedMilestones(prev =>
+      prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)
+    );
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      setEvidenceFiles([...evidenceFiles, ...Array.from(e.target.files)]);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    setEvidenceFiles(evidenceFiles.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      if (!provider) {
+        throw new Error('Wallet not connected');
+      }
+      if (!reason.trim()) {
+        throw new Error('Please describe the reason for the dispute');
+      }
+
+      setProgress('Uploading evidence...');
+      const evidenceURIs = await Promise.all(evidenceFiles.map(file => uploadToIPFS(file)));
+
+      const signer = provider.getSigner();
+      const disputeResolution = getDisputeResolutionContract(signer);
+
+      // The first document is filed with the dispute; the rest are added as evidence submissions
+      setProgress('Filing dispute...');
+      const createTx = await disputeResolution.createDispute(
+        contractId,
+        evidenceURIs[0] || '',
+        reason.trim(),
+        affectedMilestones
+      );
+      const receipt = await createTx.wait();
+      const createdEvent = receipt.events?.find(
+        (event: { event?: string }) => event.event === 'DisputeCreated'
+      );
+      if (!createdEvent?.args) {
+        throw new Error('Dispute creation event not found');
+      }
+      const disputeId = createdEvent.args.disputeId.toNumber();
+
+      for (let i = 1; i < evidenceURIs.length; i++) {
+        setProgress(`Submitting evidence ${i + 1} of ${evidenceURIs.length}...`);
+        const evidenceTx = await disputeResolution.submitEvidence(disputeId, evidenceURIs[i]);
+        await evidenceTx.wait();
+      }
+
+      onFiled(disputeId);
+    } catch (err) {
+      console.error('Error filing dispute:', err);
+      const errorMsg = getErrorMessage(err);
+      setError(errorMsg);
+    } finally {
+      setIsSubmitting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <div className="bg-white rounded-xl shadow-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-blue-900">File a Dispute</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="text-gray-500 hover:text-gray-800"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="dispute-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              id="dispute-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={4}
+              placeholder="Describe what went wrong and what outcome you are asking for"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+
+          {milestones.length > 0 && (
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">Affected Milestones</p>
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {milestones.map((milestone, index) => (
+                  <label key={index} className="flex items-center p-3 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={affectedMilestones.includes(index)}
+                      onChange={() => toggleMilestone(index)}
+                      className="mr-3"
+                    />
+                    <span className="text-sm">
+                      <span className="font-medium">Milestone {index + 1}:</span> {milestone.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Evidence Documents</p>
+            {evidenceFiles.length > 0 && (
+              <ul className="mb-3 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {evidenceFiles.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex justify-between items-center p-3 text-sm">
+                    <span className="truncate">{file.name} <span className="text-gray-500">({Math.round(file.size / 1024)} KB)</span></span>
+                    <button
+                      type="button"
+                      onClick={() => removeFile(index)}
+                      className="text-red-600 hover:text-red-800 ml-2"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <label htmlFor="dispute-evidence" className="inline-block bg-blue-100 hover:bg-blue-200 text-blue-800 py-2 px-4 rounded-lg cursor-pointer text-sm font-medium">
+              Add Documents
+            </label>
+            <input
+              id="dispute-evidence"
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 font-medium py-2 px-6 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg"
+            >
+              {isSubmitting ? (progress || 'Filing...') : 'File Dispute'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3 } from '../context/Web3Context';
+import {
+  getMutualTerminationContract,
+  getTerminationProposals,
+  formatAmount,
+  parseAmount,
+  terminationStatusToString,
+  TerminationProposal,
+  TerminationStatus,
+  getErrorMessage
+} from '../utils/contracts';
+
+interface MutualTerminationPanelProps {
+  contractId: string;
+  athlete: string;
+  sponsor: string;
+  paymentToken: string;
+  isActive: boolean;
+  // Unix seconds; proposed end dates have to fall within the contract term, and ones already past mean now
+  startDate: number;
+  endDate: number;
+  escrowBalance: ethers.BigNumber;
+  // What a pro-rata settlement would pay the athlete now, as a reference point for the negotiation
+  proRataEstimate: ethers.BigNumber | null;
+  onSettled: () => void;
+}
+
+const toDateInput = (timestamp: number) => new Date(timestamp * 1000).toISOString().split('T')[0];
+
+const getStatusColor = (status: TerminationStatus) => {
+  switch (status) {
+    case TerminationStatus.Open:
+      return 'bg-yellow-100 text-yellow-800';
+    case TerminationStatus.Accepted:
+      return 'bg-green-100 text-green-800';
+    case TerminationStatus.Declined:
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Proposal thread for ending a contract early by agreement, with propose, counter, accept, decline and withdraw
+export default function MutualTerminationPanel({
+  contractId,
+  athlete,
+  sponsor,
+  paymentToken,
+  isActive,
+  startDate,
+  endDate,
+  escrowBalance,
+  proRataEstimate,
+  onSettled
+}: MutualTerminationPanelProps) {
+  const { provider, account } = useWeb3();
+  const [proposals, setProposals] = useState<TerminationProposal[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  // Proposal being countered, null when making an opening proposal
+  const [counteringId, setCounteringId] = useState<number | null>(null);
+  const [form, setForm] = useState({ endDate: '', athleteAmount: '', note: '' });
+  // Escrow left to split on the form's end date, once the stipend accrued up to then is paid
+  const [splittable, setSplittable] = useState<ethers.BigNumber | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProposals = useCallback(async () => {
+    if (!provider) return;
+    try {
+      setProposals(await getTerminationProposals(getMutualTerminationContract(provider), contractId));
+    } catch (err) {
+      console.warn("Couldn't fetch termination proposals:", err);
+    }
+  }, [provider, contractId]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals, isActive, escrowBalance]);
+
+  // Pick up proposals and responses from the other party while the page is open
+  useEffect(() => {
+    if (!provider) return;
+    const mutualTermination = getMutualTerminationContract(provider);
+    const filters = [
+      mutualTermination.filters.TerminationProposed(contractId),
+      mutualTermination.filters.TerminationDeclined(contractId),
+      mutualTermination.filters.TerminationWithdrawn(contractId),
+      mutualTermination.filters.TerminationAccepted(contractId)
+    ];
+    const refresh = () => {
+      fetchProposals();
+    };
+    filters.forEach(filter => mutualTermination.on(filter, refresh));
+    return () => {
+      filters.forEach(filter => mutualTermination.off(filter, refresh));
+    };
+  }, [provider, contractId, fetchProposals]);
+
+  const party = account?.toLowerCase();
+  const isParty = !!party && (party === athlete.toLowerCase() || party === sponsor.toLowerCase());
+  const openProposal = proposals.find(proposal => proposal.status === TerminationStatus.Open) ?? null;
+  const isOwnOpenProposal = !!openProposal && openProposal.proposer.toLowerCase() === party;
+  // A proposal settles on its end date, so it can't be accepted any earlier
+  const openProposalPending = !!openProposal && openProposal.endDate > Math.floor(Date.now() / 1000);
+  const roleOf = (address: string) => address.toLowerCase() === athlete.toLowerCase() ? 'Athlete' : 'Sponsor';
+
+  let formAthleteAmount: ethers.BigNumber | null = null;
+  try {
+    formAthleteAmount = form.athleteAmount.trim() ? parseAmount(form.athleteAmount.trim(), paymentToken) : null;
+  } catch {
+    formAthleteAmount = null;
+  }
+  const formRefund = formAthleteAmount && splittable && formAthleteAmount.lte(splittable) ? splittable.sub(formAthleteAmount) : null;
+
+  // Look up the escrow left to split on the proposed end date, where a date already past means now
+  useEffect(() => {
+    setSplittable(null);
+    if (!provider || !showForm || !form.endDate) return;
+    let cancelled = false;
+    const end = Math.max(Math.floor(new Date(`${form.endDate}T00:00:00Z`).getTime() / 1000), startDate, Math.floor(Date.now() / 1000));
+    getMutualTerminationContract(provider).getSplittableEscrow(contractId, end)
+      .then(({ remaining }) => {
+        if (!cancelled) setSplittable(remaining);
+      })
+      .catch(err => console.warn("Couldn't fetch the escrow left to split:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, showForm, form.endDate, contractId, startDate, escrowBalance]);
+
+  const openForm = (counterOf: TerminationProposal | null) => {
+    setCounteringId(counterOf ? counterOf.id : null);
+    const today = Math.floor(Date.now() / 1000);
+    setForm({
+      endDate: toDateInput(Math.min(Math.max(counterOf ? counterOf.endDate : today, today, startDate), endDate)),
+      athleteAmount: '',
+      note: ''
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  // Runs a MutualTermination transaction and refreshes the thread
+  const submit = async (label: string, send: (mutualTermination: ReturnType<typeof getMutualTerminationContract>) => Promise<ethers.ContractTransaction>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (!provider) throw new Error("Provider not available");
+      const tx = await send(getMutualTerminationContract(provider.getSigner()));
+      await tx.wait();
+      await fetchProposals();
+      return true;
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setError(`Failed to ${label}: ` + errorMsg);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!form.endDate) {
+      setError("End date is required");
+      return;
+    }
+    const proposedEnd = Math.floor(new Date(`${form.endDate}T00:00:00Z`).getTime() / 1000);
+    if (proposedEnd < startDate - 86400 || proposedEnd > endDate) {
+      setError("The end date has to fall within the contract term");
+      return;
+    }
+    if (!splittable) {
+      setError("Still working out the escrow left to split, try again in a moment");
+      return;
+    }
+    if (!formAthleteAmount || formRefund === null) {
+      setError(`The athlete's amount must be between 0 and the ${formatAmount(splittable, paymentToken)} left to split`);
+      return;
+    }
+    const end = Math.max(proposedEnd, startDate, Math.floor(Date.now() / 1000));
+    const sent = await submit(counteringId === null ? 'propose termination' : 'counter proposal', mutualTermination =>
+      counteringId === null
+        ? mutualTermination.proposeTermination(contractId, end, formAthleteAmount, formRefund, form.note.trim())
+        : mutualTermination.counterTermination(counteringId, end, formAthleteAmount, formRefund, form.note.trim())
+    );
+    if (sent) setShowForm(false);
+  };
+
+  const handleAccept = async (proposal: TerminationProposal) => {
+    if (await submit('accept termination', mutualTermination => mutualTermination.acceptTermination(proposal.id))) {
+      onSettled();
+    }
+  };
+
+  const handleDecline = async (proposal: TerminationProposal) => {
+    if (await submit('decline proposal', mutualTermination => mutualTermination.declineTermination(proposal.id, declineReason.trim()))) {
+      setDeclineReason('');
+    }
+  };
+
+  if (proposals.length === 0 && !(isActive && isParty)) return null;
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <h2 className="text-lg font-bold text-blue-900 mb-1">Mutual Termination</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Either party can propose ending the deal early on a given date with the escrow split between them. Once that date
+        has come and the other party accepts, the stipend accrued up to the end date is paid, the rest of the escrow is
+        split as agreed and the contract is terminated, without arbitration. If a milestone is paid or forfeited in the
+        meantime, both shares scale with the escrow left.
+      </p>
+
+      {proposals.length > 0 && (
+        <ol className="border-l-2 border-gray-200 pl-4 space-y-4 mb-4">
+          {proposals.map((proposal) => (
+            <li key={proposal.id} className="text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">
+                  {proposal.counterOf === null ? 'Proposal' : `Counter to #${proposal.counterOf}`} #{proposal.id} by the {roleOf(proposal.proposer)}
+                </span>
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(proposal.status)}`}>
+                  {terminationStatusToString(proposal.status)}
+                </span>
+                <span className="text-gray-400">{new Date(proposal.createdAt * 1000).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-700 mt-1">
+                End on {toDateInput(proposal.endDate)}: {formatAmount(proposal.athleteAmount, paymentToken)} to the athlete,{' '}
+                {formatAmount(proposal.refundAmount, paymentToken)} refunded to the sponsor
+              </p>
+              {proposal.note && <p className="text-gray-600 italic mt-1">&ldquo;{proposal.note}&rdquo;</p>}
+              {proposal.declineReason && <p className="text-red-600 mt-1">Declined: {proposal.declineReason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isParty && openProposal && !isOwnOpenProposal && (
+        <div className="flex flex-col gap-2 mb-2">
+          {!isActive ? (
+            <p className="text-sm text-orange-600">
+              The contract is no longer active, so this proposal can only be declined.
+            </p>
+          ) : openProposalPending && (
+            <p className="text-sm text-gray-600">
+              This proposal ends the contract on {toDateInput(openProposal.endDate)} and can be accepted from then.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {isActive && (
+              <>
+                <button
+                  onClick={() => handleAccept(openProposal)}
+                  disabled={isSubmitting || openProposalPending}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  {isSubmitting ? 'Working...' : 'Accept & Settle'}
+                </button>
+                <button
+                  onClick={() => openForm(openProposal)}
+                  disabled={isSubmitting}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+                >
+                  Counter
+                </button>
+              </>
+            )}
+            <input
+              type="text"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              placeholder="Reason for declining (optional)"
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={() => handleDecline(openProposal)}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isParty && isOwnOpenProposal && openProposal && (
+        <div className="flex items-center gap-3 mb-2">
+          <p className="text-sm text-gray-600">
+            {isActive ? 'Waiting for the other party to respond.' : 'The contract is no longer active, so this proposal can only be withdrawn.'}
+          </p>
+          <button
+            onClick={() => submit('withdraw proposal', mutualTermination => mutualTermination.withdrawTermination(openProposal.id))}
+            disabled={isSubmitting}
+            className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 text-sm font-bold py-1 px-3 rounded-lg"
+          >
+            Withdraw
+          </button>
+        </div>
+      )}
+
+      {isActive && isParty && !openProposal && !showForm && (
+        <button
+          onClick={() => openForm(null)}
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-1 px-3 rounded-lg"
+        >
+          Propose Termination
+        </button>
+      )}
+
+      {isActive && isParty && showForm && (
+        <div className="mt-3 border border-gray-200 rounded-lg p-4 space-y-3">
+          <h3 className="font-medium">{counteringId === null ? 'New proposal' : `Counter to #${counteringId}`}</h3>
+          <p className="text-sm text-gray-600">
+            {formatAmount(escrowBalance, paymentToken)} is held in escrow
+            {splittable && `, ${formatAmount(splittable, paymentToken)} of it left to split after the stipend up to the end date`}.
+            {proRataEstimate && ` A pro-rata settlement as of now would pay the athlete ${formatAmount(proRataEstimate, paymentToken)}.`}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="terminationEndDate" className="block text-sm font-medium text-gray-700 mb-1">End date</label>
+              <input
+                type="date"
+                id="terminationEndDate"
+                value={form.endDate}
+                min={toDateInput(Math.max(startDate, Math.floor(Date.now() / 1000)))}
+                max={toDateInput(endDate)}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="terminationAthleteAmount" className="block text-sm font-medium text-gray-700 mb-1">To the athlete</label>
+              <input
+                type="number"
+                id="terminationAthleteAmount"
+                value={form.athleteAmount}
+                onChange={(e) => setForm({ ...form, athleteAmount: e.target.value })}
+                placeholder="0.00"
+                min="0"
+                step="0.00000001"
+                className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Sponsor refund: {formRefund ? formatAmount(formRefund, paymentToken) : '—'}
+              </p>
+            </div>
+          </div>
+          <textarea
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            placeholder="Note to the other party (optional)"
+            rows={2}
+            className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handlePropose}
+              disabled={isSubmitting}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold py-1 px-3 rounded-lg"
+            >
+              {isSubmitting ? 'Sending...' : counteringId === null ? 'Send Proposal' : 'Send Counter'}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={isSubmitting}
+              className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 text-sm font-bold py-1 px-3 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -5,8 +5,9 @@ import Link from 'next/link';
 import { useWeb3 } from '../context/Web3Context';
 
 export default function Navbar() {
-  const { account, connectWallet, disconnectWallet, isConnected } = useWeb3();
+  const { account, connectWallet, disconnectWallet, isConnected, factoryContract } = useWeb3();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [walletError, setWalletError] = useState<string | null>(null);
   const profileDropdownRef = useRef<HTMLDivElement>(null);
@@ -30,6 +31,17 @@ export default function Navbar() {
     };
   }, []);
 
+  // Only show the admin console link to the factory admin
+  useEffect(() => {
+    if (!factoryContract || !account) {
+      setIsAdmin(false);
+      return;
+    }
+    factoryContract.admin()
+      .then((admin: string) => setIsAdmin(admin.toLowerCase() === account.toLowerCase()))
+      .catch(() => setIsAdmin(false));
+  }, [factoryContract, account]);
+
   // Handle sign out
   const handleSignOut = () => {
     disconnectWallet();
@@ -85,9 +97,17 @@ export default function Navbar() {
                 <Link href="/nfts" className="px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 hover:text-white">
                   NFTs
                 </Link>
+                <Link href="/payments" className="px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 hover:text-white">
+                  Payments
+                </Link>
                 <Link href="/disputes" className="px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 hover:text-white">
                   Disputes
                 </Link>
+                {isAdmin && (
+                  <Link href="/admin" className="px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 hover:text-white">
+                    Admin
+                  </Link>
+                )}
                 <Link href="/register" className="px-3 py-2 rounded-md text-sm font-medium bg-green-600 hover:bg-green-700 text-white">
                   Register Users
                 </Link>
@@ -190,9 +210,17 @@ export default function Navbar() {
             <Link href="/nfts" className="block px-3 py-2 rounded-md text-base font-medium hover:bg-blue-700 hover:text-white">
               NFTs
             </Link>
+            <Link href="/payments" className="block px-3 py-2 rounded-md text-base font-medium hover:bg-blue-700 hover:text-white">
+              Payments
+            </Link>
             <Link href="/disputes" className="block px-3 py-2 rounded-md text-base font-medium hover:bg-blue-700 hover:text-white">
               Disputes
             </Link>
+            {isAdmin && (
+              <Link href="/admin" className="block px-3 py-2 rounded-md text-base font-medium hover:bg-blue-700 hover:text-white">
+                Admin
+              </Link>
+            )}
             <Link href="/register" className="block px-3 py-2 rounded-md text-base font-medium bg-green-600 hover:bg-green-700 hover:text-white">
               Register
             </Link>
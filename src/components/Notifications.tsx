@@ -0,0 +1,61 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect } from 'react';
+import { useWeb3, ContractNotification } from '../context/Web3Context';
+
+// How long a notification stays on screen before dismissing itself
+const AUTO_DISMISS_MS = 10000;
+
+function NotificationToast({
+  notification,
+  onDismiss
+}: {
+  notification: ContractNotification;
+  onDismiss: (id: string) => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(notification.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id, onDismiss]);
+
+  return (
+    <div className="bg-white border border-blue-200 rounded-lg shadow-lg p-4 flex items-start">
+      <svg className="h-5 w-5 text-blue-600 mt-0.5 mr-3 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+      </svg>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-800">{notification.message}</p>
+        <Link
+          href={`/contracts/${notification.contractId}`}
+          onClick={() => onDismiss(notification.id)}
+          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          View contract
+        </Link>
+      </div>
+      <button
+        onClick={() => onDismiss(notification.id)}
+        className="ml-3 text-gray-400 hover:text-gray-600"
+        aria-label="Dismiss notification"
+      >
+        &times;
+      </button>
+    </div>
+  );
+}
+
+// Toasts for on-chain activity on the connected account's contracts
+export default function Notifications() {
+  const { notifications, dismissNotification } = useWeb3();
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {notifications.map(notification => (
+        <NotificationToast key={notification.id} notification={notification} onDismiss={dismissNotification} />
+      ))}
+    </div>
+  );
+}
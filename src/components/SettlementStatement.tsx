@@ -0,0 +1,60 @@
+'use client';
+
+import { ethers } from 'ethers';
+import { formatAmount, SettlementPreview } from '../utils/contracts';
+
+interface SettlementStatementProps {
+  preview: SettlementPreview;
+  milestones: { description: string; amountWei: ethers.BigNumber; paid: boolean }[];
+  paymentToken: string;
+}
+
+// Line-by-line split of the escrow a settlement would make: the athlete's share of each unpaid milestone
+// and of the accrued stipend, and the refund to the sponsor
+export default function SettlementStatement({ preview, milestones, paymentToken }: SettlementStatementProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full bg-white border border-gray-200 rounded-lg text-sm">
+        <thead>
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Settlement</th>
+          </tr>
+        </thead>
+        <tbody>
+          {milestones.map((milestone, index) => (
+            <tr key={index} className="border-t">
+              <td className="px-4 py-2">Milestone {index + 1}: {milestone.description}</td>
+              <td className="px-4 py-2">{formatAmount(milestone.amountWei, paymentToken)}</td>
+              <td className="px-4 py-2">
+                {milestone.paid ? (
+                  <span className="text-gray-400">Already paid</span>
+                ) : (
+                  formatAmount(preview.milestoneShares[index] ?? ethers.constants.Zero, paymentToken)
+                )}
+              </td>
+            </tr>
+          ))}
+          {preview.stipend.gt(0) && (
+            <tr className="border-t">
+              <td className="px-4 py-2">Accrued stipend</td>
+              <td className="px-4 py-2">{formatAmount(preview.stipend, paymentToken)}</td>
+              <td className="px-4 py-2">{formatAmount(preview.stipend, paymentToken)}</td>
+            </tr>
+          )}
+          <tr className="border-t font-medium">
+            <td className="px-4 py-2">Paid to the athlete</td>
+            <td className="px-4 py-2"></td>
+            <td className="px-4 py-2 text-green-600">{formatAmount(preview.athleteAmount, paymentToken)}</td>
+          </tr>
+          <tr className="border-t font-medium">
+            <td className="px-4 py-2">Refunded to the sponsor</td>
+            <td className="px-4 py-2"></td>
+            <td className="px-4 py-2 text-purple-700">{formatAmount(preview.refund, paymentToken)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,29 +1,204 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode, useRef } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode, useRef } from 'react';
 import { ethers } from 'ethers';
-import factoryAbi from '../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
 import contractAddresses from '../contract-addresses.json';
+import {
+  getFactoryContract,
+  getAthleteContract,
+  getMutualTerminationContract,
+  getPerformanceOracleContract,
+  getContractDetails,
+  formatAmount,
+  isStipendPayment,
+  isSettlementPayment,
+  AthleteChainFactoryContract,
+  AthleteContractContract
+} from '../utils/contracts';
+import { getAgentContractIds, getPartyContractIds } from '../utils/indexer';
+
+// Events the subscription manager follows, all keyed by contractId. Most come from AthleteContract; the
+// termination proposals come from MutualTermination and the bonus results from PerformanceOracle.
+export const CONTRACT_EVENT_NAMES = [
+  'ContractCreated',
+  'ContractActivated',
+  'EscrowFunded',
+  'MilestoneCompleted',
+  'MilestoneRejected',
+  'MilestoneForfeited',
+  'PaymentReleased',
+  'AgentCommissionPaid',
+  'LatePenaltyApplied',
+  'DisputeRaised',
+  'DisputeResolved',
+  'ContractUpdated',
+  'AgentAssigned',
+  'StipendSet',
+  'LatePolicySet',
+  'TermsAccepted',
+  'TermsDeclined',
+  'ContractTerminated',
+  'ContractSettled',
+  'ContractCompleted',
+  'TerminationProposed',
+  'TerminationAccepted',
+  'TerminationDeclined',
+  'TerminationWithdrawn',
+  'BonusConditionSet',
+  'AttestationSubmitted'
+] as const;
+
+export type ContractEventName = typeof CONTRACT_EVENT_NAMES[number];
+
+const TERMINATION_EVENT_NAMES: readonly ContractEventName[] = [
+  'TerminationProposed',
+  'TerminationAccepted',
+  'TerminationDeclined',
+  'TerminationWithdrawn'
+];
+const ORACLE_EVENT_NAMES: readonly ContractEventName[] = ['BonusConditionSet', 'AttestationSubmitted'];
+
+export interface ContractEvent {
+  name: ContractEventName;
+  contractId: number;
+  args: ethers.utils.Result;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export type ContractEventListener = (event: ContractEvent) => void;
+
+export interface ContractNotification {
+  id: string;
+  contractId: number;
+  message: string;
+  timestamp: number;
+}
 
 interface Web3ContextType {
   account: string | null;
   chainId: number | null;
   connectWallet: (walletType: string, forceAccountSelection?: boolean) => Promise<void>;
   disconnectWallet: () => void;
-  factoryContract: ethers.Contract | null;
+  factoryContract: AthleteChainFactoryContract | null;
   provider: ethers.providers.Web3Provider | null;
   isConnected: boolean;
+  // Without a contractId the listener only hears about contracts the connected account is a party to or agent on
+  subscribeToContractEvents: (listener: ContractEventListener, contractId?: number | string) => () => void;
+  notifications: ContractNotification[];
+  dismissNotification: (id: string) => void;
 }
 
+// Keep only the most recent notifications around
+const MAX_NOTIFICATIONS = 5;
+
+// What a PaymentReleased or AgentCommissionPaid event paid for
+const describePayment = (milestoneIndex: ethers.BigNumber): string =>
+  isStipendPayment(milestoneIndex)
+    ? 'the stipend'
+    : isSettlementPayment(milestoneIndex) ? 'the termination settlement' : `milestone ${milestoneIndex.toNumber() + 1}`;
+
+// Notification text for an event, or null for one that only accompanies another event already described
+const describeContractEvent = async (athleteContract: AthleteContractContract, event: ContractEvent): Promise<string | null> => {
+  const { contractId, args } = event;
+  switch (event.name) {
+    case 'ContractCreated':
+      return `New contract #${contractId} was created with you as a party`;
+    case 'ContractActivated':
+      return `Contract #${contractId} was activated with its escrow fully funded`;
+    case 'EscrowFunded': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `${formatAmount(args.amount, details.paymentToken)} was deposited into the escrow of contract #${contractId}`;
+    }
+    case 'MilestoneCompleted':
+      return `Evidence was submitted for milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId}`;
+    case 'MilestoneRejected':
+      return `Milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId} was rejected: ${args.reason}`;
+    case 'MilestoneForfeited':
+      return `Milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId} was forfeited after missing its deadline`;
+    case 'PaymentReleased': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `${formatAmount(args.amount, details.paymentToken)} was released for ${describePayment(args.milestoneIndex)} of contract #${contractId}`;
+    }
+    case 'AgentCommissionPaid': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `${formatAmount(args.amount, details.paymentToken)} of agent commission was paid on ${describePayment(args.milestoneIndex)} of contract #${contractId}`;
+    }
+    case 'LatePenaltyApplied': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `A late penalty of ${formatAmount(args.penalty, details.paymentToken)} was deducted from milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId}`;
+    }
+    case 'DisputeRaised':
+      return `A dispute was raised on contract #${contractId}: ${args.reason}`;
+    case 'DisputeResolved':
+      return `The dispute on contract #${contractId} was resolved in favor of the ${args.athleteFavor ? 'athlete' : 'sponsor'}`;
+    case 'ContractUpdated':
+      return `The terms of contract #${contractId} were updated`;
+    case 'AgentAssigned':
+      return args.agent === ethers.constants.AddressZero
+        ? `The athlete's agent was removed from contract #${contractId}`
+        : `The athlete named an agent on contract #${contractId} at ${Number(args.commissionBps) / 100}% commission`;
+    case 'StipendSet':
+      return `The stipend of contract #${contractId} was changed`;
+    case 'LatePolicySet':
+      return `The late delivery policy of contract #${contractId} was changed`;
+    case 'TermsAccepted':
+    case 'TermsDeclined': {
+      const details = await getContractDetails(athleteContract, contractId);
+      const party = args.party.toLowerCase() === details.athlete.toLowerCase() ? 'athlete' : 'sponsor';
+      return event.name === 'TermsAccepted'
+        ? `The ${party} accepted the terms of contract #${contractId}`
+        : `The ${party} declined the terms of contract #${contractId}${args.reason ? `: ${args.reason}` : ''}`;
+    }
+    case 'ContractTerminated':
+      // Always emitted together with ContractSettled, which carries the figures
+      return null;
+    case 'ContractSettled': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `Contract #${contractId} was terminated and settled: ${formatAmount(args.athleteAmount, details.paymentToken)} to the athlete and ${formatAmount(args.refund, details.paymentToken)} refunded to the sponsor`;
+    }
+    case 'ContractCompleted':
+      return `Contract #${contractId} was completed with every payment settled; its certificate is ready to download`;
+    case 'TerminationProposed': {
+      const details = await getContractDetails(athleteContract, contractId);
+      return `A mutual termination of contract #${contractId} was proposed: ${formatAmount(args.athleteAmount, details.paymentToken)} to the athlete and ${formatAmount(args.refundAmount, details.paymentToken)} refunded to the sponsor`;
+    }
+    case 'TerminationAccepted':
+      return `The termination proposal for contract #${contractId} was accepted`;
+    case 'TerminationDeclined':
+      return `The termination proposal for contract #${contractId} was declined${args.reason ? `: ${args.reason}` : ''}`;
+    case 'TerminationWithdrawn':
+      return `The termination proposal for contract #${contractId} was withdrawn`;
+    case 'BonusConditionSet':
+      return `Milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId} was made a performance bonus on ${args.metric}`;
+    case 'AttestationSubmitted':
+      return `An oracle reported ${args.value.toString()} for the bonus on milestone ${Number(args.milestoneIndex) + 1} of contract #${contractId}: the threshold was ${args.thresholdMet ? 'met' : 'not met'}`;
+  }
+};
+
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
 
 export const Web3Provider = ({ children }: { children: ReactNode }) => {
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
   const [provider, setProvider] = useState<ethers.providers.Web3Provider | null>(null);
-  const [factoryContract, setFactoryContract] = useState<ethers.Contract | null>(null);
+  const [factoryContract, setFactoryContract] = useState<AthleteChainFactoryContract | null>(null);
   const [forceReconnect, setForceReconnect] = useState(0);
   const verificationStartedRef = useRef(false);
+  const [notifications, setNotifications] = useState<ContractNotification[]>([]);
+  const contractListenersRef = useRef(new Set<{ listener: ContractEventListener; contractId?: number }>());
+
+  const subscribeToContractEvents = useCallback((listener: ContractEventListener, contractId?: number | string) => {
+    const subscription = { listener, contractId: contractId === undefined ? undefined : Number(contractId) };
+    contractListenersRef.current.add(subscription);
+    return () => {
+      contractListenersRef.current.delete(subscription);
+    };
+  }, []);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  }, []);
 
   const connectWallet = async (walletType: string, forceAccountSelection = false) => {
     try {
@@ -103,7 +278,7 @@ export const Web3Provider = ({ children }: { children: ReactNode }) => {
         }
         
         try {
-          const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
+          const factory = getFactoryContract(signer);
           setFactoryContract(factory);
 
           // Set account and chain ID
@@ -151,6 +326,7 @@ export const Web3Provider = ({ children }: { children: ReactNode }) => {
     setChainId(null);
     setProvider(null);
     setFactoryContract(null);
+    setNotifications([]);
     localStorage.setItem('wallet-disconnected', 'true');
     localStorage.setItem('wallet-disconnect-time', Date.now().toString());
     setForceReconnect(prev => prev + 1);
@@ -200,6 +376,77 @@ export const Web3Provider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Subscription manager: one set of chain listeners per connected account, fanned out to page subscribers
+  useEffect(() => {
+    if (!provider || !account) return;
+    const athleteContract = getAthleteContract(provider);
+    const mutualTermination = getMutualTerminationContract(provider);
+    const performanceOracle = getPerformanceOracleContract(provider);
+    const sourceOf = (name: ContractEventName): Pick<ethers.Contract, 'on' | 'off'> =>
+      TERMINATION_EVENT_NAMES.includes(name) ? mutualTermination
+        : ORACLE_EVENT_NAMES.includes(name) ? performanceOracle : athleteContract;
+    // Agents follow the contracts they represent as well as those they are a party to
+    const partyContractIds = new Set<number>();
+    const agentContractIds = new Set<number>();
+    const party = account.toLowerCase();
+    let active = true;
+
+    getPartyContractIds(getFactoryContract(provider), account)
+      .then(ids => ids.forEach(id => partyContractIds.add(id)))
+      .catch(err => console.warn('Could not load contracts for event subscriptions:', err));
+    getAgentContractIds(athleteContract, account)
+      .then(ids => ids.forEach(id => agentContractIds.add(id)))
+      .catch(err => console.warn('Could not load represented contracts for event subscriptions:', err));
+
+    const handlers = CONTRACT_EVENT_NAMES.map(name => {
+      const handler = (...args: unknown[]) => {
+        const log = args[args.length - 1] as ethers.Event;
+        if (!log.args) return;
+        const event: ContractEvent = {
+          name,
+          contractId: (log.args.contractId as ethers.BigNumber).toNumber(),
+          args: log.args,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber
+        };
+        if (name === 'ContractCreated' && (log.args.athlete.toLowerCase() === party || log.args.sponsor.toLowerCase() === party)) {
+          partyContractIds.add(event.contractId);
+        }
+        // The athlete can replace their agent while the contract is a draft; the replaced agent hears about that last
+        const wasAgent = agentContractIds.has(event.contractId);
+        if (name === 'AgentAssigned') {
+          if (log.args.agent.toLowerCase() === party) agentContractIds.add(event.contractId);
+          else agentContractIds.delete(event.contractId);
+        }
+        const isParty = partyContractIds.has(event.contractId) || agentContractIds.has(event.contractId) || wasAgent;
+
+        contractListenersRef.current.forEach(({ listener, contractId }) => {
+          if (contractId === undefined ? isParty : contractId === event.contractId) listener(event);
+        });
+
+        if (!isParty) return;
+        describeContractEvent(athleteContract, event)
+          .then(message => {
+            if (!active || message === null) return;
+            const id = `${log.transactionHash}-${log.logIndex}`;
+            setNotifications(prev => [
+              { id, contractId: event.contractId, message, timestamp: Date.now() },
+              ...prev.filter(notification => notification.id !== id)
+            ].slice(0, MAX_NOTIFICATIONS));
+          })
+          .catch(err => console.warn('Could not describe contract event:', err));
+      };
+      const source = sourceOf(name);
+      source.on(name, handler);
+      return { source, name, handler };
+    });
+
+    return () => {
+      active = false;
+      handlers.forEach(({ source, name, handler }) => source.off(name, handler));
+    };
+  }, [provider, account]);
+
   useEffect(() => {
     const isDisconnected = localStorage.getItem('wallet-disconnected') === 'true';
     if (!isDisconnected && typeof window.ethereum !== 'undefined') {
@@ -224,7 +471,7 @@ export const Web3Provider = ({ children }: { children: ReactNode }) => {
           });
           if (provider) {
             const signer = provider.getSigner();
-            const factory = new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signer);
+            const factory = getFactoryContract(signer);
             setFactoryContract(factory);
           }
         } else {
@@ -253,7 +500,10 @@ export const Web3Provider = ({ children }: { children: ReactNode }) => {
       disconnectWallet,
       factoryContract, 
       provider,
-      isConnected: !!account
+      isConnected: !!account,
+      subscribeToContractEvents,
+      notifications,
+      dismissNotification
     }}>
       {children}
     </Web3Context.Provider>
@@ -0,0 +1,55 @@
+// Completion certificate for a finished sponsorship deal, rendered as a standalone SVG both parties can keep
+
+export interface CertificateDetails {
+  contractId: string;
+  athlete: string;
+  sponsor: string;
+  value: string;
+  startDate: string;
+  endDate: string;
+  // keccak256 of the contract document both parties accepted
+  documentHash: string;
+  completedAt: number;
+  transactionHash: string;
+  athletePaid: string;
+  sponsorRefunded: string;
+  // Where the record can be checked: the chain and the AthleteContract address
+  chainId: number | null;
+  athleteContractAddress: string;
+}
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildCompletionCertificate = (details: CertificateDetails): string => {
+  const completedOn = new Date(details.completedAt * 1000).toISOString().split('T')[0];
+  const rows: [string, string][] = [
+    ['Athlete', details.athlete],
+    ['Sponsor', details.sponsor],
+    ['Contract value', details.value],
+    ['Term', `${details.startDate} to ${details.endDate}`],
+    ['Paid to the athlete', details.athletePaid],
+    ['Refunded to the sponsor', details.sponsorRefunded],
+    ['Contract document hash', details.documentHash],
+    ['Completion transaction', details.transactionHash],
+    ['Verify at', `${details.athleteContractAddress}${details.chainId !== null ? ` on chain ${details.chainId}` : ''}`]
+  ];
+
+  const lines = rows.map(([label, value], index) => {
+    const y = 250 + index * 44;
+    return `  <text x="80" y="${y}" font-size="14" fill="#6b7280">${escapeXML(label)}</text>
+  <text x="300" y="${y}" font-size="14" fill="#111827" font-family="monospace">${escapeXML(value)}</text>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="700" viewBox="0 0 1000 700" font-family="Helvetica, Arial, sans-serif">
+  <rect width="1000" height="700" fill="#ffffff"/>
+  <rect x="20" y="20" width="960" height="660" fill="none" stroke="#1e3a8a" stroke-width="4"/>
+  <rect x="32" y="32" width="936" height="636" fill="none" stroke="#93c5fd" stroke-width="1"/>
+  <text x="500" y="100" font-size="16" fill="#2563eb" text-anchor="middle" letter-spacing="4">ATHLETECHAIN</text>
+  <text x="500" y="150" font-size="34" font-weight="bold" fill="#1e3a8a" text-anchor="middle">Certificate of Completion</text>
+  <text x="500" y="190" font-size="16" fill="#374151" text-anchor="middle">Sponsorship contract #${escapeXML(details.contractId)} was completed on ${completedOn}, with every payment settled.</text>
+${lines.join('\n')}
+</svg>
+`;
+};
@@ -0,0 +1,301 @@
+// Generated by scripts/generate-contract-types.js from the Hardhat artifacts. Do not edit by hand.
+import type { BigNumber, BigNumberish, BytesLike, CallOverrides, Contract, ContractTransaction, EventFilter, Overrides, PayableOverrides, Signer, providers } from 'ethers';
+
+// The untyped parts of ethers.Contract we keep; dropping its index signature makes unknown methods a compile error
+type ContractBase = Pick<Contract, 'address' | 'interface' | 'provider' | 'signer' | 'deployed' | 'queryFilter' | 'on' | 'once' | 'off' | 'removeAllListeners' | 'listenerCount'>;
+
+export interface AthleteChainFactoryContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): AthleteChainFactoryContract;
+  filters: {
+    ContractCreated(contractId?: BigNumberish | null): EventFilter;
+    DisputeResolutionSet(disputeResolution?: string | null): EventFilter;
+    NFTMinted(tokenId?: BigNumberish | null, contractId?: BigNumberish | null): EventFilter;
+    PerformanceOracleSet(performanceOracle?: string | null): EventFilter;
+    ProfileUpdated(user?: string | null): EventFilter;
+    RoleAdded(user?: string | null): EventFilter;
+    RoleRequestReviewed(requestId?: BigNumberish | null, user?: string | null): EventFilter;
+    RoleRequested(requestId?: BigNumberish | null, user?: string | null): EventFilter;
+    RoleRevoked(user?: string | null): EventFilter;
+    TerminationManagerSet(terminationManager?: string | null): EventFilter;
+    UserRegistered(user?: string | null): EventFilter;
+    UserUnverified(user?: string | null): EventFilter;
+    UserVerified(user?: string | null): EventFilter;
+    VerificationRequested(requestId?: BigNumberish | null, user?: string | null): EventFilter;
+    VerificationReviewed(requestId?: BigNumberish | null, user?: string | null): EventFilter;
+  };
+  ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+  AGENT_ROLE(overrides?: CallOverrides): Promise<string>;
+  ARBITRATOR_ROLE(overrides?: CallOverrides): Promise<string>;
+  ATHLETE_ROLE(overrides?: CallOverrides): Promise<string>;
+  SPONSOR_ROLE(overrides?: CallOverrides): Promise<string>;
+  addRole(user: string, role: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  admin(overrides?: CallOverrides): Promise<string>;
+  assignAgent(contractId: BigNumberish, agent: string, commissionBps: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  athleteContract(overrides?: CallOverrides): Promise<string>;
+  createSponsorshipContract(athlete: string, sponsor: string, contractIPFSHash: string, totalValue: BigNumberish, startDate: BigNumberish, endDate: BigNumberish, paymentToken: string, arbitrators: string[], reviewPeriod: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  getContractDetails(contractId: BigNumberish, overrides?: CallOverrides): Promise<[string, string, string, BigNumber, BigNumber, BigNumber, number, string] & { athlete: string; sponsor: string; contractIPFSHash: string; totalValue: BigNumber; startDate: BigNumber; endDate: BigNumber; state: number; paymentToken: string }>;
+  getUser(user: string, overrides?: CallOverrides): Promise<[string, string, boolean] & { name: string; profileIPFSHash: string; verified: boolean }>;
+  hasPendingRoleRequest(arg0: string, arg1: BytesLike, overrides?: CallOverrides): Promise<boolean>;
+  hasVerificationRequest(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  isRegistered(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  isUserInRole(user: string, role: BytesLike, overrides?: CallOverrides): Promise<boolean>;
+  latestVerificationRequestOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  mintContractNFT(contractId: BigNumberish, tokenURI: string, completionURI: string, overrides?: Overrides): Promise<ContractTransaction>;
+  registerUser(user: string, role: BytesLike, name: string, profileIPFSHash: string, overrides?: Overrides): Promise<ContractTransaction>;
+  requestRole(role: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  requestVerification(documentsIPFSHash: string, overrides?: Overrides): Promise<ContractTransaction>;
+  reviewRoleRequest(requestId: BigNumberish, approved: boolean, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  reviewVerification(requestId: BigNumberish, approved: boolean, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  revokeRole(user: string, role: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  roleRequestCount(overrides?: CallOverrides): Promise<BigNumber>;
+  roleRequests(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string, string, number, string, BigNumber, BigNumber] & { user: string; role: string; status: number; decisionReason: string; requestedAt: BigNumber; decidedAt: BigNumber }>;
+  setDisputeResolution(disputeResolution: string, overrides?: Overrides): Promise<ContractTransaction>;
+  setPerformanceOracle(performanceOracle: string, overrides?: Overrides): Promise<ContractTransaction>;
+  setTerminationManager(terminationManager: string, overrides?: Overrides): Promise<ContractTransaction>;
+  sponsorshipNFT(overrides?: CallOverrides): Promise<string>;
+  unverifyUser(user: string, overrides?: Overrides): Promise<ContractTransaction>;
+  updateProfile(name: string, profileIPFSHash: string, overrides?: Overrides): Promise<ContractTransaction>;
+  verificationRequestCount(overrides?: CallOverrides): Promise<BigNumber>;
+  verificationRequests(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string, string, number, string, BigNumber, BigNumber] & { user: string; documentsIPFSHash: string; status: number; decisionReason: string; requestedAt: BigNumber; decidedAt: BigNumber }>;
+  verifyUser(user: string, overrides?: Overrides): Promise<ContractTransaction>;
+}
+
+export interface AthleteContractContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): AthleteContractContract;
+  filters: {
+    AgentAssigned(contractId?: BigNumberish | null, agent?: string | null): EventFilter;
+    AgentCommissionPaid(contractId?: BigNumberish | null, agent?: string | null): EventFilter;
+    ContractActivated(contractId?: BigNumberish | null): EventFilter;
+    ContractCompleted(contractId?: BigNumberish | null): EventFilter;
+    ContractCreated(contractId?: BigNumberish | null): EventFilter;
+    ContractSettled(contractId?: BigNumberish | null): EventFilter;
+    ContractTerminated(contractId?: BigNumberish | null): EventFilter;
+    ContractUpdated(contractId?: BigNumberish | null): EventFilter;
+    DisputeRaised(contractId?: BigNumberish | null): EventFilter;
+    DisputeResolved(contractId?: BigNumberish | null): EventFilter;
+    DisputeResolverUpdated(): EventFilter;
+    EscrowFunded(contractId?: BigNumberish | null): EventFilter;
+    EscrowRefunded(contractId?: BigNumberish | null): EventFilter;
+    LatePenaltyApplied(contractId?: BigNumberish | null): EventFilter;
+    LatePolicySet(contractId?: BigNumberish | null): EventFilter;
+    MilestoneCompleted(contractId?: BigNumberish | null): EventFilter;
+    MilestoneForfeited(contractId?: BigNumberish | null): EventFilter;
+    MilestoneRejected(contractId?: BigNumberish | null): EventFilter;
+    PaymentClaimed(contractId?: BigNumberish | null): EventFilter;
+    PaymentReleased(contractId?: BigNumberish | null): EventFilter;
+    PerformanceOracleUpdated(): EventFilter;
+    StipendSet(contractId?: BigNumberish | null): EventFilter;
+    TerminationManagerUpdated(): EventFilter;
+    TermsAccepted(contractId?: BigNumberish | null, party?: string | null): EventFilter;
+    TermsDeclined(contractId?: BigNumberish | null, party?: string | null): EventFilter;
+  };
+  MAX_AGENT_COMMISSION_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+  MAX_GRACE_PERIOD(overrides?: CallOverrides): Promise<BigNumber>;
+  MAX_LATE_PENALTY_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+  MAX_MILESTONE_SUBMISSIONS(overrides?: CallOverrides): Promise<BigNumber>;
+  MAX_REVIEW_PERIOD(overrides?: CallOverrides): Promise<BigNumber>;
+  MIN_REVIEW_PERIOD(overrides?: CallOverrides): Promise<BigNumber>;
+  PRO_RATA_BY_TIME(overrides?: CallOverrides): Promise<BigNumber>;
+  SETTLEMENT_INDEX(overrides?: CallOverrides): Promise<BigNumber>;
+  STIPEND_INDEX(overrides?: CallOverrides): Promise<BigNumber>;
+  acceptTerms(contractId: BigNumberish, documentHash: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  acceptedRevision(arg0: BigNumberish, arg1: string, overrides?: CallOverrides): Promise<BigNumber>;
+  activateContract(contractId: BigNumberish, overrides?: PayableOverrides): Promise<ContractTransaction>;
+  addMilestones(contractId: BigNumberish, descriptions: string[], amounts: BigNumberish[], deadlines: BigNumberish[], overrides?: Overrides): Promise<ContractTransaction>;
+  agentCommissionBps(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  agentCommissionPaid(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  agentOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  claimMilestonePayment(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  completeContract(contractId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  completeMilestone(contractId: BigNumberish, milestoneIndex: BigNumberish, evidence: string, overrides?: Overrides): Promise<ContractTransaction>;
+  contractCount(overrides?: CallOverrides): Promise<BigNumber>;
+  contracts(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string, string, string, BigNumber, BigNumber, BigNumber, number, string] & { athlete: string; sponsor: string; contractIPFSHash: string; totalValue: BigNumber; startDate: BigNumber; endDate: BigNumber; state: number; paymentToken: string }>;
+  createContract(athlete: string, sponsor: string, contractIPFSHash: string, totalValue: BigNumberish, startDate: BigNumberish, endDate: BigNumberish, paymentToken: string, arbitrators: string[], milestoneReviewPeriod: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  declineTerms(contractId: BigNumberish, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  disputeResolver(overrides?: CallOverrides): Promise<string>;
+  escrowBalance(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  escrowDeposited(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  forfeitMilestone(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  fundEscrow(contractId: BigNumberish, amount: BigNumberish, overrides?: PayableOverrides): Promise<ContractTransaction>;
+  getContractDetails(contractId: BigNumberish, overrides?: CallOverrides): Promise<[string, string, string, BigNumber, BigNumber, BigNumber, number, string] & { athlete: string; sponsor: string; contractIPFSHash: string; totalValue: BigNumber; startDate: BigNumber; endDate: BigNumber; state: number; paymentToken: string }>;
+  getEscrowShortfall(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getLateAfter(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getMilestoneDetails(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: CallOverrides): Promise<[string, BigNumber, BigNumber, number, string, boolean] & { description: string; amount: BigNumber; deadline: BigNumber; status: number; evidence: string; paid: boolean }>;
+  getMilestonesCount(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getReviewDeadline(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getStipendAccrued(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getStipendAccruedAt(contractId: BigNumberish, until: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getStipendTotal(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getSubmissionCutoff(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  gracePeriod(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  isBonusMilestone(arg0: BigNumberish, arg1: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+  latePenaltyBps(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  latePolicy(arg0: BigNumberish, overrides?: CallOverrides): Promise<number>;
+  milestoneSubmissions(arg0: BigNumberish, arg1: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  milestoneSubmittedAt(arg0: BigNumberish, arg1: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  performanceOracle(overrides?: CallOverrides): Promise<string>;
+  previewSettlement(contractId: BigNumberish, proRataBps: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber[], BigNumber, BigNumber] & { milestoneShares: BigNumber[]; stipend: BigNumber; refund: BigNumber }>;
+  raiseDispute(contractId: BigNumberish, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  rejectMilestone(contractId: BigNumberish, milestoneIndex: BigNumberish, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  releaseMilestonePayment(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  resolveDispute(contractId: BigNumberish, athleteFavor: boolean, proRataBps: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  reviewPeriod(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  setAgent(contractId: BigNumberish, agent: string, commissionBps: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  setBonusMilestone(contractId: BigNumberish, milestoneIndex: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  setDisputeResolver(_disputeResolver: string, overrides?: Overrides): Promise<ContractTransaction>;
+  setLatePolicy(contractId: BigNumberish, policy: BigNumberish, grace: BigNumberish, penaltyBps: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  setPerformanceOracle(_performanceOracle: string, overrides?: Overrides): Promise<ContractTransaction>;
+  setStipend(contractId: BigNumberish, mode: BigNumberish, amount: BigNumberish, interval: BigNumberish, periods: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  setTerminationManager(_terminationManager: string, overrides?: Overrides): Promise<ContractTransaction>;
+  settleBonusMilestone(contractId: BigNumberish, milestoneIndex: BigNumberish, evidence: string, overrides?: Overrides): Promise<ContractTransaction>;
+  settleByAgreement(contractId: BigNumberish, endDate: BigNumberish, athleteAmount: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  settlements(arg0: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, boolean] & { athleteAmount: BigNumber; refund: BigNumber; proRataBps: BigNumber; settledAt: BigNumber; negotiated: boolean }>;
+  stipendAmount(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  stipendInterval(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  stipendMode(arg0: BigNumberish, overrides?: CallOverrides): Promise<number>;
+  stipendPeriods(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  stipendStoppedAt(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  stipendWithdrawn(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  terminationManager(overrides?: CallOverrides): Promise<string>;
+  termsRevision(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  updateContract(contractId: BigNumberish, newContractIPFSHash: string, overrides?: Overrides): Promise<ContractTransaction>;
+  withdrawStipend(contractId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+}
+
+export interface SponsorshipNFTContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): SponsorshipNFTContract;
+  filters: {
+    Approval(owner?: string | null, approved?: string | null, tokenId?: BigNumberish | null): EventFilter;
+    ApprovalForAll(owner?: string | null, operator?: string | null): EventFilter;
+    RoyaltyDistributed(tokenId?: BigNumberish | null, payer?: string | null): EventFilter;
+    RoyaltyPaid(tokenId?: BigNumberish | null): EventFilter;
+    SponsorshipNFTMinted(tokenId?: BigNumberish | null, contractId?: BigNumberish | null): EventFilter;
+    Transfer(from?: string | null, to?: string | null, tokenId?: BigNumberish | null): EventFilter;
+  };
+  ATHLETE_ROYALTY_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+  approve(to: string, tokenId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  athleteContract(overrides?: CallOverrides): Promise<string>;
+  balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+  completionURIOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  contractIdOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  distributeRoyalty(tokenId: BigNumberish, paymentToken: string, amount: BigNumberish, overrides?: PayableOverrides): Promise<ContractTransaction>;
+  getApproved(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  getContractId(tokenId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getTokensByOwner(owner: string, overrides?: CallOverrides): Promise<BigNumber[]>;
+  isApprovedForAll(owner: string, operator: string, overrides?: CallOverrides): Promise<boolean>;
+  mintSponsorshipNFT(to: string, contractId: BigNumberish, newTokenURI: string, completionURI: string, athlete: string, sponsor: string, overrides?: Overrides): Promise<ContractTransaction>;
+  minter(overrides?: CallOverrides): Promise<string>;
+  name(overrides?: CallOverrides): Promise<string>;
+  ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  royaltyInfo(_tokenId: BigNumberish, _salePrice: BigNumberish, overrides?: CallOverrides): Promise<[string, BigNumber]>;
+  'safeTransferFrom(address,address,uint256)'(from: string, to: string, tokenId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  'safeTransferFrom(address,address,uint256,bytes)'(from: string, to: string, tokenId: BigNumberish, data: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  setApprovalForAll(operator: string, approved: boolean, overrides?: Overrides): Promise<ContractTransaction>;
+  supportsInterface(interfaceId: BytesLike, overrides?: CallOverrides): Promise<boolean>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  tokenByIndex(index: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  tokenIdOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  tokenOfOwnerByIndex(owner: string, index: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  tokenURI(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transferFrom(from: string, to: string, tokenId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+}
+
+export interface DisputeResolutionContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): DisputeResolutionContract;
+  filters: {
+    ArbitratorVoted(disputeId?: BigNumberish | null): EventFilter;
+    DisputeCreated(disputeId?: BigNumberish | null, contractId?: BigNumberish | null): EventFilter;
+    DisputeDeadlocked(disputeId?: BigNumberish | null, contractId?: BigNumberish | null): EventFilter;
+    DisputeResolved(disputeId?: BigNumberish | null, contractId?: BigNumberish | null): EventFilter;
+    EvidenceSubmitted(disputeId?: BigNumberish | null): EventFilter;
+    RoleAdminChanged(role?: BytesLike | null, previousAdminRole?: BytesLike | null, newAdminRole?: BytesLike | null): EventFilter;
+    RoleGranted(role?: BytesLike | null, account?: string | null, sender?: string | null): EventFilter;
+    RoleRevoked(role?: BytesLike | null, account?: string | null, sender?: string | null): EventFilter;
+  };
+  ARBITRATOR_ROLE(overrides?: CallOverrides): Promise<string>;
+  DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+  arbitratorCount(overrides?: CallOverrides): Promise<BigNumber>;
+  athleteContract(overrides?: CallOverrides): Promise<string>;
+  createDispute(contractId: BigNumberish, evidenceIPFSHash: string, reason: string, affectedMilestones: BigNumberish[], overrides?: Overrides): Promise<ContractTransaction>;
+  disputeCount(overrides?: CallOverrides): Promise<BigNumber>;
+  disputeIdOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  disputes(arg0: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber, string, string, string, BigNumber, boolean, boolean, BigNumber, BigNumber, BigNumber, boolean] & { contractId: BigNumber; initiator: string; evidenceIPFSHash: string; reason: string; timestamp: BigNumber; resolved: boolean; athleteFavor: boolean; athleteVotes: BigNumber; sponsorVotes: BigNumber; panelSize: BigNumber; deadlocked: boolean }>;
+  forceResolveDispute(disputeId: BigNumberish, athleteFavor: boolean, proRataBps: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  getAffectedMilestones(disputeId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber[]>;
+  getArbitratorVote(disputeId: BigNumberish, arbitrator: string, overrides?: CallOverrides): Promise<boolean>;
+  getDisputeDetails(disputeId: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber, string, string, string, BigNumber, boolean, boolean, BigNumber, BigNumber, BigNumber, BigNumber, boolean] & { contractId: BigNumber; initiator: string; evidenceIPFSHash: string; reason: string; timestamp: BigNumber; resolved: boolean; athleteFavor: boolean; athleteVotes: BigNumber; sponsorVotes: BigNumber; totalVotes: BigNumber; panelSize: BigNumber; deadlocked: boolean }>;
+  getDisputeId(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+  grantRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  hasArbitratorVoted(disputeId: BigNumberish, arbitrator: string, overrides?: CallOverrides): Promise<boolean>;
+  hasRole(role: BytesLike, account: string, overrides?: CallOverrides): Promise<boolean>;
+  renounceRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  revokeRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  submitEvidence(disputeId: BigNumberish, evidenceIPFSHash: string, overrides?: Overrides): Promise<ContractTransaction>;
+  supportsInterface(interfaceId: BytesLike, overrides?: CallOverrides): Promise<boolean>;
+  voteOnDispute(disputeId: BigNumberish, athleteFavor: boolean, overrides?: Overrides): Promise<ContractTransaction>;
+}
+
+export interface PerformanceOracleContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): PerformanceOracleContract;
+  filters: {
+    AttestationSubmitted(contractId?: BigNumberish | null, milestoneIndex?: null, oracle?: string | null): EventFilter;
+    BonusConditionSet(contractId?: BigNumberish | null, milestoneIndex?: null, oracle?: string | null): EventFilter;
+    RoleAdminChanged(role?: BytesLike | null, previousAdminRole?: BytesLike | null, newAdminRole?: BytesLike | null): EventFilter;
+    RoleGranted(role?: BytesLike | null, account?: string | null, sender?: string | null): EventFilter;
+    RoleRevoked(role?: BytesLike | null, account?: string | null, sender?: string | null): EventFilter;
+  };
+  DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+  ORACLE_ROLE(overrides?: CallOverrides): Promise<string>;
+  athleteContract(overrides?: CallOverrides): Promise<string>;
+  bonusConditions(arg0: BigNumberish, arg1: BigNumberish, overrides?: CallOverrides): Promise<[string, string, BigNumber, boolean] & { oracle: string; metric: string; threshold: BigNumber; settled: boolean }>;
+  getAttestationHash(contractId: BigNumberish, milestoneIndex: BigNumberish, value: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+  grantRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  hasRole(role: BytesLike, account: string, overrides?: CallOverrides): Promise<boolean>;
+  renounceRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  revokeRole(role: BytesLike, account: string, overrides?: Overrides): Promise<ContractTransaction>;
+  setBonusCondition(contractId: BigNumberish, milestoneIndex: BigNumberish, oracle: string, metric: string, threshold: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  submitAttestation(contractId: BigNumberish, milestoneIndex: BigNumberish, value: BigNumberish, signature: BytesLike, overrides?: Overrides): Promise<ContractTransaction>;
+  supportsInterface(interfaceId: BytesLike, overrides?: CallOverrides): Promise<boolean>;
+}
+
+export interface MutualTerminationContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): MutualTerminationContract;
+  filters: {
+    TerminationAccepted(contractId?: BigNumberish | null, proposalId?: BigNumberish | null): EventFilter;
+    TerminationDeclined(contractId?: BigNumberish | null, proposalId?: BigNumberish | null): EventFilter;
+    TerminationProposed(contractId?: BigNumberish | null, proposalId?: BigNumberish | null): EventFilter;
+    TerminationWithdrawn(contractId?: BigNumberish | null, proposalId?: BigNumberish | null): EventFilter;
+  };
+  acceptTermination(proposalId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  athleteContract(overrides?: CallOverrides): Promise<string>;
+  counterTermination(proposalId: BigNumberish, endDate: BigNumberish, athleteAmount: BigNumberish, refundAmount: BigNumberish, note: string, overrides?: Overrides): Promise<ContractTransaction>;
+  declineTermination(proposalId: BigNumberish, reason: string, overrides?: Overrides): Promise<ContractTransaction>;
+  getProposalIds(contractId: BigNumberish, overrides?: CallOverrides): Promise<BigNumber[]>;
+  getProposalsCount(overrides?: CallOverrides): Promise<BigNumber>;
+  getSplittableEscrow(contractId: BigNumberish, endDate: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber, BigNumber] & { remaining: BigNumber; overdrawn: BigNumber }>;
+  openProposalOf(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+  proposals(arg0: BigNumberish, overrides?: CallOverrides): Promise<[BigNumber, string, BigNumber, BigNumber, BigNumber, string, number, BigNumber, BigNumber] & { contractId: BigNumber; proposer: string; endDate: BigNumber; athleteAmount: BigNumber; refundAmount: BigNumber; note: string; status: number; createdAt: BigNumber; counterOf: BigNumber }>;
+  proposeTermination(contractId: BigNumberish, endDate: BigNumberish, athleteAmount: BigNumberish, refundAmount: BigNumberish, note: string, overrides?: Overrides): Promise<ContractTransaction>;
+  withdrawTermination(proposalId: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+}
+
+export interface IERC20MetadataContract extends ContractBase {
+  connect(signerOrProvider: Signer | providers.Provider | string): IERC20MetadataContract;
+  filters: {
+    Approval(owner?: string | null, spender?: string | null): EventFilter;
+    Transfer(from?: string | null, to?: string | null): EventFilter;
+  };
+  allowance(owner: string, spender: string, overrides?: CallOverrides): Promise<BigNumber>;
+  approve(spender: string, amount: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  name(overrides?: CallOverrides): Promise<string>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(to: string, amount: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+  transferFrom(from: string, to: string, amount: BigNumberish, overrides?: Overrides): Promise<ContractTransaction>;
+}
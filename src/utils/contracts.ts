@@ -0,0 +1,790 @@
+import { ethers } from 'ethers';
+import contractAddresses from '../contract-addresses.json';
+import factoryAbi from '../artifacts/contracts/AthleteChainFactory.sol/AthleteChainFactory.json';
+import athleteContractAbi from '../artifacts/contracts/AthleteContract.sol/AthleteContract.json';
+import sponsorshipNFTAbi from '../artifacts/contracts/SponsorshipNFT.sol/SponsorshipNFT.json';
+import disputeResolutionAbi from '../artifacts/contracts/DisputeResolution.sol/DisputeResolution.json';
+import performanceOracleAbi from '../artifacts/contracts/PerformanceOracle.sol/PerformanceOracle.json';
+import mutualTerminationAbi from '../artifacts/contracts/MutualTermination.sol/MutualTermination.json';
+import erc20Abi from '../artifacts/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol/IERC20Metadata.json';
+import { getTokenByAddress } from './tokens';
+import { toJSONDataURI } from './ipfs';
+import type {
+  AthleteChainFactoryContract,
+  AthleteContractContract,
+  SponsorshipNFTContract,
+  DisputeResolutionContract,
+  PerformanceOracleContract,
+  MutualTerminationContract,
+  IERC20MetadataContract
+} from './contract-types';
+
+export type {
+  AthleteChainFactoryContract,
+  AthleteContractContract,
+  SponsorshipNFTContract,
+  DisputeResolutionContract,
+  PerformanceOracleContract,
+  MutualTerminationContract,
+  IERC20MetadataContract
+} from './contract-types';
+
+type SignerOrProvider = ethers.Signer | ethers.providers.Provider;
+
+// Typed contract instances bound to the addresses written by scripts/deploy.js
+export const getFactoryContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.factoryAddress, factoryAbi.abi, signerOrProvider) as unknown as AthleteChainFactoryContract;
+
+export const getAthleteContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.athleteContractAddress, athleteContractAbi.abi, signerOrProvider) as unknown as AthleteContractContract;
+
+export const getSponsorshipNFTContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.sponsorshipNFTAddress, sponsorshipNFTAbi.abi, signerOrProvider) as unknown as SponsorshipNFTContract;
+
+export const getDisputeResolutionContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.disputeResolutionAddress, disputeResolutionAbi.abi, signerOrProvider) as unknown as DisputeResolutionContract;
+
+export const getPerformanceOracleContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.performanceOracleAddress, performanceOracleAbi.abi, signerOrProvider) as unknown as PerformanceOracleContract;
+
+export const getMutualTerminationContract = (signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(contractAddresses.mutualTerminationAddress, mutualTerminationAbi.abi, signerOrProvider) as unknown as MutualTerminationContract;
+
+// Payment tokens live at per-network addresses, see utils/tokens.ts
+export const getTokenContract = (tokenAddress: string, signerOrProvider: SignerOrProvider) =>
+  new ethers.Contract(tokenAddress, erc20Abi.abi, signerOrProvider) as unknown as IERC20MetadataContract;
+
+// Mirrors AthleteContract.ContractState
+export enum ContractState {
+  Draft,
+  Active,
+  Completed,
+  Disputed,
+  Terminated
+}
+
+// Mirrors AthleteContract.MilestoneStatus
+export enum MilestoneStatus {
+  Pending,
+  Completed,
+  Disputed,
+  Rejected,
+  Forfeited
+}
+
+// Mirrors AthleteContract.LatePolicy
+export enum LatePolicy {
+  GracePeriod,
+  Penalty,
+  Forfeit
+}
+
+// Mirrors AthleteContract.StipendMode
+export enum StipendMode {
+  None,
+  Recurring,
+  Stream
+}
+
+// AthleteContract.STIPEND_INDEX: the milestone index reported in payment events for stipend withdrawals
+export const STIPEND_INDEX = ethers.constants.MaxUint256;
+
+// AthleteContract.SETTLEMENT_INDEX: the milestone index reported in the payment event of a negotiated settlement
+export const SETTLEMENT_INDEX = ethers.constants.MaxUint256.sub(1);
+
+// Mirrors MutualTermination.ProposalStatus
+export enum TerminationStatus {
+  Open,
+  Accepted,
+  Declined,
+  Countered,
+  Withdrawn
+}
+
+// AthleteContract.PRO_RATA_BY_TIME: settles partly delivered milestones by time elapsed towards their deadline
+export const PRO_RATA_BY_TIME = ethers.constants.MaxUint256;
+
+// Mirrors AthleteChainFactory.RequestStatus
+export enum RequestStatus {
+  None,
+  Pending,
+  Approved,
+  Rejected
+}
+
+export const contractStateToString = (state: number): string => ContractState[state] ?? 'Unknown';
+
+export const milestoneStatusToString = (status: number): string => MilestoneStatus[status] ?? 'Unknown';
+
+export const requestStatusToString = (status: number): string => RequestStatus[status] ?? 'Unknown';
+
+export const latePolicyToString = (policy: number): string => LatePolicy[policy] ?? 'Unknown';
+
+export const stipendModeToString = (mode: number): string => StipendMode[mode] ?? 'Unknown';
+
+export const terminationStatusToString = (status: number): string => TerminationStatus[status] ?? 'Unknown';
+
+// Message to show for a failed call: the error's message, or the revert reason ethers attached to it
+export const getErrorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : (typeof err === 'object' && err !== null && 'reason' in err ? String((err as { reason: unknown }).reason) : String(err));
+
+// Role constants defined on AthleteChainFactory
+export type RoleName = 'ATHLETE_ROLE' | 'SPONSOR_ROLE' | 'AGENT_ROLE' | 'ARBITRATOR_ROLE' | 'ADMIN_ROLE';
+
+export const ROLE_NAMES: RoleName[] = ['ATHLETE_ROLE', 'SPONSOR_ROLE', 'AGENT_ROLE', 'ARBITRATOR_ROLE', 'ADMIN_ROLE'];
+
+export interface ContractDetails {
+  athlete: string;
+  sponsor: string;
+  contractIPFSHash: string;
+  totalValue: ethers.BigNumber;
+  startDate: ethers.BigNumber;
+  endDate: ethers.BigNumber;
+  state: ContractState;
+  paymentToken: string;
+}
+
+export interface MilestoneDetails {
+  description: string;
+  amount: ethers.BigNumber;
+  deadline: ethers.BigNumber;
+  status: MilestoneStatus;
+  evidence: string;
+  paid: boolean;
+  submissions: number;
+  // Unix time the sponsor's review window for the latest submission closes, 0 if never submitted
+  reviewDeadline: number;
+}
+
+// Decode getContractDetails into a plain struct, loading the payment token's decimals for formatting amounts
+export const getContractDetails = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<ContractDetails> => {
+  const details = await athleteContract.getContractDetails(contractId);
+  await loadTokenDecimals(details.paymentToken, athleteContract.provider);
+  return {
+    athlete: details.athlete,
+    sponsor: details.sponsor,
+    contractIPFSHash: details.contractIPFSHash,
+    totalValue: details.totalValue,
+    startDate: details.startDate,
+    endDate: details.endDate,
+    state: details.state,
+    paymentToken: details.paymentToken
+  };
+};
+
+// Decode every milestone of a contract, in index order
+export const getMilestones = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<MilestoneDetails[]> => {
+  const count = (await athleteContract.getMilestonesCount(contractId)).toNumber();
+  return Promise.all(
+    Array.from({ length: count }, async (_, index) => {
+      const [milestone, submissions, reviewDeadline] = await Promise.all([
+        athleteContract.getMilestoneDetails(contractId, index),
+        athleteContract.milestoneSubmissions(contractId, index),
+        athleteContract.getReviewDeadline(contractId, index)
+      ]);
+      return {
+        description: milestone.description,
+        amount: milestone.amount,
+        deadline: milestone.deadline,
+        status: milestone.status,
+        evidence: milestone.evidence,
+        paid: milestone.paid,
+        submissions: submissions.toNumber(),
+        reviewDeadline: reviewDeadline.toNumber()
+      };
+    })
+  );
+};
+
+export interface MilestoneHistoryEntry {
+  type: 'submitted' | 'rejected';
+  // Evidence URI for submissions, the sponsor's reason for rejections
+  detail: string;
+  timestamp: number;
+  transactionHash: string;
+}
+
+// Submission and rejection history of every milestone of a contract, keyed by milestone index, oldest first
+export const getMilestoneHistory = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<Record<number, MilestoneHistoryEntry[]>> => {
+  const [submitted, rejected] = await Promise.all([
+    athleteContract.queryFilter(athleteContract.filters.MilestoneCompleted(contractId)),
+    athleteContract.queryFilter(athleteContract.filters.MilestoneRejected(contractId))
+  ]);
+  const events = [...submitted, ...rejected].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const blockTimestamps = new Map<number, number>();
+  const history: Record<number, MilestoneHistoryEntry[]> = {};
+  for (const event of events) {
+    if (!event.args) continue;
+    if (!blockTimestamps.has(event.blockNumber)) {
+      blockTimestamps.set(event.blockNumber, (await event.getBlock()).timestamp);
+    }
+    const index = (event.args.milestoneIndex as ethers.BigNumber).toNumber();
+    (history[index] ??= []).push({
+      type: event.event === 'MilestoneRejected' ? 'rejected' : 'submitted',
+      detail: event.event === 'MilestoneRejected' ? event.args.reason : event.args.evidence,
+      timestamp: blockTimestamps.get(event.blockNumber) ?? 0,
+      transactionHash: event.transactionHash
+    });
+  }
+  return history;
+};
+
+export interface RoyaltyDistribution {
+  payer: string;
+  paymentToken: string;
+  amount: ethers.BigNumber;
+  athlete: string;
+  athleteShare: ethers.BigNumber;
+  holder: string;
+  holderShare: ethers.BigNumber;
+  timestamp: number;
+  transactionHash: string;
+}
+
+// Royalty payouts made through distributeRoyalty for a sponsorship token, newest first
+export const getRoyaltyHistory = async (
+  nft: SponsorshipNFTContract,
+  tokenId: ethers.BigNumberish
+): Promise<RoyaltyDistribution[]> => {
+  const events = await nft.queryFilter(nft.filters.RoyaltyDistributed(tokenId));
+  const history = await Promise.all(
+    events
+      .filter(event => event.args)
+      .map(async event => {
+        const args = event.args as ethers.utils.Result;
+        await loadTokenDecimals(args.paymentToken, nft.provider);
+        return {
+          payer: args.payer,
+          paymentToken: args.paymentToken,
+          amount: args.amount,
+          athlete: args.athlete,
+          athleteShare: args.athleteShare,
+          holder: args.holder,
+          holderShare: (args.amount as ethers.BigNumber).sub(args.athleteShare),
+          timestamp: (await event.getBlock()).timestamp,
+          transactionHash: event.transactionHash
+        };
+      })
+  );
+  return history.reverse();
+};
+
+export interface BonusCondition {
+  oracle: string;
+  metric: string;
+  threshold: ethers.BigNumber;
+  settled: boolean;
+  // Most recent attested result, null until the oracle has reported one
+  lastValue: ethers.BigNumber | null;
+}
+
+// Bonus conditions of a contract's performance milestones, keyed by milestone index
+export const getBonusConditions = async (
+  performanceOracle: PerformanceOracleContract,
+  contractId: ethers.BigNumberish
+): Promise<Record<number, BonusCondition>> => {
+  const [conditionEvents, attestations] = await Promise.all([
+    performanceOracle.queryFilter(performanceOracle.filters.BonusConditionSet(contractId)),
+    performanceOracle.queryFilter(performanceOracle.filters.AttestationSubmitted(contractId))
+  ]);
+  const indexes = [...new Set(conditionEvents.map(event => (event.args?.milestoneIndex as ethers.BigNumber).toNumber()))];
+  const conditions: Record<number, BonusCondition> = {};
+  await Promise.all(indexes.map(async index => {
+    const { oracle, metric, threshold, settled } = await performanceOracle.bonusConditions(contractId, index);
+    conditions[index] = { oracle, metric, threshold, settled, lastValue: null };
+  }));
+  // Attestations come back oldest first, so the last one seen per milestone wins
+  attestations.forEach(event => {
+    const condition = event.args && conditions[(event.args.milestoneIndex as ethers.BigNumber).toNumber()];
+    if (condition) condition.lastValue = event.args?.value;
+  });
+  return conditions;
+};
+
+export interface LatePolicyDetails {
+  policy: LatePolicy;
+  // Seconds after a milestone deadline before a submission counts as late
+  gracePeriod: number;
+  penaltyBps: number;
+}
+
+export const getLatePolicy = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<LatePolicyDetails> => {
+  const [policy, gracePeriod, penaltyBps] = await Promise.all([
+    athleteContract.latePolicy(contractId),
+    athleteContract.gracePeriod(contractId),
+    athleteContract.latePenaltyBps(contractId)
+  ]);
+  return { policy, gracePeriod: gracePeriod.toNumber(), penaltyBps: penaltyBps.toNumber() };
+};
+
+// One-line summary of a contract's late-delivery terms
+export const describeLatePolicy = ({ policy, gracePeriod, penaltyBps }: LatePolicyDetails): string => {
+  const grace = gracePeriod > 0 ? `${formatDuration(gracePeriod)} grace period` : 'no grace period';
+  switch (policy) {
+    case LatePolicy.GracePeriod:
+      return `Submissions close ${gracePeriod > 0 ? `${formatDuration(gracePeriod)} after` : 'at'} the deadline, then the sponsor can forfeit the milestone`;
+    case LatePolicy.Penalty:
+      return `Late submissions are paid ${formatBps(penaltyBps)} less (${grace}) until the contract ends, then the sponsor can forfeit the milestone`;
+    case LatePolicy.Forfeit:
+      return 'Milestones not delivered by their deadline can be forfeited by the sponsor';
+    default:
+      return 'Unknown late-delivery policy';
+  }
+};
+
+export interface StipendDetails {
+  mode: StipendMode;
+  // Paid every interval for Recurring; the whole stream for Stream
+  amount: ethers.BigNumber;
+  // Seconds between Recurring payments and how many there are
+  interval: number;
+  periods: number;
+  total: ethers.BigNumber;
+  accrued: ethers.BigNumber;
+  withdrawn: ethers.BigNumber;
+  // Accrued and not yet withdrawn
+  available: ethers.BigNumber;
+}
+
+export const getStipendDetails = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<StipendDetails> => {
+  const [mode, amount, interval, periods, total, accrued, withdrawn] = await Promise.all([
+    athleteContract.stipendMode(contractId),
+    athleteContract.stipendAmount(contractId),
+    athleteContract.stipendInterval(contractId),
+    athleteContract.stipendPeriods(contractId),
+    athleteContract.getStipendTotal(contractId),
+    athleteContract.getStipendAccrued(contractId),
+    athleteContract.stipendWithdrawn(contractId)
+  ]);
+  return {
+    mode,
+    amount,
+    interval: interval.toNumber(),
+    periods: periods.toNumber(),
+    total,
+    accrued,
+    withdrawn,
+    available: accrued.sub(withdrawn)
+  };
+};
+
+// Whether a payment event's milestone index refers to a stipend withdrawal rather than a milestone
+export const isStipendPayment = (milestoneIndex: ethers.BigNumberish) => STIPEND_INDEX.eq(milestoneIndex);
+
+// Whether a payment event's milestone index refers to a negotiated settlement payout
+export const isSettlementPayment = (milestoneIndex: ethers.BigNumberish) => SETTLEMENT_INDEX.eq(milestoneIndex);
+
+// Milestones due within this many seconds are flagged as upcoming
+export const UPCOMING_DEADLINE_WINDOW = 7 * 24 * 60 * 60;
+
+export type DeadlineStatus = 'upcoming' | 'due' | 'overdue' | null;
+
+// Where an undelivered milestone stands against its deadline: upcoming within the window, due while
+// only the grace period is left, overdue once that has passed too. Delivered milestones have no status.
+export const getDeadlineStatus = (
+  milestone: { deadline: ethers.BigNumberish; status: number },
+  gracePeriod: number,
+  now: number
+): DeadlineStatus => {
+  if (milestone.status !== MilestoneStatus.Pending && milestone.status !== MilestoneStatus.Rejected) return null;
+  const deadline = ethers.BigNumber.from(milestone.deadline).toNumber();
+  if (now > deadline + gracePeriod) return 'overdue';
+  if (now > deadline) return 'due';
+  if (deadline - now <= UPCOMING_DEADLINE_WINDOW) return 'upcoming';
+  return null;
+};
+
+// Last time a milestone can be submitted, after which the sponsor can forfeit it: its deadline plus the
+// grace period, or under the Penalty policy the contract's end date if later. Mirrors getSubmissionCutoff.
+export const getSubmissionCutoff = (
+  deadline: number,
+  { policy, gracePeriod }: LatePolicyDetails,
+  endDate: number,
+  isBonus: boolean
+): number => {
+  const lateAfter = deadline + gracePeriod;
+  return policy === LatePolicy.Penalty && !isBonus && endDate > lateAfter ? endDate : lateAfter;
+};
+
+// Rough human duration for countdowns, e.g. "3d 4h" or "12m"
+export const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+export interface EscrowDetails {
+  deposited: ethers.BigNumber;
+  balance: ethers.BigNumber;
+  shortfall: ethers.BigNumber;
+}
+
+// Sponsor escrow held for a contract; shortfall is what still has to be deposited before activation
+export const getEscrowDetails = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<EscrowDetails> => {
+  const [deposited, balance, shortfall] = await Promise.all([
+    athleteContract.escrowDeposited(contractId),
+    athleteContract.escrowBalance(contractId),
+    athleteContract.getEscrowShortfall(contractId)
+  ]);
+  return { deposited, balance, shortfall };
+};
+
+export interface SettlementPreview {
+  // Athlete's share of each milestone, before the agent's commission
+  milestoneShares: ethers.BigNumber[];
+  stipend: ethers.BigNumber;
+  athleteAmount: ethers.BigNumber;
+  refund: ethers.BigNumber;
+}
+
+// How the escrow would be split if the contract were terminated and settled now
+export const getSettlementPreview = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish,
+  proRataBps: ethers.BigNumberish = PRO_RATA_BY_TIME
+): Promise<SettlementPreview> => {
+  const { milestoneShares, stipend, refund } = await athleteContract.previewSettlement(contractId, proRataBps);
+  const athleteAmount = milestoneShares.reduce((sum, share) => sum.add(share), stipend);
+  return { milestoneShares, stipend, athleteAmount, refund };
+};
+
+export interface SettlementRecord {
+  athleteAmount: ethers.BigNumber;
+  refund: ethers.BigNumber;
+  // Basis points, or PRO_RATA_BY_TIME; unused for negotiated settlements
+  proRataBps: ethers.BigNumber;
+  settledAt: number;
+  // Agreed by both parties through a mutual termination rather than settled by a dispute ruling
+  negotiated: boolean;
+}
+
+// Settlement recorded when the contract was terminated early, null if it never was
+export const getSettlement = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<SettlementRecord | null> => {
+  const { athleteAmount, refund, proRataBps, settledAt, negotiated } = await athleteContract.settlements(contractId);
+  return settledAt.isZero() ? null : { athleteAmount, refund, proRataBps, settledAt: settledAt.toNumber(), negotiated };
+};
+
+// What a party signs to accept a draft: the keccak256 of its contract document URI
+export const getDocumentHash = (contractIPFSHash: string) => ethers.utils.id(contractIPFSHash);
+
+// Everything the parties agree to on a draft. The wizard stores it as the contract document, so accepting
+// the document's hash binds each party to these exact terms
+export interface TermsDocument {
+  athlete: string;
+  sponsor: string;
+  paymentToken: string;
+  totalValue: ethers.BigNumber;
+  startDate: number;
+  endDate: number;
+  // Seconds the sponsor has to review each milestone submission
+  reviewPeriod: number;
+  milestones: {
+    description: string;
+    amount: ethers.BigNumber;
+    deadline: number;
+    // Oracle condition a bonus milestone pays out on, null for a regular one
+    bonus: { oracle: string; metric: string; threshold: ethers.BigNumber } | null;
+  }[];
+  stipend: { mode: StipendMode; amount: ethers.BigNumber; interval: number; periods: number };
+  latePolicy: LatePolicyDetails;
+  // Zero address and no commission when the athlete hasn't named an agent
+  agent: { address: string; commissionBps: number };
+}
+
+// Encode the terms as a contract document URI. Keys, amounts and addresses are always written the same way,
+// so a document rebuilt from chain state is identical to the one the parties signed
+export const buildTermsDocument = (terms: TermsDocument): string => toJSONDataURI({
+  athlete: terms.athlete.toLowerCase(),
+  sponsor: terms.sponsor.toLowerCase(),
+  paymentToken: terms.paymentToken.toLowerCase(),
+  totalValue: terms.totalValue.toString(),
+  startDate: terms.startDate,
+  endDate: terms.endDate,
+  reviewPeriod: terms.reviewPeriod,
+  milestones: terms.milestones.map(milestone => ({
+    description: milestone.description,
+    amount: milestone.amount.toString(),
+    deadline: milestone.deadline,
+    bonus: milestone.bonus && {
+      oracle: milestone.bonus.oracle.toLowerCase(),
+      metric: milestone.bonus.metric,
+      threshold: milestone.bonus.threshold.toString()
+    }
+  })),
+  stipend: {
+    mode: terms.stipend.mode,
+    amount: terms.stipend.amount.toString(),
+    interval: terms.stipend.interval,
+    periods: terms.stipend.periods
+  },
+  latePolicy: {
+    policy: terms.latePolicy.policy,
+    gracePeriod: terms.latePolicy.gracePeriod,
+    penaltyBps: terms.latePolicy.penaltyBps
+  },
+  agent: { address: terms.agent.address.toLowerCase(), commissionBps: terms.agent.commissionBps }
+});
+
+// A contract's terms as currently set on-chain
+export const getTermsDocument = async (
+  athleteContract: AthleteContractContract,
+  performanceOracle: PerformanceOracleContract,
+  contractId: ethers.BigNumberish,
+  details: ContractDetails
+): Promise<TermsDocument> => {
+  const [milestones, bonusConditions, stipend, latePolicy, agent, reviewPeriod] = await Promise.all([
+    getMilestones(athleteContract, contractId),
+    getBonusConditions(performanceOracle, contractId),
+    getStipendDetails(athleteContract, contractId),
+    getLatePolicy(athleteContract, contractId),
+    getAgentDetails(athleteContract, contractId),
+    athleteContract.reviewPeriod(contractId)
+  ]);
+  return {
+    athlete: details.athlete,
+    sponsor: details.sponsor,
+    paymentToken: details.paymentToken,
+    totalValue: details.totalValue,
+    startDate: details.startDate.toNumber(),
+    endDate: details.endDate.toNumber(),
+    reviewPeriod: reviewPeriod.toNumber(),
+    milestones: milestones.map((milestone, index) => {
+      const condition = bonusConditions[index];
+      return {
+        description: milestone.description,
+        amount: milestone.amount,
+        deadline: milestone.deadline.toNumber(),
+        bonus: condition ? { oracle: condition.oracle, metric: condition.metric, threshold: condition.threshold } : null
+      };
+    }),
+    stipend: { mode: stipend.mode, amount: stipend.amount, interval: stipend.interval, periods: stipend.periods },
+    latePolicy,
+    agent: { address: agent.agent, commissionBps: agent.commissionBps }
+  };
+};
+
+export interface TermsConsent {
+  documentHash: string;
+  // Whether the contract document spells out the terms currently set on-chain
+  matchesTerms: boolean;
+  // Whether each party has accepted the draft's current terms
+  athleteAccepted: boolean;
+  sponsorAccepted: boolean;
+  // Latest decline by a party who hasn't accepted since, null if there is none
+  decline: { party: string; reason: string } | null;
+}
+
+// Where both parties stand on a draft's current terms; it can only be activated once both accepted
+export const getTermsConsent = async (
+  athleteContract: AthleteContractContract,
+  performanceOracle: PerformanceOracleContract,
+  contractId: ethers.BigNumberish,
+  details: ContractDetails
+): Promise<TermsConsent> => {
+  const { athlete, sponsor, contractIPFSHash } = details;
+  const [terms, revision, athleteRevision, sponsorRevision, declines] = await Promise.all([
+    getTermsDocument(athleteContract, performanceOracle, contractId, details),
+    athleteContract.termsRevision(contractId),
+    athleteContract.acceptedRevision(contractId, athlete),
+    athleteContract.acceptedRevision(contractId, sponsor),
+    athleteContract.queryFilter(athleteContract.filters.TermsDeclined(contractId))
+  ]);
+  const athleteAccepted = athleteRevision.eq(revision.add(1));
+  const sponsorAccepted = sponsorRevision.eq(revision.add(1));
+  const latest = declines[declines.length - 1]?.args;
+  const declinedBy = latest?.party.toLowerCase();
+  const stillDeclined = declinedBy === athlete.toLowerCase() ? !athleteAccepted : declinedBy === sponsor.toLowerCase() && !sponsorAccepted;
+  return {
+    documentHash: getDocumentHash(contractIPFSHash),
+    matchesTerms: buildTermsDocument(terms) === contractIPFSHash,
+    athleteAccepted,
+    sponsorAccepted,
+    decline: latest && stillDeclined ? { party: latest.party, reason: latest.reason } : null
+  };
+};
+
+export interface CompletionRecord {
+  completedAt: number;
+  transactionHash: string;
+  // Everything released to the athlete over the life of the contract (before the agent's commission),
+  // and everything refunded to the sponsor from escrow
+  athletePaid: ethers.BigNumber;
+  sponsorRefunded: ethers.BigNumber;
+}
+
+// When and how a contract was completed, from its ContractCompleted event; null if it hasn't been
+export const getCompletion = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<CompletionRecord | null> => {
+  const [completed] = await athleteContract.queryFilter(athleteContract.filters.ContractCompleted(contractId));
+  if (!completed) return null;
+  const [payments, refunds, block] = await Promise.all([
+    athleteContract.queryFilter(athleteContract.filters.PaymentReleased(contractId)),
+    athleteContract.queryFilter(athleteContract.filters.EscrowRefunded(contractId)),
+    completed.getBlock()
+  ]);
+  const sum = (events: ethers.Event[]) =>
+    events.reduce((total, event) => total.add(event.args?.amount ?? 0), ethers.constants.Zero);
+  return {
+    completedAt: block.timestamp,
+    transactionHash: completed.transactionHash,
+    athletePaid: sum(payments),
+    sponsorRefunded: sum(refunds)
+  };
+};
+
+export interface TerminationProposal {
+  id: number;
+  proposer: string;
+  endDate: number;
+  athleteAmount: ethers.BigNumber;
+  refundAmount: ethers.BigNumber;
+  note: string;
+  status: TerminationStatus;
+  createdAt: number;
+  // Proposal this one counters, null for an opening proposal
+  counterOf: number | null;
+  // Reason given when the other party declined
+  declineReason: string | null;
+}
+
+// Every mutual-termination proposal made on a contract, oldest first
+export const getTerminationProposals = async (
+  mutualTermination: MutualTerminationContract,
+  contractId: ethers.BigNumberish
+): Promise<TerminationProposal[]> => {
+  const [ids, declines] = await Promise.all([
+    mutualTermination.getProposalIds(contractId),
+    mutualTermination.queryFilter(mutualTermination.filters.TerminationDeclined(contractId))
+  ]);
+  const declineReasons = new Map<number, string>();
+  declines.forEach(event => {
+    if (event.args) declineReasons.set((event.args.proposalId as ethers.BigNumber).toNumber(), event.args.reason);
+  });
+  return Promise.all(ids.map(async id => {
+    const proposal = await mutualTermination.proposals(id);
+    return {
+      id: id.toNumber(),
+      proposer: proposal.proposer,
+      endDate: proposal.endDate.toNumber(),
+      athleteAmount: proposal.athleteAmount,
+      refundAmount: proposal.refundAmount,
+      note: proposal.note,
+      status: proposal.status,
+      createdAt: proposal.createdAt.toNumber(),
+      counterOf: proposal.counterOf.isZero() ? null : proposal.counterOf.toNumber() - 1,
+      declineReason: declineReasons.get(id.toNumber()) ?? null
+    };
+  }));
+};
+
+// Basis partly delivered milestones were (or would be) settled on
+export const describeProRata = (proRataBps: ethers.BigNumberish): string =>
+  PRO_RATA_BY_TIME.eq(proRataBps)
+    ? 'partly delivered milestones paid by time elapsed towards their deadline'
+    : `partly delivered milestones paid at ${formatBps(ethers.BigNumber.from(proRataBps).toNumber())}`;
+
+export interface AgentDetails {
+  // Zero address when the athlete hasn't named an agent
+  agent: string;
+  commissionBps: number;
+  commissionPaid: ethers.BigNumber;
+}
+
+// Agent representing the athlete on a contract and the commission they have been paid from milestone payouts
+export const getAgentDetails = async (
+  athleteContract: AthleteContractContract,
+  contractId: ethers.BigNumberish
+): Promise<AgentDetails> => {
+  const [agent, commissionBps, commissionPaid] = await Promise.all([
+    athleteContract.agentOf(contractId),
+    athleteContract.agentCommissionBps(contractId),
+    athleteContract.agentCommissionPaid(contractId)
+  ]);
+  return { agent, commissionBps: commissionBps.toNumber(), commissionPaid };
+};
+
+// Basis points as a percentage string, e.g. 1250 -> "12.5%"
+export const formatBps = (bps: number) => `${bps / 100}%`;
+
+// Make sure spender can pull amount of the owner's tokens, approving exactly that amount when it can't
+export const ensureAllowance = async (
+  token: IERC20MetadataContract,
+  owner: string,
+  spender: string,
+  amount: ethers.BigNumber
+): Promise<void> => {
+  const allowance = await token.allowance(owner, spender);
+  if (allowance.gte(amount)) return;
+  // USDT rejects changing a non-zero allowance, so clear it first
+  if (!allowance.isZero()) {
+    await (await token.approve(spender, 0)).wait();
+  }
+  await (await token.approve(spender, amount)).wait();
+};
+
+export const isNativePayment = (paymentToken: string) => paymentToken === ethers.constants.AddressZero;
+
+// decimals() of payment tokens utils/tokens.ts doesn't list, by lowercased address
+const loadedDecimals = new Map<string, number>();
+
+const knownDecimals = (paymentToken: string): number | undefined =>
+  getTokenByAddress(paymentToken)?.decimals ?? loadedDecimals.get(paymentToken.toLowerCase());
+
+// Read and cache the payment token's decimals() unless they are already known. Call it before formatting
+// or parsing amounts in a token that came from the chain rather than the token list
+export const loadTokenDecimals = async (paymentToken: string, provider: ethers.providers.Provider): Promise<number> => {
+  const known = knownDecimals(paymentToken);
+  if (known !== undefined) return known;
+  const decimals = await getTokenContract(paymentToken, provider).decimals();
+  loadedDecimals.set(paymentToken.toLowerCase(), decimals);
+  return decimals;
+};
+
+// Decimals of the contract's payment token; throws for a token that is neither listed nor loaded
+export const getTokenDecimals = (paymentToken: string = ethers.constants.AddressZero): number => {
+  const decimals = knownDecimals(paymentToken);
+  if (decimals === undefined) {
+    throw new Error(`Unknown payment token ${paymentToken}; load its decimals with loadTokenDecimals first`);
+  }
+  return decimals;
+};
+
+// Format an on-chain amount in the unit of the contract's payment token
+export const formatAmount = (
+  amount: ethers.BigNumberish,
+  paymentToken: string = ethers.constants.AddressZero,
+  decimals = getTokenDecimals(paymentToken)
+): string => {
+  const symbol = getTokenByAddress(paymentToken)?.symbol ?? 'Tokens';
+  return `${ethers.utils.formatUnits(amount, decimals)} ${symbol}`;
+};
+
+// Parse a user-entered amount into the payment token's smallest unit
+export const parseAmount = (value: string, paymentToken: string = ethers.constants.AddressZero): ethers.BigNumber =>
+  ethers.utils.parseUnits(value, getTokenDecimals(paymentToken));
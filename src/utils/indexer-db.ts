@@ -0,0 +1,147 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { NextResponse } from 'next/server';
+import { contractStateToString } from './contracts';
+
+// Server-only access to the SQLite database written by scripts/indexer.js
+const DB_PATH = process.env.INDEXER_DB || path.join(process.cwd(), 'data', 'indexer.db');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+let db: Database.Database | null = null;
+
+// Returns null until the indexer has created its database
+export const getIndexerDb = (): Database.Database | null => {
+  if (db) return db;
+  if (!fs.existsSync(DB_PATH)) return null;
+  db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+  return db;
+};
+
+export const indexerUnavailable = () =>
+  NextResponse.json({ error: 'Indexer database not found. Run `npm run indexer` first.' }, { status: 503 });
+
+export const badRequest = (message: string) => NextResponse.json({ error: message }, { status: 400 });
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  offset: number;
+}
+
+export const parsePagination = (params: URLSearchParams): Pagination => {
+  const page = Math.max(1, parseInt(params.get('page') ?? '1', 10) || 1);
+  const requested = parseInt(params.get('pageSize') ?? String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE;
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, requested));
+  return { page, pageSize, offset: (page - 1) * pageSize };
+};
+
+// Addresses are stored lowercased; null when the parameter is not a valid address
+export const parseAddress = (value: string | null): string | null =>
+  value && ethers.utils.isAddress(value) ? value.toLowerCase() : null;
+
+// Contract IDs are non-negative integers; null when the parameter is not one
+export const parseId = (value: string | null): number | null =>
+  value && /^\d+$/.test(value) ? Number(value) : null;
+
+export interface ContractRow {
+  id: number;
+  athlete: string;
+  sponsor: string;
+  contract_hash: string;
+  total_value: string;
+  start_date: number;
+  end_date: number;
+  state: number;
+  payment_token: string;
+  escrow_deposited: string;
+  escrow_balance: string;
+  agent: string;
+  agent_commission_bps: number;
+  agent_commission_paid: string;
+  created_at: number;
+  updated_block: number;
+}
+
+export interface EventRow {
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+  timestamp: number;
+  source: string;
+  name: string;
+  contract_id: number | null;
+  args: string;
+}
+
+export interface DisputeRow {
+  id: number;
+  contract_id: number;
+  initiator: string;
+  reason: string;
+  resolved: number;
+  athlete_favor: number;
+  athlete_votes: number;
+  sponsor_votes: number;
+  created_at: number;
+}
+
+export interface NFTRow {
+  token_id: number;
+  contract_id: number;
+  owner: string;
+  token_uri: string;
+}
+
+export const serializeContract = (row: ContractRow) => ({
+  id: row.id,
+  athlete: ethers.utils.getAddress(row.athlete),
+  sponsor: ethers.utils.getAddress(row.sponsor),
+  contractHash: row.contract_hash,
+  totalValue: row.total_value,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  state: row.state,
+  status: contractStateToString(row.state),
+  paymentToken: ethers.utils.getAddress(row.payment_token),
+  escrowDeposited: row.escrow_deposited,
+  escrowBalance: row.escrow_balance,
+  escrowShortfall: ethers.BigNumber.from(row.total_value).sub(row.escrow_deposited).toString(),
+  agent: ethers.utils.getAddress(row.agent),
+  agentCommissionBps: row.agent_commission_bps,
+  agentCommissionPaid: row.agent_commission_paid,
+  createdAt: row.created_at
+});
+
+export const serializeEvent = (row: EventRow) => ({
+  blockNumber: row.block_number,
+  transactionHash: row.tx_hash,
+  logIndex: row.log_index,
+  timestamp: row.timestamp,
+  source: row.source,
+  name: row.name,
+  contractId: row.contract_id,
+  args: JSON.parse(row.args) as Record<string, unknown>
+});
+
+export const serializeDispute = (row: DisputeRow) => ({
+  id: row.id,
+  contractId: row.contract_id,
+  initiator: ethers.utils.getAddress(row.initiator),
+  reason: row.reason,
+  resolved: row.resolved === 1,
+  athleteFavor: row.athlete_favor === 1,
+  athleteVotes: row.athlete_votes,
+  sponsorVotes: row.sponsor_votes,
+  createdAt: row.created_at
+});
+
+export const serializeNFT = (row: NFTRow) => ({
+  tokenId: row.token_id,
+  contractId: row.contract_id,
+  owner: ethers.utils.getAddress(row.owner),
+  tokenURI: row.token_uri
+});
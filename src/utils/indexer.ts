@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+import { ContractState, AthleteChainFactoryContract, AthleteContractContract } from './contracts';
+
+// Client for the /api routes served from the local indexer database
+
+export interface IndexedContract {
+  id: number;
+  athlete: string;
+  sponsor: string;
+  contractHash: string;
+  totalValue: string;
+  startDate: number;
+  endDate: number;
+  state: ContractState;
+  status: string;
+  paymentToken: string;
+  escrowDeposited: string;
+  escrowBalance: string;
+  escrowShortfall: string;
+  // Zero address when the athlete hasn't named an agent
+  agent: string;
+  agentCommissionBps: number;
+  agentCommissionPaid: string;
+  createdAt: number;
+}
+
+export interface IndexedPage<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface ContractQuery {
+  party?: string;
+  athlete?: string;
+  sponsor?: string;
+  agent?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Resolves to null when the indexer is not running so callers can fall back to reading the chain
+const fetchIndexed = async <T>(path: string, query: object = {}): Promise<T | null> => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  try {
+    const response = await fetch(`${path}?${params.toString()}`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    return (await response.json()) as T;
+  } catch (error) {
+    console.warn(`Indexer request to ${path} failed:`, error);
+    return null;
+  }
+};
+
+export const fetchIndexedContracts = (query: ContractQuery) =>
+  fetchIndexed<IndexedPage<IndexedContract>>('/api/contracts', query);
+
+// Walk every page of a contract query; null when the indexer is unavailable
+export const fetchAllIndexedContracts = async (query: Omit<ContractQuery, 'page' | 'pageSize'>) => {
+  const items: IndexedContract[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchIndexedContracts({ ...query, page, pageSize: 100 });
+    if (!result) return null;
+    items.push(...result.items);
+    if (items.length >= result.total || result.items.length === 0) return items;
+  }
+};
+
+// Ids of every contract the account is a party to, from the indexer or, failing that, the factory's ContractCreated logs
+export const getPartyContractIds = async (factory: AthleteChainFactoryContract, account: string): Promise<number[]> => {
+  const indexed = await fetchAllIndexedContracts({ party: account });
+  if (indexed) return indexed.map(contract => contract.id);
+
+  const events = await factory.queryFilter(factory.filters.ContractCreated());
+  const party = account.toLowerCase();
+  return events
+    .filter(event => event.args?.athlete.toLowerCase() === party || event.args?.sponsor.toLowerCase() === party)
+    .map(event => (event.args?.contractId as ethers.BigNumber).toNumber());
+};
+
+// Ids of every contract the account currently represents as agent, from the indexer or, failing that, AgentAssigned logs
+export const getAgentContractIds = async (athleteContract: AthleteContractContract, agent: string): Promise<number[]> => {
+  const indexed = await fetchAllIndexedContracts({ agent });
+  if (indexed) return indexed.map(contract => contract.id);
+
+  // An athlete can replace the agent while the contract is a draft, so confirm each assignment is still current
+  const events = await athleteContract.queryFilter(athleteContract.filters.AgentAssigned(null, agent));
+  const contractIds = [...new Set(events.map(event => (event.args?.contractId as ethers.BigNumber).toNumber()))];
+  const current = await Promise.all(contractIds.map(async id =>
+    (await athleteContract.agentOf(id)).toLowerCase() === agent.toLowerCase() ? id : null
+  ));
+  return current.filter((id): id is number => id !== null);
+};
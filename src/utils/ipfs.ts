@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+
+const IPFS_GATEWAY = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io';
+
+// Pin a document through /api/ipfs and return its ipfs:// URI for on-chain storage
+export const uploadToIPFS = async (file: File): Promise<string> => {
+  const body = new FormData();
+  body.append('file', file);
+  const response = await fetch('/api/ipfs', { method: 'POST', body });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.uri) {
+    throw new Error(`Couldn't upload ${file.name} to IPFS: ${result.error ?? response.statusText}`);
+  }
+  return result.uri;
+};
+
+// Convert an ipfs:// URI (or bare CID) into a gateway URL that browsers can open
+export const ipfsToGatewayUrl = (uri: string): string => {
+  if (!uri) return '';
+  if (uri.startsWith('ipfs://')) {
+    return `${IPFS_GATEWAY}/ipfs/${uri.replace('ipfs://', '')}`;
+  }
+  if (uri.startsWith('Qm') || uri.startsWith('bafy')) {
+    return `${IPFS_GATEWAY}/ipfs/${uri}`;
+  }
+  return uri;
+};
+
+// Encode JSON metadata as a data URI so it can be stored and read back without a pinning service
+export const toJSONDataURI = (data: unknown): string => {
+  return `data:application/json;base64,${ethers.utils.base64.encode(ethers.utils.toUtf8Bytes(JSON.stringify(data)))}`;
+};
+
+// Resolve JSON metadata from an inline data URI or an IPFS/HTTP location
+export const resolveJSON = async <T>(uri: string): Promise<T | null> => {
+  if (!uri) return null;
+  try {
+    if (uri.startsWith('data:application/json;base64,')) {
+      const json = ethers.utils.toUtf8String(ethers.utils.base64.decode(uri.replace('data:application/json;base64,', '')));
+      return JSON.parse(json);
+    }
+    if (uri.startsWith('data:application/json,')) {
+      return JSON.parse(decodeURIComponent(uri.replace('data:application/json,', '')));
+    }
+    const response = await fetch(ipfsToGatewayUrl(uri));
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.warn(`Couldn't resolve JSON metadata at ${uri}:`, error);
+    return null;
+  }
+};
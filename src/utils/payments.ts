@@ -0,0 +1,191 @@
+import { ethers } from 'ethers';
+import {
+  AthleteChainFactoryContract,
+  AthleteContractContract,
+  ContractDetails,
+  getContractDetails,
+  getMilestones,
+  getTokenDecimals,
+  isSettlementPayment,
+  isStipendPayment
+} from './contracts';
+import { getAgentContractIds, getPartyContractIds } from './indexer';
+import { getTokenByAddress } from './tokens';
+
+// Milestone, stipend and settlement payouts as seen from one account, for the /payments ledger and its exports
+
+export type LedgerRole = 'athlete' | 'sponsor' | 'agent';
+
+export interface LedgerEntry {
+  contractId: number;
+  // Null for stipend withdrawals and negotiated settlements
+  milestoneIndex: number | null;
+  milestone: string;
+  // What the connected account did in the payout: received it or paid it
+  direction: 'in' | 'out';
+  role: LedgerRole;
+  paymentToken: string;
+  tokenSymbol: string;
+  // Base units of the payment token, and the same amount as a decimal string
+  amount: ethers.BigNumber;
+  formattedAmount: string;
+  counterparty: string;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface LedgerFilter {
+  // Unix seconds, inclusive
+  from?: number;
+  to?: number;
+  contractId?: number;
+  tokenSymbol?: string;
+}
+
+// Every milestone payout, stipend withdrawal and negotiated settlement the account received or paid, newest first. Athletes are
+// credited the payout minus their agent's commission, sponsors are debited the full amount and agents
+// are credited their commission.
+export const getPaymentLedger = async (
+  factory: AthleteChainFactoryContract,
+  athleteContract: AthleteContractContract,
+  account: string
+): Promise<LedgerEntry[]> => {
+  const [partyIds, agentIds] = await Promise.all([
+    getPartyContractIds(factory, account),
+    getAgentContractIds(athleteContract, account)
+  ]);
+  const contractIds = new Set([...partyIds, ...agentIds]);
+  if (contractIds.size === 0) return [];
+
+  const [released, commissions] = await Promise.all([
+    athleteContract.queryFilter(athleteContract.filters.PaymentReleased()),
+    athleteContract.queryFilter(athleteContract.filters.AgentCommissionPaid())
+  ]);
+  // The commission on a payout is emitted in the same transaction as its PaymentReleased
+  const commissionOf = new Map<string, { agent: string; amount: ethers.BigNumber }>();
+  commissions.forEach(event => {
+    if (!event.args) return;
+    commissionOf.set(`${event.transactionHash}-${event.args.milestoneIndex}`, { agent: event.args.agent, amount: event.args.amount });
+  });
+
+  const contracts = new Map<number, Promise<{ details: ContractDetails; milestones: string[] }>>();
+  const loadContract = (contractId: number) => {
+    if (!contracts.has(contractId)) {
+      contracts.set(contractId, Promise.all([
+        getContractDetails(athleteContract, contractId),
+        getMilestones(athleteContract, contractId)
+      ]).then(([details, milestones]) => ({ details, milestones: milestones.map(m => m.description) })));
+    }
+    return contracts.get(contractId)!;
+  };
+
+  const blockTimestamps = new Map<number, number>();
+  const party = account.toLowerCase();
+  const entries: LedgerEntry[] = [];
+  for (const event of released) {
+    if (!event.args) continue;
+    const contractId = (event.args.contractId as ethers.BigNumber).toNumber();
+    if (!contractIds.has(contractId)) continue;
+
+    const { details, milestones } = await loadContract(contractId);
+    const paymentIndex = event.args.milestoneIndex as ethers.BigNumber;
+    let milestoneIndex: number | null = null;
+    let milestone: string;
+    if (isStipendPayment(paymentIndex)) {
+      milestone = 'Stipend';
+    } else if (isSettlementPayment(paymentIndex)) {
+      milestone = 'Termination settlement';
+    } else {
+      milestoneIndex = paymentIndex.toNumber();
+      milestone = milestones[milestoneIndex] ?? `Milestone ${milestoneIndex + 1}`;
+    }
+    const gross = event.args.amount as ethers.BigNumber;
+    const commission = commissionOf.get(`${event.transactionHash}-${paymentIndex}`);
+
+    let role: LedgerRole;
+    let amount: ethers.BigNumber;
+    let counterparty: string;
+    if (details.athlete.toLowerCase() === party) {
+      role = 'athlete';
+      amount = commission ? gross.sub(commission.amount) : gross;
+      counterparty = details.sponsor;
+    } else if (details.sponsor.toLowerCase() === party) {
+      role = 'sponsor';
+      amount = gross;
+      counterparty = details.athlete;
+    } else if (commission && commission.agent.toLowerCase() === party) {
+      role = 'agent';
+      amount = commission.amount;
+      counterparty = details.athlete;
+    } else {
+      continue;
+    }
+
+    if (!blockTimestamps.has(event.blockNumber)) {
+      blockTimestamps.set(event.blockNumber, (await event.getBlock()).timestamp);
+    }
+    entries.push({
+      contractId,
+      milestoneIndex,
+      milestone,
+      direction: role === 'sponsor' ? 'out' : 'in',
+      role,
+      paymentToken: details.paymentToken,
+      tokenSymbol: getTokenByAddress(details.paymentToken)?.symbol ?? details.paymentToken,
+      amount,
+      formattedAmount: ethers.utils.formatUnits(amount, getTokenDecimals(details.paymentToken)),
+      counterparty,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp: blockTimestamps.get(event.blockNumber) ?? 0
+    });
+  }
+  return entries.reverse();
+};
+
+export const filterLedger = (entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] =>
+  entries.filter(entry =>
+    (filter.from === undefined || entry.timestamp >= filter.from) &&
+    (filter.to === undefined || entry.timestamp <= filter.to) &&
+    (filter.contractId === undefined || entry.contractId === filter.contractId) &&
+    (filter.tokenSymbol === undefined || entry.tokenSymbol === filter.tokenSymbol)
+  );
+
+// Plain rows shared by both export formats; amounts stay exact decimal strings
+const toExportRow = (entry: LedgerEntry) => ({
+  date: new Date(entry.timestamp * 1000).toISOString(),
+  contractId: entry.contractId,
+  milestoneIndex: entry.milestoneIndex ?? '',
+  milestone: entry.milestone,
+  role: entry.role,
+  direction: entry.direction,
+  token: entry.tokenSymbol,
+  tokenAddress: entry.paymentToken,
+  amount: entry.formattedAmount,
+  amountBaseUnits: entry.amount.toString(),
+  counterparty: entry.counterparty,
+  transactionHash: entry.transactionHash,
+  blockNumber: entry.blockNumber
+});
+
+// Quote fields that need it, and defuse text a spreadsheet would otherwise run as a formula
+const escapeCSV = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: (keyof ReturnType<typeof toExportRow>)[] = [
+  'date', 'contractId', 'milestoneIndex', 'milestone', 'role', 'direction', 'token', 'tokenAddress',
+  'amount', 'amountBaseUnits', 'counterparty', 'transactionHash', 'blockNumber'
+];
+
+export const ledgerToCSV = (entries: LedgerEntry[]): string => {
+  const rows = entries.map(toExportRow).map(row => CSV_COLUMNS.map(column => row[column]));
+  return [CSV_COLUMNS, ...rows]
+    .map(values => values.map(escapeCSV).join(','))
+    .join('\n');
+};
+
+export const ledgerToJSON = (entries: LedgerEntry[]): string =>
+  JSON.stringify(entries.map(toExportRow), null, 2);
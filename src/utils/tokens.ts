@@ -0,0 +1,49 @@
+import { ethers } from 'ethers';
+import contractAddresses from '../contract-addresses.json';
+
+export interface TokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// Native ETH is recorded on-chain as the zero address
+export const NATIVE_TOKEN: TokenInfo = { symbol: 'ETH', address: ethers.constants.AddressZero, decimals: 18 };
+
+// The mock stablecoins scripts/deploy.js deploys on local networks
+const localTokens = (): TokenInfo[] => {
+  const { USDC, USDT, DAI } = contractAddresses.tokens;
+  return [
+    { symbol: 'USDC', address: USDC, decimals: 6 },
+    { symbol: 'USDT', address: USDT, decimals: 6 },
+    { symbol: 'DAI', address: DAI, decimals: 18 }
+  ];
+};
+
+// Supported payment tokens per chain ID, in the order the contract wizard offers them
+const TOKEN_REGISTRY: Record<number, TokenInfo[]> = {
+  1: [
+    { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+    { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+    { symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18 }
+  ],
+  1337: localTokens(),
+  31337: localTokens()
+};
+
+// ERC-20 tokens available on a chain followed by native ETH
+export const getSupportedTokens = (chainId: number | null): TokenInfo[] => [
+  ...(chainId !== null ? TOKEN_REGISTRY[chainId] ?? [] : []),
+  NATIVE_TOKEN
+];
+
+export const getTokenBySymbol = (chainId: number | null, symbol: string): TokenInfo | undefined =>
+  getSupportedTokens(chainId).find(token => token.symbol === symbol);
+
+// Addresses don't collide across networks, so a token can be identified from its address alone
+export const getTokenByAddress = (address: string): TokenInfo | undefined => {
+  if (address === ethers.constants.AddressZero) return NATIVE_TOKEN;
+  return Object.values(TOKEN_REGISTRY)
+    .flat()
+    .find(token => token.address.toLowerCase() === address.toLowerCase());
+};
@@ -0,0 +1,250 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  DAY,
+  ContractState,
+  MilestoneStatus,
+  LatePolicy,
+  deployAthleteChain,
+  now,
+  increaseTo,
+  createDraft,
+  acceptTerms,
+  activate
+} = require("./helpers");
+
+const { parseEther } = ethers.utils;
+
+describe("AthleteContract", () => {
+  let chain;
+  let start;
+
+  beforeEach(async () => {
+    chain = await deployAthleteChain();
+    start = await now();
+  });
+
+  describe("addMilestones", () => {
+    it("adds milestones in batches up to the contract value", async () => {
+      const { athleteContract, sponsor } = chain;
+      const contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount: parseEther("1"), deadline: start + 20 * DAY }],
+        value: parseEther("3")
+      });
+
+      await athleteContract.connect(sponsor).addMilestones(contractId, ["Second"], [parseEther("2")], [start + 40 * DAY]);
+      await expect(
+        athleteContract.connect(sponsor).addMilestones(contractId, ["Third"], [parseEther("1")], [start + 50 * DAY])
+      ).to.be.revertedWith("Milestones exceed contract value");
+      expect(await athleteContract.getMilestonesCount(contractId)).to.equal(2);
+    });
+
+    it("won't activate until the milestones make up the contract value", async () => {
+      const { athleteContract, sponsor } = chain;
+      const contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount: parseEther("1"), deadline: start + 20 * DAY }],
+        value: parseEther("3")
+      });
+      await acceptTerms(chain, contractId);
+      await expect(
+        athleteContract.connect(sponsor).activateContract(contractId, { value: parseEther("3") })
+      ).to.be.revertedWith("Milestones and stipend must match contract value");
+    });
+  });
+
+  describe("activateContract", () => {
+    let contractId;
+
+    beforeEach(async () => {
+      contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount: parseEther("1"), deadline: start + 30 * DAY }]
+      });
+    });
+
+    it("requires both parties to accept the current terms", async () => {
+      const { athleteContract, sponsor } = chain;
+      await athleteContract.connect(sponsor).acceptTerms(contractId, ethers.utils.id("ipfs://terms"));
+      await expect(
+        athleteContract.connect(sponsor).activateContract(contractId, { value: parseEther("1") })
+      ).to.be.revertedWith("Both parties must accept the terms");
+    });
+
+    it("clears both acceptances when the terms change", async () => {
+      const { athleteContract, sponsor } = chain;
+      await acceptTerms(chain, contractId);
+      await athleteContract.connect(sponsor).setLatePolicy(contractId, LatePolicy.Penalty, 0, 2000);
+      await expect(
+        athleteContract.connect(sponsor).activateContract(contractId, { value: parseEther("1") })
+      ).to.be.revertedWith("Both parties must accept the terms");
+    });
+
+    it("takes the missing escrow from the sponsor", async () => {
+      const { athleteContract, sponsor } = chain;
+      await acceptTerms(chain, contractId);
+      await expect(() =>
+        athleteContract.connect(sponsor).activateContract(contractId, { value: parseEther("1") })
+      ).to.changeEtherBalances([sponsor, athleteContract], [parseEther("-1"), parseEther("1")]);
+      expect(await athleteContract.escrowBalance(contractId)).to.equal(parseEther("1"));
+      expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Active);
+    });
+
+    it("doesn't let the athlete activate an unfunded contract", async () => {
+      const { athleteContract, athlete } = chain;
+      await acceptTerms(chain, contractId);
+      await expect(athleteContract.connect(athlete).activateContract(contractId)).to.be.revertedWith("Escrow not fully funded");
+    });
+
+    it("pulls ERC-20 escrow from the sponsor", async () => {
+      const { athleteContract, sponsor } = chain;
+      const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+      const amount = ethers.utils.parseUnits("500", 6);
+      const tokenContractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount, deadline: start + 30 * DAY }],
+        paymentToken: token.address
+      });
+      await token.mint(sponsor.address, amount);
+      await token.connect(sponsor).approve(athleteContract.address, amount);
+      await acceptTerms(chain, tokenContractId);
+
+      await athleteContract.connect(sponsor).activateContract(tokenContractId);
+
+      expect(await token.balanceOf(athleteContract.address)).to.equal(amount);
+      expect(await token.balanceOf(sponsor.address)).to.equal(0);
+      expect(await athleteContract.escrowBalance(tokenContractId)).to.equal(amount);
+    });
+  });
+
+  describe("claimMilestonePayment", () => {
+    let contractId;
+
+    beforeEach(async () => {
+      const { factory, athleteContract, athlete, agent } = chain;
+      contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [
+          { amount: parseEther("1"), deadline: start + 20 * DAY },
+          { amount: parseEther("2"), deadline: start + 40 * DAY }
+        ]
+      });
+      await factory.connect(agent).registerUser(agent.address, await factory.AGENT_ROLE(), "Agent", "");
+      await factory.connect(athlete).assignAgent(contractId, agent.address, 1000);
+      await activate(chain, contractId);
+      await athleteContract.connect(athlete).completeMilestone(contractId, 0, "ipfs://evidence");
+    });
+
+    it("pays the athlete and their agent once the review window lapses", async () => {
+      const { athleteContract, athlete, agent, keeper } = chain;
+      await expect(athleteContract.connect(keeper).claimMilestonePayment(contractId, 0)).to.be.revertedWith("Review period not over");
+
+      await increaseTo((await athleteContract.getReviewDeadline(contractId, 0)).toNumber());
+      await expect(() =>
+        athleteContract.connect(keeper).claimMilestonePayment(contractId, 0)
+      ).to.changeEtherBalances([athlete, agent, athleteContract], [parseEther("0.9"), parseEther("0.1"), parseEther("-1")]);
+      expect(await athleteContract.escrowBalance(contractId)).to.equal(parseEther("2"));
+      expect(await athleteContract.agentCommissionPaid(contractId)).to.equal(parseEther("0.1"));
+    });
+
+    it("won't pay a submission the sponsor rejected", async () => {
+      const { athleteContract, sponsor, keeper } = chain;
+      await athleteContract.connect(sponsor).rejectMilestone(contractId, 0, "Wrong event");
+      await increaseTo((await athleteContract.getReviewDeadline(contractId, 0)).toNumber());
+      await expect(athleteContract.connect(keeper).claimMilestonePayment(contractId, 0)).to.be.revertedWith("Milestone not completed");
+    });
+
+    it("completes the contract with the last payment", async () => {
+      const { athleteContract, athlete, sponsor, keeper } = chain;
+      await athleteContract.connect(sponsor).releaseMilestonePayment(contractId, 0);
+      await athleteContract.connect(athlete).completeMilestone(contractId, 1, "ipfs://evidence-2");
+      await increaseTo((await athleteContract.getReviewDeadline(contractId, 1)).toNumber());
+
+      await expect(athleteContract.connect(keeper).claimMilestonePayment(contractId, 1))
+        .to.emit(athleteContract, "ContractCompleted")
+        .withArgs(contractId);
+      expect(await athleteContract.escrowBalance(contractId)).to.equal(0);
+      expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Completed);
+    });
+  });
+
+  describe("forfeitMilestone", () => {
+    const deadline = () => start + 20 * DAY;
+
+    it("refunds an overdue milestone to the sponsor once the grace period is over", async () => {
+      const { athleteContract, sponsor } = chain;
+      const contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount: parseEther("1"), deadline: deadline() }]
+      });
+      await athleteContract.connect(sponsor).setLatePolicy(contractId, LatePolicy.GracePeriod, 2 * DAY, 0);
+      await activate(chain, contractId);
+
+      await increaseTo(deadline() + DAY);
+      await expect(athleteContract.connect(sponsor).forfeitMilestone(contractId, 0)).to.be.revertedWith("Milestone not overdue");
+
+      await increaseTo(deadline() + 2 * DAY + 1);
+      await expect(() =>
+        athleteContract.connect(sponsor).forfeitMilestone(contractId, 0)
+      ).to.changeEtherBalances([sponsor, athleteContract], [parseEther("1"), parseEther("-1")]);
+      expect((await athleteContract.getMilestoneDetails(contractId, 0)).status).to.equal(MilestoneStatus.Forfeited);
+      expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Completed);
+    });
+
+    it("takes late work until the end date under the Penalty policy", async () => {
+      const { athleteContract, athlete, sponsor } = chain;
+      const end = start + 60 * DAY;
+      const contractId = await createDraft(chain, {
+        start,
+        end,
+        milestones: [
+          { amount: parseEther("1"), deadline: deadline() },
+          { amount: parseEther("1"), deadline: deadline() }
+        ]
+      });
+      await athleteContract.connect(sponsor).setLatePolicy(contractId, LatePolicy.Penalty, 0, 2000);
+      await activate(chain, contractId);
+
+      await increaseTo(deadline() + DAY);
+      await expect(athleteContract.connect(sponsor).forfeitMilestone(contractId, 0)).to.be.revertedWith("Milestone not overdue");
+      await athleteContract.connect(athlete).completeMilestone(contractId, 0, "ipfs://late");
+      await expect(() =>
+        athleteContract.connect(sponsor).releaseMilestonePayment(contractId, 0)
+      ).to.changeEtherBalances([athlete, sponsor], [parseEther("0.8"), parseEther("0.2")]);
+
+      await increaseTo(end + 1);
+      await expect(athleteContract.connect(athlete).completeMilestone(contractId, 1, "ipfs://too-late")).to.be.revertedWith("Milestone overdue");
+      await expect(() =>
+        athleteContract.connect(sponsor).forfeitMilestone(contractId, 1)
+      ).to.changeEtherBalance(sponsor, parseEther("1"));
+    });
+
+    it("lets the sponsor forfeit a rejected milestone with no submissions left", async () => {
+      const { athleteContract, athlete, sponsor } = chain;
+      const contractId = await createDraft(chain, {
+        start,
+        end: start + 60 * DAY,
+        milestones: [{ amount: parseEther("1"), deadline: deadline() }]
+      });
+      await activate(chain, contractId);
+
+      const maxSubmissions = (await athleteContract.MAX_MILESTONE_SUBMISSIONS()).toNumber();
+      for (let submission = 1; submission <= maxSubmissions; submission++) {
+        await athleteContract.connect(athlete).completeMilestone(contractId, 0, `ipfs://evidence-${submission}`);
+        await athleteContract.connect(sponsor).rejectMilestone(contractId, 0, "Not delivered");
+      }
+      await expect(athleteContract.connect(athlete).completeMilestone(contractId, 0, "ipfs://again")).to.be.revertedWith("Submission limit reached");
+
+      await expect(() =>
+        athleteContract.connect(sponsor).forfeitMilestone(contractId, 0)
+      ).to.changeEtherBalance(sponsor, parseEther("1"));
+    });
+  });
+});
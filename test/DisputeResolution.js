@@ -0,0 +1,108 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  DAY,
+  ContractState,
+  deployAthleteChain,
+  now,
+  createDraft,
+  activate
+} = require("./helpers");
+
+const { parseEther } = ethers.utils;
+
+describe("DisputeResolution", () => {
+  let chain;
+  let start;
+  let contractId;
+  let disputeId;
+
+  // One milestone submitted and awaiting review, one not yet due
+  beforeEach(async () => {
+    chain = await deployAthleteChain();
+    const { athleteContract, disputeResolution, athlete } = chain;
+    start = await now();
+    contractId = await createDraft(chain, {
+      start,
+      end: start + 60 * DAY,
+      milestones: [
+        { amount: parseEther("1"), deadline: start + 20 * DAY },
+        { amount: parseEther("2"), deadline: start + 40 * DAY }
+      ]
+    });
+    await activate(chain, contractId);
+    await athleteContract.connect(athlete).completeMilestone(contractId, 0, "ipfs://evidence");
+    disputeId = await disputeResolution.disputeCount();
+  });
+
+  const raiseDispute = () =>
+    chain.disputeResolution.connect(chain.sponsor).createDispute(contractId, "ipfs://dispute", "Work not delivered", [1]);
+
+  const grantArbitrators = async (count) => {
+    const { disputeResolution, arbitrators } = chain;
+    const role = await disputeResolution.ARBITRATOR_ROLE();
+    for (const arbitrator of arbitrators.slice(0, count)) {
+      await disputeResolution.grantRole(role, arbitrator.address);
+    }
+  };
+
+  it("settles an admin ruling for the sponsor at the given pro-rata share", async () => {
+    const { athleteContract, disputeResolution, athlete, sponsor } = chain;
+    await raiseDispute();
+
+    // The submitted milestone is paid in full and half of the pending one; the rest goes back to the sponsor
+    await expect(() =>
+      disputeResolution.forceResolveDispute(disputeId, false, 5000)
+    ).to.changeEtherBalances([athlete, sponsor, athleteContract], [parseEther("2"), parseEther("1"), parseEther("-3")]);
+
+    const settlement = await athleteContract.settlements(contractId);
+    expect(settlement.athleteAmount).to.equal(parseEther("2"));
+    expect(settlement.refund).to.equal(parseEther("1"));
+    expect(settlement.proRataBps).to.equal(5000);
+    expect(settlement.negotiated).to.equal(false);
+    expect(await athleteContract.escrowBalance(contractId)).to.equal(0);
+    expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Terminated);
+  });
+
+  it("settles a panel majority for the sponsor by elapsed time", async () => {
+    const { athleteContract, disputeResolution, arbitrators } = chain;
+    await grantArbitrators(1);
+    await raiseDispute();
+
+    // Halfway to its deadline, the pending milestone is owed half its amount
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 20 * DAY]);
+    await expect(disputeResolution.connect(arbitrators[0]).voteOnDispute(disputeId, false))
+      .to.emit(athleteContract, "ContractSettled")
+      .withArgs(contractId, parseEther("2"), parseEther("1"), await athleteContract.PRO_RATA_BY_TIME());
+  });
+
+  it("reinstates the contract on a ruling for the athlete", async () => {
+    const { athleteContract, disputeResolution, arbitrators } = chain;
+    await grantArbitrators(1);
+    await raiseDispute();
+
+    await disputeResolution.connect(arbitrators[0]).voteOnDispute(disputeId, true);
+
+    expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Active);
+    expect(await athleteContract.escrowBalance(contractId)).to.equal(parseEther("3"));
+  });
+
+  it("leaves a tied panel to the admin", async () => {
+    const { athleteContract, disputeResolution, arbitrators } = chain;
+    await grantArbitrators(2);
+    await raiseDispute();
+
+    await disputeResolution.connect(arbitrators[0]).voteOnDispute(disputeId, true);
+    await expect(disputeResolution.connect(arbitrators[1]).voteOnDispute(disputeId, false))
+      .to.emit(disputeResolution, "DisputeDeadlocked")
+      .withArgs(disputeId, contractId);
+
+    // Arbitrators added after filing don't sit on the panel
+    await disputeResolution.grantRole(await disputeResolution.ARBITRATOR_ROLE(), arbitrators[2].address);
+    await expect(disputeResolution.connect(arbitrators[2]).voteOnDispute(disputeId, true))
+      .to.be.revertedWith("Dispute deadlocked, awaiting admin ruling");
+
+    await disputeResolution.forceResolveDispute(disputeId, true, 0);
+    expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Active);
+  });
+});
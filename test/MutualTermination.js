@@ -0,0 +1,133 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  DAY,
+  ContractState,
+  StipendMode,
+  deployAthleteChain,
+  now,
+  increaseTo,
+  createDraft,
+  activate
+} = require("./helpers");
+
+const { parseEther } = ethers.utils;
+
+const ProposalStatus = { Open: 0, Accepted: 1, Declined: 2, Countered: 3, Withdrawn: 4 };
+
+describe("MutualTermination", () => {
+  let chain;
+  let start;
+  let contractId;
+
+  // A 1 ETH stream over 100 days alongside a 1 ETH milestone
+  beforeEach(async () => {
+    chain = await deployAthleteChain();
+    start = await now();
+    contractId = await createDraft(chain, {
+      start,
+      end: start + 100 * DAY,
+      stipend: { mode: StipendMode.Stream, amount: parseEther("1") },
+      milestones: [{ amount: parseEther("1"), deadline: start + 50 * DAY }]
+    });
+    await activate(chain, contractId);
+  });
+
+  it("pays the stipend up to the end date and splits the rest once that date is reached", async () => {
+    const { athleteContract, mutualTermination, athlete, sponsor } = chain;
+    const endDate = start + 40 * DAY;
+    // 0.4 of the stream accrues by the end date, leaving 1.6 to split
+    const [remaining] = await mutualTermination.getSplittableEscrow(contractId, endDate);
+    expect(remaining).to.equal(parseEther("1.6"));
+    await mutualTermination.connect(sponsor).proposeTermination(contractId, endDate, parseEther("1"), parseEther("0.6"), "Parting ways");
+    await expect(mutualTermination.connect(athlete).acceptTermination(0)).to.be.revertedWith("End date not reached");
+
+    await increaseTo(start + 60 * DAY);
+    await expect(() =>
+      mutualTermination.connect(athlete).acceptTermination(0)
+    ).to.changeEtherBalances([athlete, sponsor, athleteContract], [parseEther("1.4"), parseEther("0.6"), parseEther("-2")]);
+
+    expect(await athleteContract.stipendStoppedAt(contractId)).to.equal(endDate);
+    expect(await athleteContract.getStipendAccrued(contractId)).to.equal(parseEther("0.4"));
+    const settlement = await athleteContract.settlements(contractId);
+    expect(settlement.athleteAmount).to.equal(parseEther("1.4"));
+    expect(settlement.refund).to.equal(parseEther("0.6"));
+    expect(settlement.negotiated).to.equal(true);
+    expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Terminated);
+    expect((await mutualTermination.proposals(0)).status).to.equal(ProposalStatus.Accepted);
+  });
+
+  it("still settles after the athlete withdraws stipend while the proposal is open", async () => {
+    const { athleteContract, mutualTermination, athlete, sponsor } = chain;
+    const endDate = start + 40 * DAY;
+    await mutualTermination.connect(athlete).proposeTermination(contractId, endDate, parseEther("1"), parseEther("0.6"), "");
+
+    // 0.2 before the end date, then 0.3 more of which 0.1 accrued after it
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 20 * DAY]);
+    await athleteContract.connect(athlete).withdrawStipend(contractId);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 50 * DAY]);
+    await athleteContract.connect(athlete).withdrawStipend(contractId);
+    expect(await athleteContract.stipendWithdrawn(contractId)).to.equal(parseEther("0.5"));
+
+    // The athlete ends up with the 0.4 of stipend and the agreed 1, the sponsor with the agreed 0.6
+    await increaseTo(start + 60 * DAY);
+    await expect(() =>
+      mutualTermination.connect(sponsor).acceptTermination(0)
+    ).to.changeEtherBalances([athlete, sponsor, athleteContract], [parseEther("0.9"), parseEther("0.6"), parseEther("-1.5")]);
+    expect((await athleteContract.getContractDetails(contractId)).state).to.equal(ContractState.Terminated);
+  });
+
+  it("scales both shares when a milestone is forfeited while the proposal is open", async () => {
+    const { athleteContract, mutualTermination, athlete, sponsor } = chain;
+    const endDate = start + 60 * DAY;
+    // 0.6 of the stream is owed by the end date, leaving the 1 of the milestone and 0.4 of stream to split
+    await mutualTermination.connect(athlete).proposeTermination(contractId, endDate, parseEther("0.7"), parseEther("0.7"), "");
+
+    await increaseTo(start + 50 * DAY + 1);
+    await athleteContract.connect(sponsor).forfeitMilestone(contractId, 0);
+
+    await increaseTo(endDate);
+    await expect(() =>
+      mutualTermination.connect(sponsor).acceptTermination(0)
+    ).to.changeEtherBalances([athlete, sponsor], [parseEther("0.8"), parseEther("0.2")]);
+  });
+
+  it("only lets the other party accept", async () => {
+    const { mutualTermination, sponsor } = chain;
+    await mutualTermination.connect(sponsor).proposeTermination(contractId, start + 10 * DAY, parseEther("1"), parseEther("0.9"), "");
+    await expect(mutualTermination.connect(sponsor).acceptTermination(0)).to.be.revertedWith("Cannot respond to your own proposal");
+  });
+
+  it("settles on a counter-proposal's terms", async () => {
+    const { athleteContract, mutualTermination, athlete, sponsor } = chain;
+    const endDate = start + 10 * DAY;
+    await mutualTermination.connect(sponsor).proposeTermination(contractId, endDate, parseEther("0.5"), parseEther("1.4"), "");
+    await mutualTermination.connect(athlete).counterTermination(0, endDate, parseEther("1"), parseEther("0.9"), "Meet halfway");
+    expect((await mutualTermination.proposals(0)).status).to.equal(ProposalStatus.Countered);
+    await expect(mutualTermination.connect(sponsor).acceptTermination(0)).to.be.revertedWith("Proposal not open");
+
+    // The 0.1 of stipend accrued by the end date is paid on top of the athlete's share
+    await increaseTo(endDate);
+    await expect(mutualTermination.connect(sponsor).acceptTermination(1))
+      .to.emit(athleteContract, "ContractSettled")
+      .withArgs(contractId, parseEther("1.1"), parseEther("0.9"), 0);
+  });
+
+  it("rejects a split that doesn't match the escrow", async () => {
+    const { mutualTermination, sponsor } = chain;
+    await expect(
+      mutualTermination.connect(sponsor).proposeTermination(contractId, start + 10 * DAY, parseEther("1"), parseEther("1"), "")
+    ).to.be.revertedWith("Settlement must split the escrow");
+  });
+
+  it("can only decline a proposal left open by a dispute", async () => {
+    const { athleteContract, mutualTermination, athlete, sponsor } = chain;
+    await mutualTermination.connect(sponsor).proposeTermination(contractId, start + 10 * DAY, parseEther("1"), parseEther("0.9"), "");
+    await athleteContract.connect(athlete).raiseDispute(contractId, "Unpaid stipend");
+
+    await expect(mutualTermination.connect(athlete).acceptTermination(0)).to.be.revertedWith("Contract not active");
+    await mutualTermination.connect(athlete).declineTermination(0, "Disputed instead");
+    expect(await mutualTermination.openProposalOf(contractId)).to.equal(0);
+    expect(await athleteContract.escrowBalance(contractId)).to.equal(parseEther("2"));
+  });
+});
@@ -0,0 +1,86 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  DAY,
+  MilestoneStatus,
+  deployAthleteChain,
+  now,
+  increaseTo,
+  createDraft,
+  activate
+} = require("./helpers");
+
+const { parseEther } = ethers.utils;
+
+describe("PerformanceOracle", () => {
+  let chain;
+  let start;
+  let contractId;
+
+  // A regular milestone and a 2 ETH bonus for scoring at least 10 goals
+  beforeEach(async () => {
+    chain = await deployAthleteChain();
+    const { performanceOracle, sponsor, oracle } = chain;
+    start = await now();
+    contractId = await createDraft(chain, {
+      start,
+      end: start + 60 * DAY,
+      milestones: [
+        { amount: parseEther("1"), deadline: start + 20 * DAY },
+        { amount: parseEther("2"), deadline: start + 30 * DAY }
+      ]
+    });
+    await performanceOracle.grantRole(await performanceOracle.ORACLE_ROLE(), oracle.address);
+    await performanceOracle.connect(sponsor).setBonusCondition(contractId, 1, oracle.address, "goals", 10);
+    await activate(chain, contractId);
+  });
+
+  const sign = async (signer, value) =>
+    signer.signMessage(ethers.utils.arrayify(await chain.performanceOracle.getAttestationHash(contractId, 1, value)));
+
+  it("records a result below the threshold without paying", async () => {
+    const { athleteContract, performanceOracle, oracle, keeper } = chain;
+    await expect(performanceOracle.connect(keeper).submitAttestation(contractId, 1, 7, await sign(oracle, 7)))
+      .to.emit(performanceOracle, "AttestationSubmitted")
+      .withArgs(contractId, 1, oracle.address, 7, false);
+
+    expect((await athleteContract.getMilestoneDetails(contractId, 1)).status).to.equal(MilestoneStatus.Pending);
+    expect(await athleteContract.escrowBalance(contractId)).to.equal(parseEther("3"));
+  });
+
+  it("pays the bonus once the oracle attests the threshold was met", async () => {
+    const { athleteContract, performanceOracle, athlete, oracle, keeper } = chain;
+    const signature = await sign(oracle, 12);
+    await expect(() =>
+      performanceOracle.connect(keeper).submitAttestation(contractId, 1, 12, signature)
+    ).to.changeEtherBalances([athlete, athleteContract], [parseEther("2"), parseEther("-2")]);
+
+    const milestone = await athleteContract.getMilestoneDetails(contractId, 1);
+    expect(milestone.status).to.equal(MilestoneStatus.Completed);
+    expect(milestone.paid).to.equal(true);
+    expect(milestone.evidence).to.equal("oracle:goals=12");
+    await expect(performanceOracle.connect(keeper).submitAttestation(contractId, 1, 12, signature)).to.be.revertedWith("Bonus already settled");
+  });
+
+  it("rejects a result not signed by the milestone's oracle", async () => {
+    const { performanceOracle, keeper } = chain;
+    await expect(
+      performanceOracle.connect(keeper).submitAttestation(contractId, 1, 12, await sign(keeper, 12))
+    ).to.be.revertedWith("Invalid oracle signature");
+  });
+
+  it("leaves the bonus to the oracle alone", async () => {
+    const { athleteContract, athlete } = chain;
+    await expect(
+      athleteContract.connect(athlete).completeMilestone(contractId, 1, "ipfs://evidence")
+    ).to.be.revertedWith("Bonus milestones are settled by oracle");
+  });
+
+  it("won't settle a bonus after its deadline", async () => {
+    const { performanceOracle, oracle, keeper } = chain;
+    await increaseTo(start + 30 * DAY + 1);
+    await expect(
+      performanceOracle.connect(keeper).submitAttestation(contractId, 1, 12, await sign(oracle, 12))
+    ).to.be.revertedWith("Milestone overdue");
+  });
+});
@@ -0,0 +1,53 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const {
+  DAY,
+  deployAthleteChain,
+  now,
+  createDraft,
+  activate
+} = require("./helpers");
+
+const { parseEther } = ethers.utils;
+
+const ACTIVE_URI = "data:application/json,{\"status\":\"Active\"}";
+const COMPLETED_URI = "data:application/json,{\"status\":\"Completed\"}";
+
+describe("SponsorshipNFT", () => {
+  let chain;
+  let contractId;
+  let tokenId;
+
+  // A tokenized deal with a single milestone, submitted and awaiting review
+  beforeEach(async () => {
+    chain = await deployAthleteChain();
+    const { factory, athleteContract, sponsorshipNFT, athlete } = chain;
+    const start = await now();
+    contractId = await createDraft(chain, {
+      start,
+      end: start + 60 * DAY,
+      milestones: [{ amount: parseEther("1"), deadline: start + 30 * DAY }]
+    });
+    await activate(chain, contractId);
+    await factory.connect(athlete).mintContractNFT(contractId, ACTIVE_URI, COMPLETED_URI);
+    tokenId = await sponsorshipNFT.tokenIdOf(contractId);
+    await athleteContract.connect(athlete).completeMilestone(contractId, 0, "ipfs://evidence");
+  });
+
+  it("goes to the sponsor with the active metadata", async () => {
+    const { sponsorshipNFT, sponsor } = chain;
+    expect(await sponsorshipNFT.ownerOf(tokenId)).to.equal(sponsor.address);
+    expect(await sponsorshipNFT.tokenURI(tokenId)).to.equal(ACTIVE_URI);
+  });
+
+  it("shows the completed metadata as soon as the contract completes", async () => {
+    const { athleteContract, sponsorshipNFT, sponsor } = chain;
+    await athleteContract.connect(sponsor).releaseMilestonePayment(contractId, 0);
+    expect(await sponsorshipNFT.tokenURI(tokenId)).to.equal(COMPLETED_URI);
+  });
+
+  it("only lets the parties tokenize a deal", async () => {
+    const { factory, keeper } = chain;
+    await expect(factory.connect(keeper).mintContractNFT(contractId, ACTIVE_URI, COMPLETED_URI)).to.be.revertedWith("Only athlete or sponsor can mint");
+  });
+});
@@ -0,0 +1,112 @@
+// Shared setup for the contract tests: a fresh deployment wired the way scripts/deploy.js wires it,
+// plus helpers to draft contracts and move the chain's clock
+const { ethers } = require("hardhat");
+
+const DAY = 24 * 60 * 60;
+const DOCUMENT = "ipfs://terms";
+const ContractState = { Draft: 0, Active: 1, Completed: 2, Disputed: 3, Terminated: 4 };
+const MilestoneStatus = { Pending: 0, Completed: 1, Disputed: 2, Rejected: 3, Forfeited: 4 };
+const LatePolicy = { GracePeriod: 0, Penalty: 1, Forfeit: 2 };
+const StipendMode = { None: 0, Recurring: 1, Stream: 2 };
+
+async function deployAthleteChain() {
+  const [admin, athlete, sponsor, agent, oracle, keeper, ...arbitrators] = await ethers.getSigners();
+
+  const factory = await (await ethers.getContractFactory("AthleteChainFactory")).deploy();
+  const athleteContract = await ethers.getContractAt("AthleteContract", await factory.athleteContract());
+  const sponsorshipNFT = await ethers.getContractAt("SponsorshipNFT", await factory.sponsorshipNFT());
+  const disputeResolution = await (await ethers.getContractFactory("DisputeResolution")).deploy(athleteContract.address);
+  await factory.setDisputeResolution(disputeResolution.address);
+  const performanceOracle = await (await ethers.getContractFactory("PerformanceOracle")).deploy(athleteContract.address);
+  await factory.setPerformanceOracle(performanceOracle.address);
+  const mutualTermination = await (await ethers.getContractFactory("MutualTermination")).deploy(athleteContract.address);
+  await factory.setTerminationManager(mutualTermination.address);
+
+  return {
+    factory,
+    athleteContract,
+    sponsorshipNFT,
+    disputeResolution,
+    performanceOracle,
+    mutualTermination,
+    admin,
+    athlete,
+    sponsor,
+    agent,
+    oracle,
+    keeper,
+    arbitrators
+  };
+}
+
+const now = async () => (await ethers.provider.getBlock("latest")).timestamp;
+
+// Mine the next block at the given time
+const increaseTo = async (timestamp) => {
+  await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  await ethers.provider.send("evm_mine", []);
+};
+
+// Create a draft as the sponsor, with milestones given as { amount, deadline }, an optional stipend given
+// as { mode, amount, interval, periods } and the total value defaulting to all of them together.
+// Returns the new contract's id.
+async function createDraft(chain, { start, end, milestones = [], stipend, value, paymentToken = ethers.constants.AddressZero, reviewPeriod = 3 * DAY }) {
+  const { factory, athleteContract, athlete, sponsor } = chain;
+  const stipendTotal = !stipend ? ethers.constants.Zero : stipend.mode === StipendMode.Recurring
+    ? stipend.amount.mul(stipend.periods)
+    : stipend.amount;
+  const total = value ?? milestones.reduce((sum, milestone) => sum.add(milestone.amount), stipendTotal);
+  const contractId = await athleteContract.contractCount();
+  await factory.connect(sponsor).createSponsorshipContract(
+    athlete.address,
+    sponsor.address,
+    DOCUMENT,
+    total,
+    start,
+    end,
+    paymentToken,
+    [],
+    reviewPeriod
+  );
+  if (stipend) {
+    await athleteContract.connect(sponsor).setStipend(contractId, stipend.mode, stipend.amount, stipend.interval ?? 0, stipend.periods ?? 0);
+  }
+  if (milestones.length > 0) {
+    await athleteContract.connect(sponsor).addMilestones(
+      contractId,
+      milestones.map((_, index) => `Milestone ${index + 1}`),
+      milestones.map(milestone => milestone.amount),
+      milestones.map(milestone => milestone.deadline)
+    );
+  }
+  return contractId;
+}
+
+// Have both parties accept the draft's current terms
+async function acceptTerms(chain, contractId) {
+  const documentHash = ethers.utils.id(DOCUMENT);
+  await chain.athleteContract.connect(chain.athlete).acceptTerms(contractId, documentHash);
+  await chain.athleteContract.connect(chain.sponsor).acceptTerms(contractId, documentHash);
+}
+
+// Accept the draft and activate it as the sponsor, funding its ETH escrow in the same call
+async function activate(chain, contractId) {
+  await acceptTerms(chain, contractId);
+  const { totalValue } = await chain.athleteContract.getContractDetails(contractId);
+  await chain.athleteContract.connect(chain.sponsor).activateContract(contractId, { value: totalValue });
+}
+
+module.exports = {
+  DAY,
+  DOCUMENT,
+  ContractState,
+  MilestoneStatus,
+  LatePolicy,
+  StipendMode,
+  deployAthleteChain,
+  now,
+  increaseTo,
+  createDraft,
+  acceptTerms,
+  activate
+};